@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimit } from '@/lib/rateLimiter';
+import { authenticateDevice, credentialForbiddenResponse } from '@/lib/deviceCredentials';
+import { getChannelStore, isValidChannelId, isValidPeerId } from '@/lib/channels';
+
+// Only registered devices may see or change membership; a peerId on a channel belongs to the user who joined with it
+const peerIdTakenResponse = () => credentialForbiddenResponse('peerId is in use by another device on this channel');
+
+// List channel members
+export async function GET(request: Request) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'channel_membership');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const channel = new URL(request.url).searchParams.get('channel');
+
+        if (!isValidChannelId(channel)) {
+            return NextResponse.json({ error: 'Valid channel query parameter is required' }, { status: 400 });
+        }
+
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+
+        const members = await getChannelStore().listMembers(channel);
+        return NextResponse.json({ channel, members });
+
+    } catch (error) {
+        console.error('Error listing channel members:', error);
+        return NextResponse.json({
+            error: 'Failed to list channel members',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
+
+// Join a channel (repeat periodically as a heartbeat)
+export async function POST(request: Request) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'channel_membership');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const body = await request.json();
+        const { channel, peerId } = body;
+
+        if (!isValidChannelId(channel)) {
+            return NextResponse.json({ error: 'Valid channel is required' }, { status: 400 });
+        }
+
+        if (!isValidPeerId(peerId)) {
+            return NextResponse.json({ error: 'Valid peerId is required' }, { status: 400 });
+        }
+
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+
+        const channels = getChannelStore();
+        if (!(await channels.join(channel, peerId, auth.claims.userId))) {
+            return peerIdTakenResponse();
+        }
+        const members = await channels.listMembers(channel);
+
+        return NextResponse.json({ success: true, channel, members });
+
+    } catch (error) {
+        console.error('Error joining channel:', error);
+        return NextResponse.json({
+            error: 'Failed to join channel',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
+
+// Leave a channel
+export async function DELETE(request: Request) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'channel_membership');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const body = await request.json();
+        const { channel, peerId } = body;
+
+        if (!isValidChannelId(channel) || !isValidPeerId(peerId)) {
+            return NextResponse.json({ error: 'Valid channel and peerId are required' }, { status: 400 });
+        }
+
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+
+        if (!(await getChannelStore().leave(channel, peerId, auth.claims.userId))) {
+            return peerIdTakenResponse();
+        }
+        return NextResponse.json({ success: true, message: 'Left channel' });
+
+    } catch (error) {
+        console.error('Error leaving channel:', error);
+        return NextResponse.json({
+            error: 'Failed to leave channel',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isFirebaseReady } from '@/lib/firebaseInit';
+import { rateLimit } from '@/lib/rateLimiter';
+import { sanitizeContacts } from '@/lib/contacts';
+import { getSyncedContacts, isValidUserId, saveSyncedContacts } from '@/lib/contactSync';
+import { authenticateDevice, credentialForbiddenResponse } from '@/lib/deviceCredentials';
+
+// Contact lists hold peer tokens and e2ee secrets, so only a device credential issued to `userId` may touch them
+function authenticateUser(request: Request, userId: string) {
+    const auth = authenticateDevice(request);
+    if ('response' in auth) {
+        return auth.response;
+    }
+    if (auth.claims.userId !== userId) {
+        return credentialForbiddenResponse('Credential does not belong to this userId');
+    }
+    return null;
+}
+
+const firebaseNotReadyResponse = () => NextResponse.json({
+    error: 'Server configuration error: Firebase Admin not initialized',
+    details: 'Check server logs for missing environment variables or initialization errors.'
+}, { status: 500 });
+
+// Fetch the synced contact list for a user
+export async function GET(request: Request) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'contacts_sync');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const userId = new URL(request.url).searchParams.get('userId');
+        if (!isValidUserId(userId)) {
+            return NextResponse.json({ error: 'Valid userId is required' }, { status: 400 });
+        }
+
+        const denied = authenticateUser(request, userId);
+        if (denied) {
+            return denied;
+        }
+
+        if (!isFirebaseReady()) {
+            return firebaseNotReadyResponse();
+        }
+
+        const contacts = await getSyncedContacts(userId);
+        return NextResponse.json({ contacts }, {
+            headers: { 'Cache-Control': 'private, no-store' }
+        });
+
+    } catch (error) {
+        console.error('Error fetching contacts:', error);
+        return NextResponse.json({
+            error: 'Failed to fetch contacts',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
+
+// Replace the synced contact list; clients merge with the server copy before uploading
+export async function PUT(request: Request) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'contacts_sync');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const { userId, contacts } = await request.json();
+
+        if (!isValidUserId(userId)) {
+            return NextResponse.json({ error: 'Valid userId is required' }, { status: 400 });
+        }
+
+        const denied = authenticateUser(request, userId);
+        if (denied) {
+            return denied;
+        }
+
+        const sanitized = sanitizeContacts(contacts);
+        if (!sanitized) {
+            return NextResponse.json({ error: 'Invalid contacts list' }, { status: 400 });
+        }
+
+        if (!isFirebaseReady()) {
+            return firebaseNotReadyResponse();
+        }
+
+        await saveSyncedContacts(userId, sanitized);
+        return NextResponse.json({ success: true, count: sanitized.length });
+
+    } catch (error) {
+        console.error('Error saving contacts:', error);
+        return NextResponse.json({
+            error: 'Failed to save contacts',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { createHash, timingSafeEqual } from 'crypto';
+import { isFirebaseReady } from '@/lib/firebaseInit';
+import { runMaintenance } from '@/lib/maintenance';
+
+const firebaseNotReadyResponse = () => NextResponse.json({
+    error: 'Server configuration error: Firebase Admin not initialized',
+    details: 'Check server logs for missing environment variables or initialization errors.'
+}, { status: 500 });
+
+// Compare digests so the comparison takes the same time whatever the lengths
+const secretMatches = (provided: string, secret: string) =>
+    timingSafeEqual(createHash('sha256').update(provided).digest(), createHash('sha256').update(secret).digest());
+
+// Run the cleanup job; `?dryRun=true` reports what would be removed without touching anything.
+// Callers authenticate with `Authorization: Bearer <MAINTENANCE_SECRET>` (Vercel Cron sends CRON_SECRET this way).
+export async function POST(request: Request) {
+    try {
+        const secret = process.env.MAINTENANCE_SECRET || process.env.CRON_SECRET;
+        if (!secret) {
+            return NextResponse.json({
+                error: 'Server configuration error: maintenance secret not configured',
+                details: 'Set MAINTENANCE_SECRET in the server environment.'
+            }, { status: 500 });
+        }
+
+        const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') || '');
+        if (!match || !secretMatches(match[1], secret)) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        if (!isFirebaseReady()) {
+            return firebaseNotReadyResponse();
+        }
+
+        const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true';
+        const report = await runMaintenance({ dryRun });
+        console.log(`Maintenance ${dryRun ? 'dry run' : 'run'} finished:`, report.tasks);
+
+        return NextResponse.json(report, {
+            headers: { 'Cache-Control': 'private, no-store' }
+        });
+
+    } catch (error) {
+        console.error('Error running maintenance:', error);
+        return NextResponse.json({
+            error: 'Failed to run maintenance',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
+
+// Cron schedulers call with GET
+export async function GET(request: Request) {
+    return POST(request);
+}
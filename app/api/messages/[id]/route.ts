@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isFirebaseReady } from '@/lib/firebaseInit';
+import { rateLimit } from '@/lib/rateLimiter';
+import { getBlobStore, isValidBlobKey } from '@/lib/blobStore';
+import { deleteVoiceMessage, getVoiceMessage } from '@/lib/voiceMessages';
+import { authenticateDevice, credentialForbiddenResponse, credentialMatchesToken } from '@/lib/deviceCredentials';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const firebaseNotReadyResponse = () => NextResponse.json({
+    error: 'Server configuration error: Firebase Admin not initialized',
+    details: 'Check server logs for missing environment variables or initialization errors.'
+}, { status: 500 });
+
+// The caller must hold the recipient token's credential; a token alone proves nothing
+function authenticateRecipient(request: Request, token: unknown) {
+    const auth = authenticateDevice(request);
+    if ('response' in auth) {
+        return auth.response;
+    }
+    if (typeof token !== 'string' || !credentialMatchesToken(auth.claims, token)) {
+        return credentialForbiddenResponse('Credential does not belong to this token');
+    }
+    return null;
+}
+
+// Only the device the message was addressed to may fetch or acknowledge it
+async function findOwnedMessage(id: string, token: string | null) {
+    if (!isValidBlobKey(id) || !token) return null;
+    const message = await getVoiceMessage(id);
+    if (!message || message.targetToken !== token) return null;
+    return message;
+}
+
+// Download the audio clip
+export async function GET(request: Request, { params }: RouteContext) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'voice_message');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        if (!isFirebaseReady()) {
+            return firebaseNotReadyResponse();
+        }
+
+        const { id } = await params;
+        const token = new URL(request.url).searchParams.get('token');
+        const denied = authenticateRecipient(request, token);
+        if (denied) {
+            return denied;
+        }
+
+        const message = await findOwnedMessage(id, token);
+        if (!message) {
+            return NextResponse.json({ error: 'Voice message not found' }, { status: 404 });
+        }
+
+        const blob = await getBlobStore().get(id);
+        if (!blob) {
+            return NextResponse.json({ error: 'Voice message audio not found' }, { status: 404 });
+        }
+
+        return new NextResponse(new Uint8Array(blob.data), {
+            headers: {
+                'Content-Type': blob.contentType,
+                'Content-Length': String(blob.data.length),
+                'Cache-Control': 'private, no-store',
+            }
+        });
+
+    } catch (error) {
+        console.error('Error fetching voice message:', error);
+        return NextResponse.json({
+            error: 'Failed to fetch voice message',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
+
+// Acknowledge delivery and delete the message
+export async function DELETE(request: Request, { params }: RouteContext) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'voice_message');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const { token } = await request.json();
+        const denied = authenticateRecipient(request, token);
+        if (denied) {
+            return denied;
+        }
+
+        if (!isFirebaseReady()) {
+            return firebaseNotReadyResponse();
+        }
+
+        const { id } = await params;
+        const message = await findOwnedMessage(id, token);
+        if (!message) {
+            return NextResponse.json({ error: 'Voice message not found' }, { status: 404 });
+        }
+
+        await deleteVoiceMessage(id);
+        return NextResponse.json({ success: true });
+
+    } catch (error) {
+        console.error('Error deleting voice message:', error);
+        return NextResponse.json({
+            error: 'Failed to delete voice message',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
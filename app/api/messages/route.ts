@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMessaging, isFirebaseReady } from '@/lib/firebaseInit';
+import { rateLimit } from '@/lib/rateLimiter';
+import { isValidChannelId, isValidPeerId } from '@/lib/channels';
+import { authenticateDevice, credentialForbiddenResponse, credentialMatchesToken } from '@/lib/deviceCredentials';
+import { arePaired } from '@/lib/pairings';
+import { getTokenRepository } from '@/lib/tokenRepository';
+import {
+    MAX_VOICE_MESSAGE_BYTES,
+    createVoiceMessage,
+    listPendingVoiceMessages,
+} from '@/lib/voiceMessages';
+
+const firebaseNotReadyResponse = () => NextResponse.json({
+    error: 'Server configuration error: Firebase Admin not initialized',
+    details: 'Check server logs for missing environment variables or initialization errors.'
+}, { status: 500 });
+
+// Upload a voice message for an offline recipient and push its ID over FCM
+export async function POST(request: Request) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'voice_message');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const form = await request.formData();
+        const audio = form.get('audio');
+        const targetToken = form.get('targetToken');
+        const from = form.get('from');
+        const channel = form.get('channel');
+        const duration = Number(form.get('duration')) || 0;
+
+        if (!(audio instanceof Blob) || audio.size === 0) {
+            return NextResponse.json({ error: 'audio file is required' }, { status: 400 });
+        }
+
+        if (audio.size > MAX_VOICE_MESSAGE_BYTES) {
+            return NextResponse.json({ error: 'Voice message too large' }, { status: 413 });
+        }
+
+        if (typeof targetToken !== 'string' || targetToken.length < 50) {
+            return NextResponse.json({ error: 'Invalid targetToken format' }, { status: 400 });
+        }
+
+        if (!isValidPeerId(from)) {
+            return NextResponse.json({ error: 'Valid from peer ID is required' }, { status: 400 });
+        }
+
+        if (channel !== null && !isValidChannelId(channel)) {
+            return NextResponse.json({ error: 'Invalid channel' }, { status: 400 });
+        }
+
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+
+        if (!isFirebaseReady()) {
+            return firebaseNotReadyResponse();
+        }
+
+        // As with /api/notify, only users who paired with the recipient's owner may leave it messages
+        const target = await getTokenRepository().get(targetToken);
+        if (!target || !target.userId || target.invalidated) {
+            return NextResponse.json({ error: 'Target token is not registered' }, { status: 404 });
+        }
+        if (!(await arePaired(auth.claims.userId, target.userId))) {
+            return credentialForbiddenResponse('Not paired with the target device');
+        }
+
+        const messageId = await createVoiceMessage({
+            from,
+            channel,
+            targetToken,
+            contentType: audio.type || 'application/octet-stream',
+            duration,
+            audio: Buffer.from(await audio.arrayBuffer()),
+        });
+
+        // The clip is stored either way; a failed push just means it is picked up on next open
+        const messaging = getMessaging();
+        if (messaging) {
+            try {
+                await messaging.send({
+                    notification: {
+                        title: 'Walkie-Lazy',
+                        body: `🎙️ Voice message from ${from}`,
+                    },
+                    data: {
+                        type: 'voice_message',
+                        messageId,
+                        from,
+                    },
+                    token: targetToken,
+                });
+            } catch (error) {
+                console.error('Failed to push voice message notification:', error);
+            }
+        }
+
+        return NextResponse.json({ success: true, messageId });
+
+    } catch (error) {
+        console.error('Error storing voice message:', error);
+        return NextResponse.json({
+            error: 'Failed to store voice message',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
+
+// List pending voice messages for the calling device's token
+export async function GET(request: Request) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'voice_message');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const token = new URL(request.url).searchParams.get('token');
+
+        if (!token || token.length < 50) {
+            return NextResponse.json({ error: 'Valid token query parameter is required' }, { status: 400 });
+        }
+
+        // Listing reveals who left messages, so only the recipient device may do it
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+        if (!credentialMatchesToken(auth.claims, token)) {
+            return credentialForbiddenResponse('Credential does not belong to this token');
+        }
+
+        if (!isFirebaseReady()) {
+            return firebaseNotReadyResponse();
+        }
+
+        const messages = await listPendingVoiceMessages(token);
+        // Don't echo the recipient token back
+        return NextResponse.json({
+            messages: messages.map(message => ({
+                id: message.id,
+                from: message.from,
+                channel: message.channel,
+                contentType: message.contentType,
+                size: message.size,
+                duration: message.duration,
+                createdAt: message.createdAt,
+            }))
+        });
+
+    } catch (error) {
+        console.error('Error listing voice messages:', error);
+        return NextResponse.json({
+            error: 'Failed to list voice messages',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
@@ -1,19 +1,53 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getMessaging, isFirebaseReady } from '@/lib/firebaseInit';
+import { getTokenRepository } from '@/lib/tokenRepository';
+import { authenticateDevice, credentialForbiddenResponse, credentialMatchesToken } from '@/lib/deviceCredentials';
+import { arePaired } from '@/lib/pairings';
+import { rateLimit, rateLimitExceededResponse } from '@/lib/rateLimiter';
+import {
+    deliverToToken,
+    fcmFailureResponse,
+    invalidNotificationMessageResponse,
+    isValidNotificationMessage,
+    tokenGoneResponse,
+} from '@/lib/fcmDelivery';
 
 export async function POST(request: Request) {
     try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'notify');
+        if (!rateLimitResult.allowed) {
+            return rateLimitExceededResponse('notify', rateLimitResult);
+        }
+
         const body = await request.json();
-        const { targetToken, message } = body;
+        const { sourceToken, targetToken, message } = body;
 
-        if (!targetToken) {
-            return NextResponse.json({ error: 'targetToken is required' }, { status: 400 });
+        if (!sourceToken || !targetToken) {
+            return NextResponse.json({ error: 'sourceToken and targetToken are required' }, { status: 400 });
         }
 
         if (targetToken.length < 50) {
             return NextResponse.json({ error: 'Invalid targetToken format' }, { status: 400 });
         }
 
+        if (!isValidNotificationMessage(message)) {
+            return invalidNotificationMessageResponse();
+        }
+
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+        if (!credentialMatchesToken(auth.claims, sourceToken)) {
+            return credentialForbiddenResponse('Credential does not belong to sourceToken');
+        }
+
+        // Per-sender limit, so many IPs can't multiply one sender's budget
+        const senderLimit = await rateLimit(request as NextRequest, 'notify_sender', auth.claims.userId);
+        if (!senderLimit.allowed) {
+            return rateLimitExceededResponse('notify_sender', senderLimit);
+        }
+
         // Initialize Firebase
         if (!isFirebaseReady()) {
             return NextResponse.json({
@@ -30,6 +64,33 @@ export async function POST(request: Request) {
             }, { status: 500 });
         }
 
+        const tokens = getTokenRepository();
+        const [sender, target] = await Promise.all([tokens.get(sourceToken), tokens.get(targetToken)]);
+
+        // A credential outlives its token's revocation, so the sender's token must still be live
+        if (!sender || sender.invalidated) {
+            return credentialForbiddenResponse('Sender token has been revoked');
+        }
+
+        // Only users who paired with the target's owner may push to it
+        const targetUserId = target?.userId;
+        if (!target || !targetUserId) {
+            return NextResponse.json({ error: 'Target token is not registered' }, { status: 404 });
+        }
+        if (target.invalidated) {
+            return tokenGoneResponse(target.invalidationReason);
+        }
+        if (!(await arePaired(auth.claims.userId, targetUserId))) {
+            return credentialForbiddenResponse('Not paired with the target device');
+        }
+
+        // Per-target limit, so many senders can't flood one device. Only paired senders get this far,
+        // so strangers can't spend the bucket and lock out the target's real contacts.
+        const targetLimit = await rateLimit(request as NextRequest, 'notify_target', targetToken);
+        if (!targetLimit.allowed) {
+            return rateLimitExceededResponse('notify_target', targetLimit);
+        }
+
         const payload = {
             notification: {
                 title: 'Walkie-Lazy',
@@ -39,7 +100,10 @@ export async function POST(request: Request) {
         };
 
         console.log(`Sending notification to token: ${targetToken.substring(0, 10)}...`);
-        await messaging.send(payload);
+        const delivery = await deliverToToken(payload);
+        if (delivery.status !== 'sent') {
+            return fcmFailureResponse(delivery);
+        }
         console.log('Notification sent successfully');
         return NextResponse.json({ success: true });
 
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isFirebaseReady } from '@/lib/firebaseInit';
+import { rateLimit } from '@/lib/rateLimiter';
+import { createPairingCode } from '@/lib/pairingCodes';
+import { isValidPeerId } from '@/lib/channels';
+import { authenticateDevice, credentialForbiddenResponse, credentialMatchesToken } from '@/lib/deviceCredentials';
+
+const firebaseNotReadyResponse = () => NextResponse.json({
+    error: 'Server configuration error: Firebase Admin not initialized',
+    details: 'Check server logs for missing environment variables or initialization errors.'
+}, { status: 500 });
+
+// Issue a short, single-use pairing code for a registered FCM token
+export async function POST(request: Request) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'pairing_code');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const { token, peerId } = await request.json();
+
+        if (typeof token !== 'string' || token.length < 50) {
+            return NextResponse.json({ error: 'Invalid token format' }, { status: 400 });
+        }
+
+        if (peerId !== undefined && peerId !== null && !isValidPeerId(peerId)) {
+            return NextResponse.json({ error: 'Invalid peerId' }, { status: 400 });
+        }
+
+        // Codes hand out the token, so only its own device may issue them
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+        if (!credentialMatchesToken(auth.claims, token)) {
+            return credentialForbiddenResponse('Credential does not belong to this token');
+        }
+
+        if (!isFirebaseReady()) {
+            return firebaseNotReadyResponse();
+        }
+
+        const pairing = await createPairingCode(token, peerId ?? null);
+        if (!pairing) {
+            return NextResponse.json({ error: 'Token is not registered' }, { status: 404 });
+        }
+
+        return NextResponse.json(pairing, {
+            headers: { 'Cache-Control': 'private, no-store' }
+        });
+
+    } catch (error) {
+        console.error('Error creating pairing code:', error);
+        return NextResponse.json({
+            error: 'Failed to create pairing code',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
@@ -2,7 +2,20 @@ import { NextResponse } from 'next/server';
 import admin from 'firebase-admin';
 import { firebaseAdmin, getFirestore, getMessaging, isFirebaseReady } from '@/lib/firebaseInit';
 import { validateToken } from '@/lib/tokenValidator';
+import { getTokenRepository } from '@/lib/tokenRepository';
 import { rateLimit } from '@/lib/rateLimiter';
+import { normalizePairingCode, redeemPairingCode } from '@/lib/pairingCodes';
+import { recordPairing } from '@/lib/pairings';
+import { deliverToToken, fcmFailureResponse, invalidNotificationMessageResponse, isValidNotificationMessage } from '@/lib/fcmDelivery';
+import { isValidUserId } from '@/lib/contactSync';
+import {
+    authenticateDevice,
+    createDeviceCredential,
+    credentialForbiddenResponse,
+    credentialMatchesToken,
+    credentialsNotConfiguredResponse,
+    getDeviceCredentialConfig,
+} from '@/lib/deviceCredentials';
 
 // Token registration endpoint
 export async function POST(request: Request) {
@@ -28,58 +41,62 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: 'userId is required' }, { status: 400 });
         }
 
+        if (!isValidUserId(userId)) {
+            return NextResponse.json({ error: 'Invalid userId format' }, { status: 400 });
+        }
+
         // Validate token format
         if (token.length < 50) {
             return NextResponse.json({ error: 'Invalid token format' }, { status: 400 });
         }
 
-        // Initialize Firebase
-        if (!isFirebaseReady) {
-            return NextResponse.json({
-                error: 'Server configuration error: Firebase Admin not initialized',
-                details: 'Check server logs for missing environment variables or initialization errors.'
-            }, { status: 500 });
+        const credentialConfig = getDeviceCredentialConfig();
+        if (!credentialConfig) {
+            return credentialsNotConfiguredResponse();
         }
 
-        const firestore = getFirestore();
-        if (!firestore) {
-            return NextResponse.json({
-                error: 'Server configuration error: Firestore not available',
-                details: 'Check server logs for Firebase initialization errors.'
-            }, { status: 500 });
+        const tokens = getTokenRepository();
+        const existingToken = await tokens.get(token);
+
+        // Credentials outlive revocation, so re-registering must not bring a revoked or FCM-rejected token back
+        if (existingToken?.invalidated) {
+            return credentialForbiddenResponse('Token has been revoked; register a new token');
         }
 
-        // Store token in Firebase
-        const tokenRef = firestore.collection('tokens').doc(token);
-        const existingToken = await tokenRef.get();
-
-        if (existingToken.exists) {
-            // Update existing token with new metadata
-            await tokenRef.update({
-                userId,
-                metadata: {
-                    ...existingToken.data()?.metadata,
-                    ...metadata,
-                    lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
-                },
-                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-            });
-        } else {
-            // Create new token entry
-            await tokenRef.set({
-                token,
-                userId,
-                metadata: metadata || {},
-                createdAt: admin.firestore.FieldValue.serverTimestamp(),
-                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-            });
+        // A first registration is open. Taking over a registered token or a userId that already owns a
+        // token needs a credential from that device or user, e.g. re-registering after an FCM token refresh.
+        const existingOwner = existingToken?.userId ?? null;
+        const userIdClaimed = userId !== existingOwner && await tokens.hasTokenForUser(userId);
+
+        if (existingToken || userIdClaimed) {
+            const auth = authenticateDevice(request);
+            if ('response' in auth) {
+                return auth.response;
+            }
+            const { claims } = auth;
+            const ownsToken = credentialMatchesToken(claims, token) || (!!existingOwner && claims.userId === existingOwner);
+            if (existingToken && !ownsToken) {
+                return credentialForbiddenResponse('Token is registered to another device');
+            }
+            if (userIdClaimed && claims.userId !== userId) {
+                return credentialForbiddenResponse('userId is registered to another device');
+            }
         }
 
+        // Starts a new token lifetime, which is how clients renew before expiry; re-registrations got here authenticated
+        await tokens.save(token, userId, metadata || {});
+
+        const { credential, expiresAt } = createDeviceCredential(credentialConfig.secret, token, userId, credentialConfig.ttl);
+
         console.log(`Token registered for user: ${userId}`);
         return NextResponse.json({
             success: true,
             message: 'Token registered successfully',
-            tokenId: token
+            tokenId: token,
+            credential,
+            credentialExpiresAt: new Date(expiresAt).toISOString()
+        }, {
+            headers: { 'Cache-Control': 'private, no-store' }
         });
 
     } catch (error: any) {
@@ -104,19 +121,39 @@ export async function PUT(request: Request) {
         }
 
         const body = await request.json();
-        const { sourceToken, targetToken, message } = body;
+        const { sourceToken, pairingCode, message } = body;
+        let { targetToken } = body;
+        let targetPeerId: string | null = null;
 
-        // Validate required fields
-        if (!sourceToken || !targetToken) {
-            return NextResponse.json({ error: 'sourceToken and targetToken are required' }, { status: 400 });
+        // Validate required fields; the target comes from a pairing code or, for older clients, a raw token
+        if (!sourceToken || (!targetToken && !pairingCode)) {
+            return NextResponse.json({ error: 'sourceToken and pairingCode (or targetToken) are required' }, { status: 400 });
         }
 
-        if (sourceToken === targetToken) {
+        const normalizedCode = pairingCode ? normalizePairingCode(pairingCode) : null;
+        if (pairingCode && !normalizedCode) {
+            return NextResponse.json({ error: 'Invalid pairing code format' }, { status: 400 });
+        }
+
+        if (!isValidNotificationMessage(message)) {
+            return invalidNotificationMessageResponse();
+        }
+
+        if (!normalizedCode && sourceToken === targetToken) {
             return NextResponse.json({ error: 'Cannot exchange token with itself' }, { status: 400 });
         }
 
-        // Initialize Firebase
-        if (!isFirebaseReady) {
+        // Only the device holding sourceToken may pair with it
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+        if (!credentialMatchesToken(auth.claims, sourceToken)) {
+            return credentialForbiddenResponse('Credential does not belong to sourceToken');
+        }
+
+        // Pairing codes, exchange logs and pairings still live in Firestore
+        if (!isFirebaseReady()) {
             return NextResponse.json({
                 error: 'Server configuration error: Firebase Admin not initialized',
                 details: 'Check server logs for missing environment variables or initialization errors.'
@@ -131,32 +168,50 @@ export async function PUT(request: Request) {
             }, { status: 500 });
         }
 
-        // Validate both tokens
-        const [sourceValid, targetValid] = await Promise.all([
-            validateToken(sourceToken),
-            validateToken(targetToken)
-        ]);
+        // A credential outlives its token's revocation, so the source token must still be live
+        const tokens = getTokenRepository();
+        const sourceRecord = await tokens.get(sourceToken);
+        if (!sourceRecord || sourceRecord.invalidated) {
+            return credentialForbiddenResponse('Sender token has been revoked');
+        }
 
+        // Check the source before consuming a pairing code, so a bad request doesn't burn it
+        const sourceValid = await validateToken(sourceToken);
         if (!sourceValid) {
             return NextResponse.json({ error: 'Source token is invalid or expired' }, { status: 400 });
         }
 
+        if (normalizedCode) {
+            const redemption = await redeemPairingCode(normalizedCode);
+            if ('error' in redemption) {
+                if (redemption.error === 'not_found') {
+                    return NextResponse.json({ error: 'Pairing code not found' }, { status: 404 });
+                }
+                const reason = redemption.error === 'used' ? 'already been used' : 'expired';
+                return NextResponse.json({ error: `Pairing code has ${reason}` }, { status: 410 });
+            }
+            targetToken = redemption.token;
+            targetPeerId = redemption.peerId;
+
+            if (sourceToken === targetToken) {
+                return NextResponse.json({ error: 'Cannot exchange token with itself' }, { status: 400 });
+            }
+        }
+
+        const targetValid = await validateToken(targetToken);
         if (!targetValid) {
             return NextResponse.json({ error: 'Target token is invalid or expired' }, { status: 400 });
         }
 
         // Get token details
-        const [sourceTokenDoc, targetTokenDoc] = await Promise.all([
-            firestore.collection('tokens').doc(sourceToken).get(),
-            firestore.collection('tokens').doc(targetToken).get()
-        ]);
+        const targetRecord = await tokens.get(targetToken);
 
-        if (!sourceTokenDoc.exists || !targetTokenDoc.exists) {
-            return NextResponse.json({ error: 'One or both tokens not found' }, { status: 404 });
+        if (!targetRecord) {
+            return NextResponse.json({ error: 'Target token not found' }, { status: 404 });
         }
 
-        const sourceUserId = sourceTokenDoc.data()?.userId;
-        const targetUserId = targetTokenDoc.data()?.userId;
+        const sourceUserId = sourceRecord.userId;
+        const targetUserId = targetRecord.userId;
 
         // Log the token exchange
         await firestore.collection('tokenExchanges').add({
@@ -168,7 +223,14 @@ export async function PUT(request: Request) {
             timestamp: admin.firestore.FieldValue.serverTimestamp(),
         });
 
+        // A redeemed code proves the target shared it with us, which is what allows notifying each other.
+        // A raw targetToken proves nothing, so legacy exchanges don't pair.
+        if (normalizedCode && sourceUserId && targetUserId) {
+            await recordPairing(sourceUserId, targetUserId);
+        }
+
         // Send notification to target user
+        let notificationDelivered = false;
         const messaging = getMessaging();
         if (messaging) {
             const payload = {
@@ -180,13 +242,21 @@ export async function PUT(request: Request) {
             };
 
             console.log(`Sending exchange notification to token: ${targetToken.substring(0, 10)}...`);
-            await messaging.send(payload);
-            console.log('Exchange notification sent successfully');
+            const delivery = await deliverToToken(payload);
+            if (delivery.status === 'token-rejected') {
+                return fcmFailureResponse(delivery);
+            }
+            // The pairing stands even if FCM is down; the notification is only a courtesy
+            notificationDelivered = delivery.status === 'sent';
+            console.log(notificationDelivered ? 'Exchange notification sent successfully' : 'Exchange notification not delivered');
         }
 
         return NextResponse.json({
             success: true,
-            message: 'Token exchange successful'
+            message: 'Token exchange successful',
+            targetToken,
+            targetPeerId,
+            notificationDelivered
         });
 
     } catch (error: any) {
@@ -217,34 +287,25 @@ export async function DELETE(request: Request) {
             return NextResponse.json({ error: 'token is required' }, { status: 400 });
         }
 
-        // Initialize Firebase
-        if (!isFirebaseReady) {
-            return NextResponse.json({
-                error: 'Server configuration error: Firebase Admin not initialized',
-                details: 'Check server logs for missing environment variables or initialization errors.'
-            }, { status: 500 });
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
         }
 
-        const firestore = getFirestore();
-        if (!firestore) {
-            return NextResponse.json({
-                error: 'Server configuration error: Firestore not available',
-                details: 'Check server logs for Firebase initialization errors.'
-            }, { status: 500 });
-        }
-
-        // Invalidate token in Firebase
-        const tokenRef = firestore.collection('tokens').doc(token);
-        const tokenDoc = await tokenRef.get();
+        const tokens = getTokenRepository();
+        const record = await tokens.get(token);
 
-        if (!tokenDoc.exists) {
+        if (!record) {
             return NextResponse.json({ error: 'Token not found' }, { status: 404 });
         }
 
-        await tokenRef.update({
-            invalidated: true,
-            invalidatedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
+        // Only the token's own device, or another device of the same user, may revoke it
+        const owner = record.userId;
+        if (!credentialMatchesToken(auth.claims, token) && !(owner && auth.claims.userId === owner)) {
+            return credentialForbiddenResponse('Only the token owner can revoke it');
+        }
+
+        await tokens.invalidate(token);
 
         console.log(`Token invalidated: ${token}`);
         return NextResponse.json({
@@ -1,9 +1,17 @@
-import { NextResponse } from 'next/server';
-import { getFirestore, isFirebaseReady } from '@/lib/firebaseInit';
+import { NextRequest, NextResponse } from 'next/server';
 import { validateToken } from '@/lib/tokenValidator';
+import { getTokenRepository } from '@/lib/tokenRepository';
+import { getTokenExpiry, getTokenPolicy, isTokenExpiredAt, shouldRecordActivity } from '@/lib/tokenPolicy';
+import { rateLimit, rateLimitExceededResponse } from '@/lib/rateLimiter';
+import { authenticateDevice, credentialForbiddenResponse, credentialMatchesToken } from '@/lib/deviceCredentials';
 
 export async function POST(request: Request) {
     try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'token_validation');
+        if (!rateLimitResult.allowed) {
+            return rateLimitExceededResponse('token_validation', rateLimitResult);
+        }
+
         const body = await request.json();
         const { token } = body;
 
@@ -17,20 +25,18 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: 'Invalid token format' }, { status: 400 });
         }
 
-        // Initialize Firebase
-        if (!isFirebaseReady()) {
-            return NextResponse.json({
-                error: 'Server configuration error: Firebase Admin not initialized',
-                details: 'Check server logs for missing environment variables or initialization errors.'
-            }, { status: 500 });
-        }
+        const tokens = getTokenRepository();
 
-        const firestore = getFirestore();
-        if (!firestore) {
-            return NextResponse.json({
-                error: 'Server configuration error: Firestore not available',
-                details: 'Check server logs for Firebase initialization errors.'
-            }, { status: 500 });
+        // Only the token's device, or another device of the same user, may inspect it
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+        if (!credentialMatchesToken(auth.claims, token)) {
+            const owner = await tokens.get(token);
+            if (!owner || owner.userId !== auth.claims.userId) {
+                return credentialForbiddenResponse('Credential does not belong to this token');
+            }
         }
 
         // Validate token
@@ -45,10 +51,9 @@ export async function POST(request: Request) {
         }
 
         // Get token details
-        const tokenRef = firestore.collection('tokens').doc(token);
-        const tokenDoc = await tokenRef.get();
+        const record = await tokens.get(token);
 
-        if (!tokenDoc.exists) {
+        if (!record) {
             return NextResponse.json({
                 valid: false,
                 message: 'Token not found',
@@ -56,27 +61,25 @@ export async function POST(request: Request) {
             }, { status: 200 });
         }
 
-        const tokenData = tokenDoc.data();
-        const userId = tokenData?.userId;
-        const metadata = tokenData?.metadata || {};
-        const createdAt = tokenData?.createdAt?.toDate().toISOString();
-        const updatedAt = tokenData?.updatedAt?.toDate().toISOString();
+        const userId = record.userId;
+        const metadata = record.metadata;
+        const createdAt = record.createdAt?.toISOString();
+        const updatedAt = record.updatedAt?.toISOString();
 
         // Check if token is invalidated
-        if (tokenData?.invalidated) {
+        if (record.invalidated) {
             return NextResponse.json({
                 valid: false,
                 message: 'Token has been invalidated',
-                invalidatedAt: tokenData?.invalidatedAt?.toDate().toISOString(),
+                invalidatedAt: record.invalidatedAt?.toISOString(),
                 timestamp: new Date().toISOString()
             }, { status: 200 });
         }
 
-        // Check token expiration (24 hours for demo)
-        const tokenAge = Date.now() - new Date(createdAt).getTime();
-        const expirationTime = 24 * 60 * 60 * 1000; // 24 hours
-
-        if (tokenAge > expirationTime) {
+        // Check token expiration
+        const policy = getTokenPolicy();
+        const now = Date.now();
+        if (isTokenExpiredAt(policy, record, now)) {
             return NextResponse.json({
                 valid: false,
                 message: 'Token has expired',
@@ -84,13 +87,22 @@ export async function POST(request: Request) {
             }, { status: 200 });
         }
 
+        // With sliding renewal, checking in is activity that pushes the idle deadline forward
+        let lastActiveAt = record.lastActiveAt;
+        if (shouldRecordActivity(policy, lastActiveAt, now)) {
+            await tokens.touch(token);
+            lastActiveAt = new Date(now);
+        }
+        const expiresAt = getTokenExpiry(policy, { createdAt: record.createdAt, lastActiveAt });
+
         return NextResponse.json({
             valid: true,
             userId: userId,
             metadata: metadata,
             createdAt: createdAt,
             updatedAt: updatedAt,
-            expiresIn: Math.max(0, expirationTime - tokenAge),
+            expiresAt: new Date(expiresAt).toISOString(),
+            expiresIn: Math.max(0, expiresAt - now),
             timestamp: new Date().toISOString()
         }, { status: 200 });
 
@@ -116,6 +128,7 @@ export async function GET(request: Request) {
         // Using a internal function would be better but let's keep it simple.
         const body = { token };
         const mockRequest = {
+            headers: request.headers,
             json: async () => body
         } as unknown as Request;
 
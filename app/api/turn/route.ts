@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimit } from '@/lib/rateLimiter';
+import { authenticateDevice } from '@/lib/deviceCredentials';
+import { getIceServersConfig } from '@/lib/turnCredentials';
+
+// Issue ICE servers, including time-limited TURN credentials when TURN is configured.
+// Only registered devices get relay credentials, named after the credential's user.
+export async function GET(request: Request) {
+    try {
+        const rateLimitResult = await rateLimit(request as NextRequest, 'turn_credentials');
+        if (!rateLimitResult.allowed) {
+            return NextResponse.json({
+                error: 'Rate limit exceeded',
+                retryAfter: rateLimitResult.retryAfter
+            }, { status: 429 });
+        }
+
+        const auth = authenticateDevice(request);
+        if ('response' in auth) {
+            return auth.response;
+        }
+
+        const config = getIceServersConfig(auth.claims.userId);
+        return NextResponse.json(config, {
+            headers: { 'Cache-Control': 'private, no-store' }
+        });
+
+    } catch (error) {
+        console.error('Error issuing ICE servers:', error);
+        return NextResponse.json({
+            error: 'Failed to issue ICE servers',
+            details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+    }
+}
@@ -2,7 +2,7 @@
 // Provides real-time connection status, token validity, and connection quality metrics
 "use client";
 
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useConnectionManager } from '../hooks/useConnectionManager';
 import {
   Signal,
@@ -32,15 +32,7 @@ interface ConnectionStatusProps {
 }
 
 const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className = '' }) => {
-  const { status, token, isTokenValid, isLoadingToken, tokenError, isConnected, isConnecting, isDisconnected, hasError, disconnect } = useConnectionManager('myPeerId', 'remotePeerId');
-
-  // State for connection quality metrics
-  const [connectionQuality, setConnectionQuality] = useState({
-    signalStrength: 95,
-    latency: 50,
-    packetLoss: 0,
-    bandwidth: 1000,
-  });
+  const { status, token, isTokenValid, isLoadingToken, tokenError, isConnected, isConnecting, isDisconnected, hasError, disconnect, metrics } = useConnectionManager('myPeerId', 'remotePeerId');
 
   // State for connection history
   const [connectionHistory, setConnectionHistory] = useState<Array<{
@@ -52,33 +44,6 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className = '' }) =
   // State for token expiration timer
   const [tokenExpiration, setTokenExpiration] = useState<Date | null>(null);
 
-  // Refs for simulated metrics
-  const signalStrengthRef = useRef(95);
-  const latencyRef = useRef(50);
-  const packetLossRef = useRef(0);
-  const bandwidthRef = useRef(1000);
-
-  // Generate random connection quality metrics (simulated)
-  const generateConnectionMetrics = () => {
-    // Simulate real-time connection quality changes
-    const newSignalStrength = Math.max(0, Math.min(100, signalStrengthRef.current + (Math.random() - 0.5) * 10));
-    const newLatency = Math.max(10, Math.min(500, latencyRef.current + (Math.random() - 0.5) * 20));
-    const newPacketLoss = Math.max(0, Math.min(10, packetLossRef.current + (Math.random() - 0.5) * 0.5));
-    const newBandwidth = Math.max(500, Math.min(5000, bandwidthRef.current + (Math.random() - 0.5) * 100));
-
-    signalStrengthRef.current = newSignalStrength;
-    latencyRef.current = newLatency;
-    packetLossRef.current = newPacketLoss;
-    bandwidthRef.current = newBandwidth;
-
-    setConnectionQuality({
-      signalStrength: Math.round(newSignalStrength),
-      latency: Math.round(newLatency),
-      packetLoss: Math.round(newPacketLoss * 100) / 100,
-      bandwidth: Math.round(newBandwidth),
-    });
-  };
-
   // Generate connection history entries
   const generateConnectionHistory = () => {
     const events = [
@@ -113,15 +78,6 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className = '' }) =
     setTokenExpiration(addSeconds(new Date(), 3600));
   };
 
-  // Real-time updates
-  useEffect(() => {
-    const metricsInterval = setInterval(generateConnectionMetrics, 2000);
-
-    return () => {
-      clearInterval(metricsInterval);
-    };
-  }, []);
-
   useEffect(() => {
     generateConnectionHistory();
     generateTokenExpiration();
@@ -203,8 +159,10 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className = '' }) =
 
   // Connection status info
   const statusInfo = getStatusInfo();
-  const SignalIcon = getSignalStrengthIcon(connectionQuality.signalStrength);
-  const signalColor = getSignalStrengthColor(connectionQuality.signalStrength);
+  // Metrics come from getStats() on the active call; null until a call is up
+  const quality = metrics?.quality ?? null;
+  const SignalIcon = quality === null ? WifiOff : getSignalStrengthIcon(quality);
+  const signalColor = quality === null ? 'text-white/40' : getSignalStrengthColor(quality);
 
   return (
     <div className={`relative bg-[#0a0a0b] rounded-2xl border border-white/5 p-6 ${className}`}>
@@ -321,16 +279,17 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className = '' }) =
             <div className="flex items-center gap-1">
               <div className="w-24 bg-[#333] rounded-full h-2">
                 <div
-                  className={`h-full rounded-full transition-all duration-300 ${connectionQuality.signalStrength >= 80 ? 'bg-green-500' :
-                    connectionQuality.signalStrength >= 60 ? 'bg-yellow-500' :
-                      connectionQuality.signalStrength >= 40 ? 'bg-orange-500' :
-                        'bg-red-500'
+                  className={`h-full rounded-full transition-all duration-300 ${quality === null ? 'bg-[#333]' :
+                    quality >= 80 ? 'bg-green-500' :
+                      quality >= 60 ? 'bg-yellow-500' :
+                        quality >= 40 ? 'bg-orange-500' :
+                          'bg-red-500'
                     }`}
-                  style={{ width: `${connectionQuality.signalStrength}%` }}
+                  style={{ width: `${quality ?? 0}%` }}
                 />
               </div>
               <span className={`text-xs font-black ${signalColor}`}>
-                {connectionQuality.signalStrength}%
+                {quality === null ? '--' : `${quality}%`}
               </span>
             </div>
           </div>
@@ -341,11 +300,27 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className = '' }) =
               <TrendingUp size={16} className="text-white/60" />
               <span className="text-white/60 font-black">LATENCY</span>
             </div>
-            <span className={`font-black text-sm ${connectionQuality.latency < 100 ? 'text-green-500' :
-              connectionQuality.latency < 200 ? 'text-yellow-500' :
-                'text-red-500'
+            <span className={`font-black text-sm ${metrics?.rtt == null ? 'text-white/40' :
+              metrics.rtt < 100 ? 'text-green-500' :
+                metrics.rtt < 200 ? 'text-yellow-500' :
+                  'text-red-500'
+              }`}>
+              {metrics?.rtt == null ? '--' : `${metrics.rtt}ms`}
+            </span>
+          </div>
+
+          {/* Jitter */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Clock size={16} className="text-white/60" />
+              <span className="text-white/60 font-black">JITTER</span>
+            </div>
+            <span className={`font-black text-sm ${metrics?.jitter == null ? 'text-white/40' :
+              metrics.jitter < 30 ? 'text-green-500' :
+                metrics.jitter < 50 ? 'text-yellow-500' :
+                  'text-red-500'
               }`}>
-              {connectionQuality.latency}ms
+              {metrics?.jitter == null ? '--' : `${metrics.jitter}ms`}
             </span>
           </div>
 
@@ -355,11 +330,12 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className = '' }) =
               <Activity size={16} className="text-white/60" />
               <span className="text-white/60 font-black">PACKET_LOSS</span>
             </div>
-            <span className={`font-black text-sm ${connectionQuality.packetLoss < 1 ? 'text-green-500' :
-              connectionQuality.packetLoss < 3 ? 'text-yellow-500' :
-                'text-red-500'
+            <span className={`font-black text-sm ${metrics?.packetLoss == null ? 'text-white/40' :
+              metrics.packetLoss < 1 ? 'text-green-500' :
+                metrics.packetLoss < 3 ? 'text-yellow-500' :
+                  'text-red-500'
               }`}>
-              {connectionQuality.packetLoss}%
+              {metrics?.packetLoss == null ? '--' : `${metrics.packetLoss}%`}
             </span>
           </div>
 
@@ -367,10 +343,10 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className = '' }) =
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <Zap size={16} className="text-white/60" />
-              <span className="text-white/60 font-black">BANDWIDTH</span>
+              <span className="text-white/60 font-black">BITRATE</span>
             </div>
-            <span className={`font-black text-sm text-green-500`}>
-              {connectionQuality.bandwidth} kbps
+            <span className={`font-black text-sm ${metrics?.bitrate == null ? 'text-white/40' : 'text-green-500'}`}>
+              {metrics?.bitrate == null ? '--' : `${metrics.bitrate} kbps`}
             </span>
           </div>
         </div>
@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { X } from 'lucide-react';
+import { extractE2eeSecret, extractPairingCode } from '@/lib/qrScan';
+
+interface QrScannerProps {
+    onScan: (code: string, e2eeSecret: string | null) => void;
+    onClose: () => void;
+}
+
+// Decoding every frame is wasteful on phones; a few times a second is plenty
+const SCAN_INTERVAL = 150;
+
+const QrScanner: React.FC<QrScannerProps> = ({ onScan, onClose }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const onScanRef = useRef(onScan);
+    const [error, setError] = useState<string | null>(null);
+    const [ignoredPayload, setIgnoredPayload] = useState(false);
+
+    useEffect(() => {
+        onScanRef.current = onScan;
+    }, [onScan]);
+
+    useEffect(() => {
+        let stream: MediaStream | null = null;
+        let frameId: number | null = null;
+        let lastScanAt = 0;
+        let stopped = false;
+
+        const step = (now: number) => {
+            if (stopped) return;
+            frameId = requestAnimationFrame(step);
+
+            const video = videoRef.current;
+            const canvas = canvasRef.current;
+            if (!video || !canvas || video.readyState < video.HAVE_ENOUGH_DATA || now - lastScanAt < SCAN_INTERVAL) return;
+            lastScanAt = now;
+
+            const context = canvas.getContext('2d', { willReadFrequently: true });
+            if (!context) return;
+            canvas.width = video.videoWidth;
+            canvas.height = video.videoHeight;
+            context.drawImage(video, 0, 0, canvas.width, canvas.height);
+            const image = context.getImageData(0, 0, canvas.width, canvas.height);
+
+            // Our own QR is drawn light-on-dark, so try the inverted image too
+            const result = jsQR(image.data, image.width, image.height, { inversionAttempts: 'attemptBoth' });
+            if (!result) return;
+
+            const code = extractPairingCode(result.data);
+            if (code) {
+                stopped = true;
+                onScanRef.current(code, extractE2eeSecret(result.data));
+            } else {
+                setIgnoredPayload(true);
+            }
+        };
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+            .then(async (mediaStream) => {
+                if (stopped) {
+                    mediaStream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = mediaStream;
+                const video = videoRef.current;
+                if (!video) return;
+                video.srcObject = mediaStream;
+                await video.play();
+                frameId = requestAnimationFrame(step);
+            })
+            .catch((err) => {
+                console.error('Camera unavailable for QR scanning:', err);
+                setError(err instanceof DOMException && err.name === 'NotAllowedError'
+                    ? 'CAMERA PERMISSION DENIED'
+                    : 'CAMERA UNAVAILABLE');
+            });
+
+        return () => {
+            stopped = true;
+            if (frameId !== null) cancelAnimationFrame(frameId);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    return (
+        <div className="fixed inset-0 z-[70] bg-black flex flex-col"
+            style={{ paddingTop: 'env(safe-area-inset-top, 20px)', paddingBottom: 'env(safe-area-inset-bottom, 20px)' }}
+        >
+            <div className="flex justify-between items-center px-5 py-4">
+                <h3 className="text-white text-lg font-black uppercase tracking-wider">SCAN PAIRING QR</h3>
+                <button
+                    onClick={onClose}
+                    className="w-9 h-9 flex items-center justify-center rounded-full bg-white/10 active:bg-white/20 transition-colors"
+                >
+                    <X size={18} className="text-white" />
+                </button>
+            </div>
+
+            <div className="relative flex-1 flex items-center justify-center overflow-hidden">
+                {error ? (
+                    <p className="text-red-400 text-xs font-black uppercase px-6 text-center">{error}</p>
+                ) : (
+                    <>
+                        <video ref={videoRef} playsInline muted className="absolute inset-0 w-full h-full object-cover" />
+                        <div className="relative w-64 h-64 rounded-2xl border-4 border-[#ff8c00] shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]" />
+                    </>
+                )}
+                <canvas ref={canvasRef} className="hidden" />
+            </div>
+
+            <p className={`text-center text-[10px] font-mono px-6 py-4 ${ignoredPayload ? 'text-[#ff8c00]' : 'text-white/60'}`}>
+                {ignoredPayload ? 'THAT QR IS NOT A WALKIE PAIRING CODE' : 'POINT AT THE QR CODE ON THE OTHER DEVICE'}
+            </p>
+        </div>
+    );
+};
+
+export default QrScanner;
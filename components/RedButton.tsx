@@ -1,5 +1,5 @@
 import React, { useRef, useEffect } from 'react';
-import { Mic, MicOff, Wifi, WifiOff, AlertTriangle, RefreshCw, PowerOff } from 'lucide-react';
+import { Mic, MicOff, Wifi, WifiOff, AlertTriangle, RefreshCw, PowerOff, Hourglass } from 'lucide-react';
 
 interface RedButtonProps {
     isTalking: boolean;
@@ -11,8 +11,12 @@ interface RedButtonProps {
     onSync: () => void;
     onDisconnect: () => void;
     isIncomingCall?: boolean;
+    isChannelBusy?: boolean;
+    isQueued?: boolean;
+    isRecordingMessage?: boolean;
+    floorHolder?: string | null;
     fcmToken?: string | null;
-    targetId?: string;
+    channelId?: string;
     targetFcmToken?: string;
 }
 
@@ -26,8 +30,12 @@ const RedButton: React.FC<RedButtonProps> = ({
     onSync,
     onDisconnect,
     isIncomingCall = false,
+    isChannelBusy = false,
+    isQueued = false,
+    isRecordingMessage = false,
+    floorHolder,
     fcmToken,
-    targetId,
+    channelId,
     targetFcmToken,
 }) => {
     const handleMouseDown = () => {
@@ -64,6 +72,9 @@ const RedButton: React.FC<RedButtonProps> = ({
                     {isIncomingCall && (
                         <div className="absolute inset-0 rounded-full animate-pulse bg-green-500/30" />
                     )}
+                    {isChannelBusy && !isIncomingCall && (
+                        <div className="absolute inset-0 rounded-full animate-pulse bg-orange-500/20" />
+                    )}
 
                     <button
                         onMouseDown={handleMouseDown}
@@ -75,10 +86,13 @@ const RedButton: React.FC<RedButtonProps> = ({
                             ${!isConnected ? 'opacity-50 cursor-not-allowed grayscale' : 'cursor-pointer active:scale-95'}
                             ${isTalking ? 'brightness-125 scale-95 shadow-inner' : ''}
                             ${isIncomingCall ? 'ring-4 ring-green-500/50 animate-bounce' : ''}
+                            ${isChannelBusy && !isIncomingCall ? 'ring-4 ring-orange-500/50' : ''}
                         `}
                         disabled={!isConnected}
                     >
-                        {isTalking ? (
+                        {isQueued ? (
+                            <Hourglass size={32} className="text-white animate-pulse" />
+                        ) : isTalking ? (
                             <Mic size={32} className="text-white animate-pulse" />
                         ) : isIncomingCall ? (
                             <Wifi size={32} className="text-white" />
@@ -88,8 +102,13 @@ const RedButton: React.FC<RedButtonProps> = ({
 
                         {/* Status Label on Button */}
                         <div className="absolute -bottom-10 left-1/2 -translate-x-1/2 whitespace-nowrap">
-                            <span className={`tactical-label text-[10px] ${isTalking ? 'text-red-500' : isIncomingCall ? 'text-green-500' : 'text-white/40'}`}>
-                                {isTalking ? 'TRANSMITTING' : isIncomingCall ? 'INCOMING' : 'PUSH TO TALK'}
+                            <span className={`tactical-label text-[10px] ${isQueued ? 'text-orange-500' : isTalking ? 'text-red-500' : isIncomingCall ? 'text-green-500' : isChannelBusy ? 'text-orange-500' : 'text-white/40'}`}>
+                                {isQueued ? 'QUEUED — CHANNEL BUSY'
+                                    : isRecordingMessage ? 'RECORDING MESSAGE'
+                                    : isTalking ? 'TRANSMITTING'
+                                        : isIncomingCall ? 'INCOMING'
+                                            : isChannelBusy ? `CHANNEL BUSY${floorHolder ? ` (${floorHolder})` : ''}`
+                                                : channelId ? `PUSH TO TALK — ${channelId}` : 'NO CHANNEL'}
                             </span>
                         </div>
                     </button>
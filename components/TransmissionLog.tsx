@@ -0,0 +1,79 @@
+import React from 'react';
+import { Play, Square, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import type { TransmissionRecord } from '@/lib/transmissionHistory';
+
+interface TransmissionLogProps {
+    history: TransmissionRecord[];
+    replayingId: string | null;
+    onReplay: (id: string) => void;
+    onStop: () => void;
+    onDelete: (id: string) => void;
+    onClear: () => void;
+}
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const TransmissionLog: React.FC<TransmissionLogProps> = ({
+    history,
+    replayingId,
+    onReplay,
+    onStop,
+    onDelete,
+    onClear,
+}) => {
+    return (
+        <div className="bg-[#0a0a0b] p-4 rounded-lg border border-white/5">
+            <div className="flex items-center justify-between mb-3">
+                <h4 className="text-[#ff8c00] font-black">RX LOG</h4>
+                {history.length > 0 && (
+                    <button
+                        onClick={onClear}
+                        className="text-[9px] font-black uppercase text-white/40 hover:text-red-400 transition-colors"
+                    >
+                        CLEAR ALL
+                    </button>
+                )}
+            </div>
+
+            {history.length === 0 ? (
+                <p className="text-[10px] text-white/30 font-mono text-center py-2">NO TRANSMISSIONS RECEIVED</p>
+            ) : (
+                <div className="space-y-2 max-h-48 overflow-y-auto overscroll-contain">
+                    {history.map(entry => {
+                        const isPlaying = replayingId === entry.id;
+                        return (
+                            <div key={entry.id} className={`flex items-center gap-3 p-2 rounded-lg border transition-colors ${isPlaying ? 'border-green-500/30 bg-green-500/5' : 'border-white/5 bg-[#111]'}`}>
+                                <button
+                                    onClick={() => isPlaying ? onStop() : onReplay(entry.id)}
+                                    className={`w-8 h-8 shrink-0 rounded flex items-center justify-center transition-all active:scale-95 ${isPlaying ? 'bg-green-500 text-black' : 'bg-[#ff8c00] text-black'}`}
+                                    title={isPlaying ? 'Stop' : 'Replay'}
+                                >
+                                    {isPlaying ? <Square size={12} /> : <Play size={12} />}
+                                </button>
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-[10px] text-white/80 font-mono truncate uppercase">{entry.sender}</p>
+                                    <p className="text-[8px] text-white/40 font-mono">
+                                        {format(entry.timestamp, 'MMM d HH:mm:ss')} · {formatDuration(entry.duration)} · {entry.channel}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => onDelete(entry.id)}
+                                    className="text-white/20 hover:text-red-400 transition-colors"
+                                    title="Delete"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TransmissionLog;
@@ -2,43 +2,74 @@
 "use client";
 import React, { useState, useEffect } from 'react';
 import { useWalkieTalkie } from '@/hooks/useWalkieTalkie';
-import { requestForToken, saveTokenToStorage, getTokenFromStorage, validateToken, updateToken } from '@/lib/firebase';
-import { Signal, BatteryFull, Radio, Zap, Volume2, QrCode as QrCodeIcon, Link2, Check, X, RefreshCw, Wifi, AlertCircle, Loader2, TrendingUp, TrendingDown } from 'lucide-react';
+import { useContacts } from '@/hooks/useContacts';
+import { requestForToken, saveTokenToStorage, getTokenFromStorage, validateToken, updateToken, registerToken } from '@/lib/firebase';
+import { getDeviceCredential } from '@/lib/deviceCredentialClient';
+import { Signal, BatteryFull, Radio, Zap, Volume2, QrCode as QrCodeIcon, Link2, Check, X, RefreshCw, Wifi, AlertCircle, Loader2, TrendingUp, TrendingDown, Pencil, Trash2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 import { QRCodeSVG as QrCode } from 'qrcode.react';
 import RedButton from './RedButton';
+import TransmissionLog from './TransmissionLog';
+import QrScanner from './QrScanner';
+import { DEFAULT_VOX_SETTINGS, VoxSettings } from '@/lib/vox';
+import { PairingCode, exchangeWithPairingCode, requestPairingCode } from '@/lib/pairingClient';
+import { E2EE_SECRET_PARAM, getOrCreateE2eeSecret, isValidE2eeSecret } from '@/lib/e2ee';
+
+const PENDING_PAIRING_CODE_KEY = 'walkie_pending_pairing_code';
+const PENDING_PAIRING_SECRET_KEY = 'walkie_pending_pairing_secret';
 
 export default function WalkieBody() {
     const [myId, setMyId] = useState('');
-    const [targetId, setTargetId] = useState('');
+    const [channelId, setChannelId] = useState('');
     const [targetFcmToken, setTargetFcmToken] = useState('');
     const [mounted, setMounted] = useState(false);
     const [qrPattern, setQrPattern] = useState<boolean[]>([]);
     const [isTalking, setIsTalking] = useState(false);
     const [isTokenExchangeActive, setIsTokenExchangeActive] = useState(false);
-    const [remoteToken, setRemoteToken] = useState<string | null>(null);
+    const [remoteCode, setRemoteCode] = useState<string | null>(null);
+    // E2EE secret from the remote's pairing QR, when the code came from a scan
+    const [remoteSecret, setRemoteSecret] = useState<string | null>(null);
+    const [pairingCode, setPairingCode] = useState<PairingCode | null>(null);
+    const [pairingError, setPairingError] = useState<string | null>(null);
+    // Set when a ping found the remote's token gone, so the user knows to pair again
+    const [needsRepair, setNeedsRepair] = useState(false);
     const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected' | 'error'>('disconnected');
     const [exchangeStatus, setExchangeStatus] = useState<'idle' | 'scanning' | 'exchanging' | 'success' | 'failed'>('idle');
     const [tokenValidation, setTokenValidation] = useState<'valid' | 'invalid' | 'unknown'>('unknown');
     const [autoExchangeEnabled, setAutoExchangeEnabled] = useState(true);
     const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
+    const [showRxLog, setShowRxLog] = useState(false);
+    const [voxSettings, setVoxSettings] = useState<VoxSettings>(DEFAULT_VOX_SETTINGS);
+    const [e2eeEnabled, setE2eeEnabled] = useState(false);
     const [tokenError, setTokenError] = useState<string | null>(null);
     const [showBrowserRedirect, setShowBrowserRedirect] = useState(false);
-    const [pendingRemoteToken, setPendingRemoteToken] = useState<string | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+    const [pendingPairingCode, setPendingPairingCode] = useState<string | null>(null);
+
+    const { contacts, syncEnabled: contactSyncEnabled, syncError: contactSyncError, setSyncEnabled: setContactSyncEnabled,
+        savePairedContact, renameContact, removeContact, markSeen } = useContacts();
+    const e2eePeerSecrets = contacts.flatMap(contact => contact.e2eeSecret ? [{ peerId: contact.peerId, secret: contact.e2eeSecret }] : []);
 
-    const { startTalking, stopTalking, sendPing, clearSignal, audioRef, fcmToken, setFcmToken, isIncomingCall, peerConnected } = useWalkieTalkie(myId, targetId, targetFcmToken);
+    const { startTalking, stopTalking, sendPing, clearSignal, audioRef, fcmToken, setFcmToken, isIncomingCall, peerConnected, channelMembers, floorHolder, isChannelBusy, isQueued, isRecordingMessage,
+        voxLevel, isVoxTransmitting, e2eeStatus, incomingE2ee, outgoingE2ee, history, replayingId, replayTransmission, stopReplay, removeTransmission, clearHistory } = useWalkieTalkie(myId, channelId, targetFcmToken, voxSettings,
+            { enabled: e2eeEnabled, peerSecrets: e2eePeerSecrets });
+    const isTransmitting = isTalking || isVoxTransmitting;
 
     React.useEffect(() => {
         setMounted(true);
         setQrPattern([...Array(9)].map(() => Math.random() > 0.5));
 
         // Initialize token from storage
-        const storedToken = getTokenFromStorage();
-        if (storedToken) {
+        getTokenFromStorage().then(async storedToken => {
+            if (!storedToken) return;
             setFcmToken(storedToken);
-            validateToken(storedToken).then(isValid => {
-                setTokenValidation(isValid ? 'valid' : 'invalid');
-            });
-        }
+            // Tokens synced before registration was automatic never reached the server
+            if (!getDeviceCredential()) {
+                await registerToken(storedToken);
+            }
+            const isValid = await validateToken(storedToken);
+            setTokenValidation(isValid ? 'valid' : 'invalid');
+        });
     }, []);
 
     const handleSync = async () => {
@@ -48,8 +79,13 @@ export default function WalkieBody() {
             const token = await requestForToken();
             if (token) {
                 setFcmToken(token);
-                setTokenValidation('valid');
-                saveTokenToStorage(token);
+                await saveTokenToStorage(token);
+                // requestForToken has registered the token; confirm the server accepts it
+                const isValid = await validateToken(token);
+                setTokenValidation(isValid ? 'valid' : 'invalid');
+                if (!isValid) {
+                    setTokenError('TOKEN NOT ACCEPTED BY SERVER (exchange unavailable)');
+                }
                 setExchangeStatus('success');
                 setTimeout(() => setExchangeStatus('idle'), 3000);
             } else {
@@ -74,8 +110,8 @@ export default function WalkieBody() {
         }
     };
 
-    // Read remote token from URL query parameters (for QR code scanning)
-    // Also check localStorage for tokens stored by the browser redirect
+    // Read a pairing code from URL query parameters (for QR code scanning)
+    // Also check localStorage for codes stored by the browser redirect
     React.useEffect(() => {
         if (typeof window === 'undefined') return;
 
@@ -83,48 +119,79 @@ export default function WalkieBody() {
 
         // Check URL params first
         const params = new URLSearchParams(window.location.search);
-        const scannedToken = params.get('token');
+        const scannedCode = params.get('pair');
+        const hashSecret = new URLSearchParams(window.location.hash.slice(1)).get(E2EE_SECRET_PARAM);
+        const scannedSecret = isValidE2eeSecret(hashSecret) ? hashSecret : null;
 
-        if (scannedToken && scannedToken.length > 20) {
+        if (scannedCode) {
             // Clean up URL immediately
             window.history.replaceState({}, '', window.location.pathname);
 
             if (isStandalone) {
-                // We're in the PWA — apply the token directly
-                setRemoteToken(scannedToken);
-                setTargetFcmToken(scannedToken);
-                setConnectionStatus('connected');
-                setExchangeStatus('success');
-                setTimeout(() => setExchangeStatus('idle'), 3000);
+                // We're in the PWA — open the exchange sheet with the code filled in
+                setRemoteCode(scannedCode);
+                setRemoteSecret(scannedSecret);
+                setIsTokenExchangeActive(true);
             } else {
-                // We're in the browser — store token and show redirect banner
-                localStorage.setItem('walkie_pending_remote_token', scannedToken);
-                setPendingRemoteToken(scannedToken);
+                // We're in the browser — store the code and show redirect banner
+                localStorage.setItem(PENDING_PAIRING_CODE_KEY, scannedCode);
+                if (scannedSecret) localStorage.setItem(PENDING_PAIRING_SECRET_KEY, scannedSecret);
+                setPendingPairingCode(scannedCode);
                 setShowBrowserRedirect(true);
             }
         }
 
-        // If we're in the PWA, check for a pending token from a previous browser session
+        // If we're in the PWA, check for a pending code from a previous browser session
         if (isStandalone) {
-            const pending = localStorage.getItem('walkie_pending_remote_token');
-            if (pending && pending.length > 20) {
-                localStorage.removeItem('walkie_pending_remote_token');
-                setRemoteToken(pending);
-                setTargetFcmToken(pending);
-                setConnectionStatus('connected');
-                setExchangeStatus('success');
-                setTimeout(() => setExchangeStatus('idle'), 3000);
+            const pending = localStorage.getItem(PENDING_PAIRING_CODE_KEY);
+            const pendingSecret = localStorage.getItem(PENDING_PAIRING_SECRET_KEY);
+            if (pending) {
+                localStorage.removeItem(PENDING_PAIRING_CODE_KEY);
+                localStorage.removeItem(PENDING_PAIRING_SECRET_KEY);
+                setRemoteCode(pending);
+                setRemoteSecret(isValidE2eeSecret(pendingSecret) ? pendingSecret : null);
+                setIsTokenExchangeActive(true);
             }
         }
     }, []);
 
+    // Codes are single-use, so fetch a fresh one each time the exchange sheet opens
+    React.useEffect(() => {
+        if (!isTokenExchangeActive || !fcmToken) return;
+
+        let cancelled = false;
+        requestPairingCode(fcmToken, myId)
+            .then(code => {
+                if (cancelled) return;
+                setPairingCode(code);
+                setPairingError(null);
+            })
+            .catch(error => {
+                if (cancelled) return;
+                console.error('Failed to get pairing code:', error);
+                setPairingCode(null);
+                setPairingError(error instanceof Error ? error.message.toUpperCase() : 'PAIRING CODE UNAVAILABLE');
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isTokenExchangeActive, fcmToken, myId]);
+
+    // Keep last-seen times of contacts current while they're on the channel
+    React.useEffect(() => {
+        if (channelMembers.length > 0) {
+            markSeen(channelMembers);
+        }
+    }, [channelMembers, markSeen]);
+
     if (!mounted) return null;
 
     // Strip backticks from pasted tokens
     const stripBackticks = (val: string) => val.replace(/`/g, '').trim();
 
-    const handleTokenExchange = async () => {
-        if (!remoteToken) {
+    const handleTokenExchange = async (code: string | null = remoteCode, secret: string | null = remoteSecret) => {
+        if (!code || !fcmToken) {
             setExchangeStatus('failed');
             return;
         }
@@ -132,41 +199,70 @@ export default function WalkieBody() {
         try {
             setExchangeStatus('exchanging');
 
-            // Set the remote token as the target FCM token for sending notifications
-            setTargetFcmToken(remoteToken);
+            // The server resolves the code to the remote's token, which becomes our notification target
+            const remote = await exchangeWithPairingCode(fcmToken, code);
+            setTargetFcmToken(remote.token);
+            await savePairedContact({ peerId: remote.peerId, fcmToken: remote.token, e2eeSecret: secret });
             setConnectionStatus('connected');
             setExchangeStatus('success');
+            setPairingError(null);
+            setNeedsRepair(false);
 
             console.log('Token exchange successful. Remote token set as target.');
         } catch (error) {
             console.error('Token exchange failed:', error);
+            setPairingError(error instanceof Error ? error.message.toUpperCase() : 'PAIRING FAILED');
             setExchangeStatus('failed');
         } finally {
             setTimeout(() => setExchangeStatus('idle'), 3000);
         }
     };
 
-    const handleScanToken = (scannedToken: string) => {
-        setRemoteToken(scannedToken);
+    const handleScanToken = (scannedCode: string, scannedSecret: string | null) => {
+        setIsScanning(false);
+        setRemoteCode(scannedCode);
+        setRemoteSecret(scannedSecret);
         setExchangeStatus('scanning');
 
-        // Auto-exchange if enabled
+        // Auto-exchange if enabled; pass the code since state hasn't updated yet
         if (autoExchangeEnabled) {
-            handleTokenExchange();
+            handleTokenExchange(scannedCode, scannedSecret);
+        }
+    };
+
+    const handlePing = async () => {
+        if (await sendPing() === 'target-gone') {
+            setTargetFcmToken('');
+            setConnectionStatus('disconnected');
+            setNeedsRepair(true);
+            setIsTokenExchangeActive(true);
         }
     };
 
     const handleDisconnect = () => {
-        setRemoteToken(null);
+        setRemoteCode(null);
+        setRemoteSecret(null);
         setConnectionStatus('disconnected');
         setExchangeStatus('idle');
-        setTargetId('');
+        setChannelId('');
         setTargetFcmToken('');
     };
 
+    const handleSelectContact = (fcmTokenOfContact: string) => {
+        setTargetFcmToken(fcmTokenOfContact);
+        setConnectionStatus('connected');
+    };
+
+    const handleRenameContact = (id: string, currentNickname: string) => {
+        const nickname = window.prompt('Contact nickname', currentNickname);
+        if (nickname) {
+            renameContact(id, nickname);
+        }
+    };
+
     const handleCopyToken = () => {
-        if (fcmToken) {
-            navigator.clipboard.writeText(`\`${fcmToken}\``);
+        if (pairingCode) {
+            navigator.clipboard.writeText(pairingCode.code);
             setExchangeStatus('success');
             setTimeout(() => setExchangeStatus('idle'), 3000);
         }
@@ -197,18 +293,18 @@ export default function WalkieBody() {
                     </div>
 
                     <h2 className="text-white text-2xl font-black uppercase tracking-wider mb-3">
-                        TOKEN RECEIVED!
+                        PAIRING CODE RECEIVED!
                     </h2>
 
                     <p className="text-white/60 text-sm mb-8 max-w-xs leading-relaxed">
-                        The remote token has been saved. Open the <strong className="text-[#ff8c00]">Walkie-Talkie app</strong> from your Home Screen to connect.
+                        The pairing code has been saved. Open the <strong className="text-[#ff8c00]">Walkie-Talkie app</strong> from your Home Screen to connect.
                     </p>
 
-                    {pendingRemoteToken && (
+                    {pendingPairingCode && (
                         <div className="w-full max-w-sm bg-[#111] rounded-xl border border-white/10 p-4 mb-6">
-                            <span className="text-[#ff8c00] text-[10px] font-black block mb-2">REMOTE TOKEN (SAVED)</span>
-                            <p className="text-[9px] text-green-500/80 font-mono break-all leading-relaxed">
-                                {pendingRemoteToken.substring(0, 40)}...
+                            <span className="text-[#ff8c00] text-[10px] font-black block mb-2">PAIRING CODE (SAVED)</span>
+                            <p className="text-2xl text-green-500/80 font-mono font-black tracking-[0.3em]">
+                                {pendingPairingCode}
                             </p>
                         </div>
                     )}
@@ -227,29 +323,32 @@ export default function WalkieBody() {
                                 </div>
                                 <div className="flex items-start gap-3">
                                     <span className="text-[#ff8c00] font-black text-xs mt-0.5">3.</span>
-                                    <p className="text-white/60 text-xs">The remote token will be applied automatically!</p>
+                                    <p className="text-white/60 text-xs">The code will be filled in — tap EXCHANGE to pair!</p>
                                 </div>
                             </div>
                         </div>
 
                         <button
                             onClick={() => {
-                                if (pendingRemoteToken) {
-                                    navigator.clipboard.writeText(`\`${pendingRemoteToken}\``).catch(() => { });
+                                if (pendingPairingCode) {
+                                    navigator.clipboard.writeText(pendingPairingCode).catch(() => { });
                                 }
                                 setShowBrowserRedirect(false);
                             }}
                             className="w-full py-4 rounded-xl text-sm font-black uppercase bg-[#ff8c00] text-black active:bg-[#ff6300] transition-all"
                         >
-                            GOT IT — COPY TOKEN & CONTINUE
+                            GOT IT — COPY CODE & CONTINUE
                         </button>
 
                         <button
                             onClick={() => {
-                                if (pendingRemoteToken) {
-                                    setRemoteToken(pendingRemoteToken);
-                                    setTargetFcmToken(pendingRemoteToken);
-                                    setConnectionStatus('connected');
+                                if (pendingPairingCode) {
+                                    const pendingSecret = localStorage.getItem(PENDING_PAIRING_SECRET_KEY);
+                                    localStorage.removeItem(PENDING_PAIRING_CODE_KEY);
+                                    localStorage.removeItem(PENDING_PAIRING_SECRET_KEY);
+                                    setRemoteCode(pendingPairingCode);
+                                    setRemoteSecret(isValidE2eeSecret(pendingSecret) ? pendingSecret : null);
+                                    setIsTokenExchangeActive(true);
                                 }
                                 setShowBrowserRedirect(false);
                             }}
@@ -261,6 +360,11 @@ export default function WalkieBody() {
                 </div>
             )}
 
+            {/* IN-APP QR SCANNER — keeps pairing inside the installed PWA */}
+            {isScanning && (
+                <QrScanner onScan={handleScanToken} onClose={() => setIsScanning(false)} />
+            )}
+
             {/* TOKEN EXCHANGE OVERLAY — Mobile-first bottom sheet */}
             {isTokenExchangeActive && (
                 <div className="fixed inset-0 z-50 flex flex-col">
@@ -290,12 +394,21 @@ export default function WalkieBody() {
 
                         {/* Scrollable content */}
                         <div className="flex-1 overflow-y-auto overscroll-contain px-5 py-4 space-y-4">
-                            {/* MY TOKEN */}
+                            {/* MY CODE */}
                             <div className="bg-[#0a0a0b] p-4 rounded-xl border border-white/5">
-                                <h4 className="text-[#ff8c00] font-black text-xs mb-2">MY TOKEN</h4>
-                                <p className={`text-[10px] font-mono break-all p-3 rounded-lg mb-3 ${tokenError ? 'bg-red-500/10 text-red-400 border border-red-500/20' : 'bg-[#1a1a1a] text-white/80'}`}>
-                                    {fcmToken || tokenError || (exchangeStatus === 'exchanging' ? 'SYNCING...' : 'TAP REFRESH TO GENERATE')}
-                                </p>
+                                <h4 className="text-[#ff8c00] font-black text-xs mb-2">MY CODE</h4>
+                                {pairingCode ? (
+                                    <div className="bg-[#1a1a1a] p-3 rounded-lg mb-3 text-center">
+                                        <p className="text-2xl text-white font-mono font-black tracking-[0.3em]">{pairingCode.code}</p>
+                                        <p className="text-[9px] text-white/40 font-mono mt-1">
+                                            SINGLE USE · EXPIRES {new Date(pairingCode.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                        </p>
+                                    </div>
+                                ) : (
+                                    <p className={`text-[10px] font-mono break-all p-3 rounded-lg mb-3 ${tokenError || pairingError ? 'bg-red-500/10 text-red-400 border border-red-500/20' : 'bg-[#1a1a1a] text-white/80'}`}>
+                                        {tokenError || (fcmToken ? pairingError || 'GETTING CODE...' : (exchangeStatus === 'exchanging' ? 'SYNCING...' : 'TAP REFRESH TO GENERATE'))}
+                                    </p>
+                                )}
                                 <div className="flex gap-2">
                                     <button
                                         onClick={handleSync}
@@ -309,6 +422,7 @@ export default function WalkieBody() {
                                     </button>
                                     <button
                                         onClick={handleCopyToken}
+                                        disabled={!pairingCode}
                                         className={`px-4 py-3 rounded-xl text-xs font-black uppercase transition-all ${exchangeStatus === 'success'
                                             ? 'bg-green-500 text-black'
                                             : 'bg-white/10 text-white active:bg-white/20'
@@ -319,18 +433,26 @@ export default function WalkieBody() {
                                 </div>
                             </div>
 
-                            {/* REMOTE TOKEN */}
+                            {/* REMOTE CODE */}
                             <div className="bg-[#0a0a0b] p-4 rounded-xl border border-white/5">
-                                <h4 className="text-[#ff8c00] font-black text-xs mb-2">REMOTE TOKEN</h4>
+                                <h4 className="text-[#ff8c00] font-black text-xs mb-2">REMOTE CODE</h4>
+                                {needsRepair && (
+                                    <p className="text-[9px] text-red-400 font-mono mb-2">REMOTE DEVICE NO LONGER REACHABLE · ENTER OR SCAN A NEW CODE</p>
+                                )}
                                 <div className="relative mb-3">
                                     <input
-                                        value={remoteToken || ''}
-                                        onChange={(e) => setRemoteToken(stripBackticks(e.target.value))}
-                                        placeholder="PASTE REMOTE TOKEN HERE"
-                                        autoCapitalize="off"
+                                        value={remoteCode || ''}
+                                        onChange={(e) => {
+                                            // A typed code carries no E2EE secret
+                                            setRemoteCode(e.target.value.toUpperCase());
+                                            setRemoteSecret(null);
+                                        }}
+                                        placeholder="ENTER PAIRING CODE (e.g. 7K3-Q9M)"
+                                        maxLength={7}
+                                        autoCapitalize="characters"
                                         autoCorrect="off"
                                         spellCheck={false}
-                                        className="w-full bg-[#1a1a1a] border border-white/10 p-3 rounded-xl text-[10px] text-white focus:border-[#ff8c00] outline-none transition-all font-mono"
+                                        className="w-full bg-[#1a1a1a] border border-white/10 p-3 rounded-xl text-sm text-white text-center tracking-[0.3em] focus:border-[#ff8c00] outline-none transition-all font-mono"
                                     />
                                     {exchangeStatus === 'scanning' && (
                                         <div className="absolute top-0 right-0 h-full flex items-center px-3 text-[#ff8c00]">
@@ -338,26 +460,87 @@ export default function WalkieBody() {
                                         </div>
                                     )}
                                 </div>
-                                <button
-                                    onClick={handleTokenExchange}
-                                    className={`w-full px-3 py-3 rounded-xl text-xs font-black uppercase transition-all ${exchangeStatus === 'exchanging'
-                                        ? 'bg-[#444] text-white/40 cursor-not-allowed'
-                                        : 'bg-[#ff8c00] text-black active:bg-[#ff6300]'
-                                        }`}
-                                    disabled={exchangeStatus === 'exchanging'}
-                                >
-                                    {exchangeStatus === 'exchanging' ? 'EXCHANGING...' : 'EXCHANGE TOKEN'}
-                                </button>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => setIsScanning(true)}
+                                        disabled={exchangeStatus === 'exchanging'}
+                                        className="px-4 py-3 rounded-xl text-xs font-black uppercase bg-white/10 text-white active:bg-white/20 transition-all flex items-center gap-2"
+                                    >
+                                        <QrCodeIcon size={16} /> SCAN
+                                    </button>
+                                    <button
+                                        onClick={() => handleTokenExchange()}
+                                        className={`flex-1 px-3 py-3 rounded-xl text-xs font-black uppercase transition-all ${exchangeStatus === 'exchanging'
+                                            ? 'bg-[#444] text-white/40 cursor-not-allowed'
+                                            : 'bg-[#ff8c00] text-black active:bg-[#ff6300]'
+                                            }`}
+                                        disabled={exchangeStatus === 'exchanging'}
+                                    >
+                                        {exchangeStatus === 'exchanging' ? 'PAIRING...' : 'PAIR'}
+                                    </button>
+                                </div>
+                                {exchangeStatus === 'failed' && pairingError && (
+                                    <p className="text-[9px] text-red-400 font-mono mt-2">{pairingError}</p>
+                                )}
+                            </div>
+
+                            {/* CONTACTS — previously paired peers */}
+                            <div className="bg-[#0a0a0b] p-4 rounded-xl border border-white/5">
+                                <div className="flex items-center justify-between mb-2">
+                                    <h4 className="text-[#ff8c00] font-black text-xs">CONTACTS</h4>
+                                    <button
+                                        onClick={() => setContactSyncEnabled(!contactSyncEnabled)}
+                                        className={`px-2 py-1 rounded text-[9px] font-black uppercase transition-all ${contactSyncEnabled ? 'bg-green-500 text-black' : 'bg-white/10 text-white/60'}`}
+                                    >
+                                        SYNC {contactSyncEnabled ? 'ON' : 'OFF'}
+                                    </button>
+                                </div>
+                                {contactSyncError && (
+                                    <p className="text-[9px] text-red-400 font-mono mb-2">{contactSyncError.toUpperCase()}</p>
+                                )}
+                                {contacts.length === 0 ? (
+                                    <p className="text-[10px] text-white/30 font-mono text-center py-2">PAIR A DEVICE TO ADD IT HERE</p>
+                                ) : (
+                                    <div className="space-y-2 max-h-48 overflow-y-auto overscroll-contain">
+                                        {contacts.map(contact => {
+                                            const isSelected = targetFcmToken === contact.fcmToken;
+                                            return (
+                                                <div key={contact.id} className={`flex items-center gap-2 p-2 rounded-lg border transition-colors ${isSelected ? 'border-green-500/30 bg-green-500/5' : 'border-white/5 bg-[#111]'}`}>
+                                                    <button onClick={() => handleSelectContact(contact.fcmToken)} className="flex-1 min-w-0 text-left">
+                                                        <p className="text-[11px] text-white/90 font-black truncate uppercase">{contact.nickname}</p>
+                                                        <p className="text-[8px] text-white/40 font-mono truncate">
+                                                            {contact.peerId ?? 'NO PEER ID'} · {contact.lastSeen ? `SEEN ${formatDistanceToNow(contact.lastSeen, { addSuffix: true })}` : 'NOT SEEN YET'} · PAIRED {format(contact.pairedAt, 'MMM d')}
+                                                        </p>
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleRenameContact(contact.id, contact.nickname)}
+                                                        className="w-7 h-7 shrink-0 rounded flex items-center justify-center text-white/40 hover:text-white transition-colors"
+                                                        title="Rename"
+                                                    >
+                                                        <Pencil size={12} />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => removeContact(contact.id)}
+                                                        className="w-7 h-7 shrink-0 rounded flex items-center justify-center text-white/40 hover:text-red-400 transition-colors"
+                                                        title="Remove"
+                                                    >
+                                                        <Trash2 size={12} />
+                                                    </button>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
                             </div>
 
                             {/* QR CODE */}
                             <div className="bg-[#0a0a0b] p-4 rounded-xl border border-white/5">
                                 <h4 className="text-[#ff8c00] font-black text-xs mb-2">QR CODE</h4>
                                 <div className="text-center">
-                                    {fcmToken ? (
+                                    {pairingCode ? (
                                         <>
                                             <QrCode
-                                                value={`${typeof window !== 'undefined' ? window.location.origin : 'https://walkie-lazy.vercel.app'}/?token=${encodeURIComponent(fcmToken)}`}
+                                                value={`${typeof window !== 'undefined' ? window.location.origin : 'https://walkie-lazy.vercel.app'}/?pair=${encodeURIComponent(pairingCode.code)}#${E2EE_SECRET_PARAM}=${getOrCreateE2eeSecret()}`}
                                                 size={180}
                                                 bgColor="#0a0a0b"
                                                 fgColor="#ff8c00"
@@ -432,11 +615,11 @@ export default function WalkieBody() {
                         />
                     </div>
                     <div className="flex-1">
-                        <label className="tactical-label block mb-1 text-white/50">TARGET_FREQ</label>
+                        <label className="tactical-label block mb-1 text-white/50">CHANNEL_FREQ</label>
                         <input
-                            placeholder="REMOTE ID"
-                            value={targetId}
-                            onChange={(e) => setTargetId(e.target.value)}
+                            placeholder="CHANNEL"
+                            value={channelId}
+                            onChange={(e) => setChannelId(e.target.value)}
                             autoCapitalize="off"
                             autoCorrect="off"
                             spellCheck={false}
@@ -482,6 +665,77 @@ export default function WalkieBody() {
                                     {autoExchangeEnabled ? 'ENABLED' : 'DISABLED'}
                                 </button>
                             </div>
+                            <div className="flex items-center justify-between">
+                                <span className="text-[10px] text-white/80">E2EE (QR-PAIRED PEERS)</span>
+                                <button
+                                    onClick={() => setE2eeEnabled(!e2eeEnabled)}
+                                    className={`px-3 py-1 rounded text-xs font-black uppercase transition-all ${e2eeEnabled
+                                        ? 'bg-green-500 text-black hover:bg-green-400'
+                                        : 'bg-[#666] text-white/60 hover:bg-[#444]'
+                                        }`}
+                                >
+                                    {e2eeEnabled ? 'ENABLED' : 'DISABLED'}
+                                </button>
+                            </div>
+                            {e2eeStatus === 'unsupported' && (
+                                <p className="text-[9px] text-red-400 font-mono">
+                                    THIS BROWSER CAN&apos;T ENCRYPT AUDIO FRAMES — TRANSMITTING WITHOUT E2EE
+                                </p>
+                            )}
+                            <div className="flex items-center justify-between">
+                                <span className="text-[10px] text-white/80">VOX (VOICE TRANSMIT)</span>
+                                <button
+                                    onClick={() => setVoxSettings({ ...voxSettings, enabled: !voxSettings.enabled })}
+                                    className={`px-3 py-1 rounded text-xs font-black uppercase transition-all ${voxSettings.enabled
+                                        ? 'bg-green-500 text-black hover:bg-green-400'
+                                        : 'bg-[#666] text-white/60 hover:bg-[#444]'
+                                        }`}
+                                >
+                                    {voxSettings.enabled ? 'ENABLED' : 'DISABLED'}
+                                </button>
+                            </div>
+                            {voxSettings.enabled && (
+                                <>
+                                    <div>
+                                        <div className="flex items-center justify-between mb-1">
+                                            <label className="tactical-label text-white/40">VOX THRESHOLD</label>
+                                            <span className="text-[9px] text-white/60 font-mono">{Math.round(voxSettings.threshold * 100)}%</span>
+                                        </div>
+                                        <input
+                                            type="range"
+                                            min={0.01}
+                                            max={0.3}
+                                            step={0.01}
+                                            value={voxSettings.threshold}
+                                            onChange={(e) => setVoxSettings({ ...voxSettings, threshold: Number(e.target.value) })}
+                                            className="w-full accent-[#ff8c00]"
+                                        />
+                                        {/* Live mic level against the threshold */}
+                                        <div className="relative h-1.5 mt-1 bg-black/60 rounded overflow-hidden">
+                                            <div
+                                                className={`h-full transition-all duration-75 ${voxLevel >= voxSettings.threshold ? 'bg-green-500' : 'bg-white/30'}`}
+                                                style={{ width: `${Math.min(100, (voxLevel / 0.3) * 100)}%` }}
+                                            />
+                                            <div className="absolute top-0 h-full w-px bg-[#ff8c00]" style={{ left: `${(voxSettings.threshold / 0.3) * 100}%` }} />
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <div className="flex items-center justify-between mb-1">
+                                            <label className="tactical-label text-white/40">VOX HANGOVER</label>
+                                            <span className="text-[9px] text-white/60 font-mono">{voxSettings.hangover}MS</span>
+                                        </div>
+                                        <input
+                                            type="range"
+                                            min={200}
+                                            max={3000}
+                                            step={100}
+                                            value={voxSettings.hangover}
+                                            onChange={(e) => setVoxSettings({ ...voxSettings, hangover: Number(e.target.value) })}
+                                            className="w-full accent-[#ff8c00]"
+                                        />
+                                    </div>
+                                </>
+                            )}
                             <div className="flex items-center justify-between">
                                 <span className="text-[10px] text-white/80">TOKEN VALID</span>
                                 <span className={`text-[10px] ${tokenValidation === 'valid' ? 'text-green-500' : tokenValidation === 'invalid' ? 'text-[#ff4444]' : 'text-white/60'}`}>
@@ -497,6 +751,25 @@ export default function WalkieBody() {
                         </div>
                     </div>
                 )}
+                <div className="flex items-center justify-between">
+                    <label className="tactical-label text-white/50">RX LOG{history.length > 0 ? ` (${history.length})` : ''}</label>
+                    <button
+                        onClick={() => setShowRxLog(!showRxLog)}
+                        className="text-[#ff8c00] hover:text-white transition-colors"
+                    >
+                        <div className={`w-3 h-3 rounded-full ${showRxLog ? 'bg-green-500' : 'bg-[#666]'}`} />
+                    </button>
+                </div>
+                {showRxLog && (
+                    <TransmissionLog
+                        history={history}
+                        replayingId={replayingId}
+                        onReplay={replayTransmission}
+                        onStop={stopReplay}
+                        onDelete={removeTransmission}
+                        onClear={clearHistory}
+                    />
+                )}
                 {fcmToken && (
                     <div className="bg-[#ff8c00]/5 border border-[#ff8c00]/20 p-3 rounded-lg">
                         <span className="tactical-label block mb-1 text-green-500!">MY_BROADCAST_TOKEN:</span>
@@ -561,7 +834,7 @@ export default function WalkieBody() {
                         </div>
                         <div className="flex gap-3">
                             <div className="flex flex-col gap-1.5 items-center">
-                                <div className={`status-led ${isTalking ? 'led-orange led-blink' : ''}`} />
+                                <div className={`status-led ${isTransmitting ? 'led-orange led-blink' : ''}`} />
                                 <span className="tactical-label text-[5px]!">TX</span>
                             </div>
                             <div className="flex flex-col gap-1.5 items-center">
@@ -592,7 +865,7 @@ export default function WalkieBody() {
                                 <div className="flex flex-col gap-1">
                                     <div className="flex items-center gap-1.5">
                                         <Signal size={14} className="text-[#ffaa00]" />
-                                        <span className="text-[10px] font-black text-[#ffaa00] tracking-tighter">SIG_STRENGTH: {isTalking ? '100%' : '98%'}</span>
+                                        <span className="text-[10px] font-black text-[#ffaa00] tracking-tighter">SIG_STRENGTH: {isTransmitting ? '100%' : '98%'}</span>
                                     </div>
                                     <Volume2 size={12} className="text-[#ffaa00]/60" />
                                 </div>
@@ -607,9 +880,14 @@ export default function WalkieBody() {
                                     </div>
                                 ) : (
                                     <div className="flex flex-col items-center">
-                                        <span className="text-[11px] opacity-40 font-mono mb-1 tracking-widest uppercase">CHAN: {targetId || "SCANNING..."}</span>
+                                        <span className="text-[11px] opacity-40 font-mono mb-1 tracking-widest uppercase">CHAN: {channelId || "SCANNING..."}</span>
+                                        {e2eeStatus !== 'off' && (
+                                            <span className={`text-[9px] font-black font-mono tracking-widest px-1.5 rounded border ${e2eeStatus === 'active' && incomingE2ee !== 'undecryptable' && outgoingE2ee !== 'plain' ? 'text-green-600 border-green-600/40' : 'text-[#ff4444] border-[#ff4444]/40'}`}>
+                                                {e2eeStatus === 'unsupported' ? 'E2EE N/A · PLAIN' : incomingE2ee === 'undecryptable' ? 'E2EE · NO KEY' : outgoingE2ee === 'plain' ? 'E2EE · TX PLAIN' : incomingE2ee === 'plain' ? 'E2EE · RX PLAIN' : 'E2EE'}
+                                            </span>
+                                        )}
                                         <h2 className="screen-text text-5xl font-black italic tracking-tighter uppercase">
-                                            {isTalking ? "ACTIVE" : "READY"}
+                                            {isQueued ? "WAIT" : isRecordingMessage ? "MSG" : isTransmitting ? (isVoxTransmitting && !isTalking ? "VOX" : "ACTIVE") : isChannelBusy ? "BUSY" : "READY"}
                                         </h2>
                                     </div>
                                 )}
@@ -618,11 +896,11 @@ export default function WalkieBody() {
                             <div className="flex justify-between items-end">
                                 <div className="flex flex-col">
                                     <span className="text-[9px] font-mono text-[#ffaa00] font-bold">144.390 MHz</span>
-                                    <span className="text-[7px] font-mono text-[#ffaa00]/40">NARROW_BAND_FM</span>
+                                    <span className="text-[7px] font-mono text-[#ffaa00]/40">{channelId ? `${channelMembers.length} STATION${channelMembers.length === 1 ? '' : 'S'} ON CHAN` : 'NARROW_BAND_FM'}</span>
                                 </div>
                                 <div className="flex gap-1.5 h-6 items-end">
                                     {[2, 4, 3, 5, 4, 6].map((h, i) => (
-                                        <div key={i} className={`w-1.5 bg-[#ffaa00] transition-all duration-300 ${isTalking ? 'opacity-100' : 'opacity-20'}`} style={{ height: isTalking ? `${h * 4}px` : '4px' }} />
+                                        <div key={i} className={`w-1.5 bg-[#ffaa00] transition-all duration-300 ${isTransmitting ? 'opacity-100' : 'opacity-20'}`} style={{ height: isTransmitting ? `${h * 4}px` : '4px' }} />
                                     ))}
                                 </div>
                             </div>
@@ -650,7 +928,7 @@ export default function WalkieBody() {
                         {/* PING BUTTONS */}
                         <div className="flex justify-between px-2">
                             <button
-                                onClick={sendPing}
+                                onClick={handlePing}
                                 className="w-10 h-10 rounded-sm bg-[#111] border border-[#222] shadow-xl flex items-center justify-center active:bg-[#ff8c00] active:text-black transition-all group"
                                 title="Send Signal"
                             >
@@ -676,8 +954,8 @@ export default function WalkieBody() {
                     {/* ENHANCED COMM BUTTON */}
                     <div className="mt-8 flex flex-col items-center">
                         <RedButton
-                            isTalking={isTalking}
-                            isConnected={peerConnected && !!targetId}
+                            isTalking={isTransmitting}
+                            isConnected={peerConnected && !!channelId}
                             isConnecting={!peerConnected && !!myId}
                             isTokenValid={tokenValidation === 'valid'}
                             onTalkStart={handleTalkStart}
@@ -685,8 +963,12 @@ export default function WalkieBody() {
                             onSync={handleSync}
                             onDisconnect={handleDisconnect}
                             isIncomingCall={isIncomingCall}
+                            isChannelBusy={isChannelBusy}
+                            isQueued={isQueued}
+                            isRecordingMessage={isRecordingMessage}
+                            floorHolder={floorHolder}
                             fcmToken={fcmToken}
-                            targetId={targetId}
+                            channelId={channelId}
                             targetFcmToken={targetFcmToken}
                         />
                     </div>
@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react';
+import { withDeviceCredential } from '@/lib/deviceCredentialClient';
+
+// Heartbeat well inside the server-side CHANNEL_MEMBER_TTL (45s)
+const HEARTBEAT_INTERVAL = 15 * 1000;
+
+interface ChannelMemberResponse {
+    peerId: string;
+}
+
+// Channel Membership Hook
+// Joins `channelId` as `peerId` once the peer is online, heartbeats, and tracks the other members
+export const useChannelMembership = (channelId: string, peerId: string, isOnline: boolean) => {
+    const [members, setMembers] = useState<string[]>([]);
+    const membersRef = useRef<string[]>([]);
+
+    useEffect(() => {
+        // The previous run's cleanup already cleared the member list
+        if (!channelId || !peerId || !isOnline) return;
+
+        let cancelled = false;
+
+        const heartbeat = async () => {
+            try {
+                const res = await fetch('/api/channels', {
+                    method: 'POST',
+                    headers: withDeviceCredential({ 'Content-Type': 'application/json' }),
+                    body: JSON.stringify({ channel: channelId, peerId }),
+                });
+                if (!res.ok) {
+                    console.warn('Channel heartbeat failed:', res.status);
+                    return;
+                }
+                const data = await res.json();
+                if (cancelled) return;
+
+                const others = (data.members as ChannelMemberResponse[] || [])
+                    .map(member => member.peerId)
+                    .filter(id => id !== peerId);
+                membersRef.current = others;
+                setMembers(others);
+            } catch (error) {
+                console.error('Channel heartbeat error:', error);
+            }
+        };
+
+        heartbeat();
+        const timer = setInterval(heartbeat, HEARTBEAT_INTERVAL);
+
+        return () => {
+            cancelled = true;
+            clearInterval(timer);
+            membersRef.current = [];
+            setMembers([]);
+            fetch('/api/channels', {
+                method: 'DELETE',
+                headers: withDeviceCredential({ 'Content-Type': 'application/json' }),
+                body: JSON.stringify({ channel: channelId, peerId }),
+                keepalive: true,
+            }).catch(() => { /* server TTL will drop us anyway */ });
+        };
+    }, [channelId, peerId, isOnline]);
+
+    return { members, membersRef };
+};
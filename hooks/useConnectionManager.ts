@@ -2,13 +2,25 @@
 // Provides comprehensive connection management with state machine, real-time monitoring, and robust error handling
 
 import { useEffect, useRef, useState, useCallback } from 'react';
-import Peer, { MediaConnection } from 'peerjs';
+import Peer, { DataConnection, MediaConnection } from 'peerjs';
 import {
   requestForToken,
   refreshToken,
   invalidateToken,
-  validateToken,
 } from '../lib/firebase';
+import { TokenCheck, tokenService } from '../lib/tokenService';
+import { DEFAULT_METRICS_INTERVAL, startMetricsCollector } from '../lib/connectionMetrics';
+import { applyIceServers, buildPeerOptions, getSignalingConfigFromEnv } from '../lib/peerConfig';
+import { getSecurityConfig } from '../lib/securityConfig';
+import { useIceServers } from './useIceServers';
+import {
+  REACHABILITY_PURPOSE,
+  getReachabilityReply,
+  isHeartbeatOverdue,
+  isReachabilityMessage,
+  withHandshakeComplete,
+  withSignalingOpen,
+} from '../lib/reachability';
 import {
   ConnectionState,
   ConnectionError,
@@ -18,6 +30,7 @@ import {
   TokenManager,
   ConnectionManager,
   ConnectionEvent,
+  ConnectionMetrics,
   NetworkStatus,
   RetryConfig,
   TimeoutConfig,
@@ -26,6 +39,8 @@ import {
   ConnectionManagerConfig,
 } from '../types/connection';
 
+const securityConfig = getSecurityConfig();
+
 // Enhanced default configuration with comprehensive settings
 const defaultConfig: ConnectionManagerConfig = {
   retry: {
@@ -36,14 +51,17 @@ const defaultConfig: ConnectionManagerConfig = {
   },
   timeout: {
     connectionTimeout: 30000,
-    tokenValidationTimeout: 10000,
+    tokenValidationTimeout: securityConfig.tokenValidationTimeout,
     keepAliveInterval: 30000,
+    metricsInterval: DEFAULT_METRICS_INTERVAL,
   },
+  // Token storage and validation read these from lib/securityConfig, not from the hook's config
   security: {
-    tokenEncryptionEnabled: true,
-    tokenValidationEndpoint: '/api/tokens/verify',
-    tokenRefreshThreshold: 300000, // 5 minutes
+    tokenEncryptionEnabled: securityConfig.tokenEncryptionEnabled,
+    tokenValidationEndpoint: securityConfig.tokenValidationEndpoint,
+    tokenRefreshThreshold: securityConfig.tokenRefreshThreshold,
   },
+  signaling: getSignalingConfigFromEnv(),
   debug: {
     enableLogging: process.env.NODE_ENV !== 'production',
     logLevel: 'info',
@@ -68,14 +86,19 @@ export const useConnectionManager = (
     } = {},
     timeout: {
       connectionTimeout = defaultConfig.timeout.connectionTimeout,
-      tokenValidationTimeout = defaultConfig.timeout.tokenValidationTimeout,
       keepAliveInterval = defaultConfig.timeout.keepAliveInterval,
+      metricsInterval = defaultConfig.timeout.metricsInterval,
     } = {},
     security: {
-      tokenEncryptionEnabled = defaultConfig.security.tokenEncryptionEnabled,
-      tokenValidationEndpoint = defaultConfig.security.tokenValidationEndpoint,
       tokenRefreshThreshold = defaultConfig.security.tokenRefreshThreshold,
     } = {},
+    signaling: {
+      host: signalingHost = defaultConfig.signaling.host,
+      port: signalingPort = defaultConfig.signaling.port,
+      path: signalingPath = defaultConfig.signaling.path,
+      key: signalingKey = defaultConfig.signaling.key,
+      secure: signalingSecure = defaultConfig.signaling.secure,
+    } = {},
     debug: {
       enableLogging = defaultConfig.debug.enableLogging,
       logLevel = defaultConfig.debug.logLevel,
@@ -105,6 +128,12 @@ export const useConnectionManager = (
     stream: null,
   });
 
+  // STUN/TURN servers, refreshed before the TURN credentials expire
+  const iceServers = useIceServers();
+
+  // Live quality metrics for the active call
+  const [metrics, setMetrics] = useState<ConnectionMetrics | null>(null);
+
   // Refs for managing timers and cleanup
   const peerRef = useRef<Peer | null>(null);
   const retryTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -113,6 +142,15 @@ export const useConnectionManager = (
   const keepAliveTimerRef = useRef<NodeJS.Timeout | null>(null);
   const isMountedRef = useRef(false);
 
+  // Reachability: data connection to the remote peer and heartbeat bookkeeping
+  const dataConnectionRef = useRef<DataConnection | null>(null);
+  const lastHeartbeatRef = useRef(0);
+  const heartbeatSeqRef = useRef(0);
+  // Rejects the in-flight handshake (e.g. when the signaling server reports the peer unavailable)
+  const handshakeRejectRef = useRef<((error: Error) => void) | null>(null);
+  // Latest retry scheduler, readable from data connection callbacks
+  const scheduleRetryRef = useRef<() => void>(() => {});
+
   // Event listeners for network changes and other events
   const eventListenersRef = useRef<{
     online?: () => void;
@@ -215,33 +253,21 @@ export const useConnectionManager = (
     }
   }, [tokenManager, enableLogging, logLevel]);
 
-  const validateToken = useCallback(async (token: string): Promise<boolean> => {
+  const checkToken = useCallback(async (token: string): Promise<TokenCheck> => {
     if (enableLogging && logLevel === 'debug') {
       console.debug('Validating token...');
     }
 
-    try {
-      // In a real implementation, you would call your backend API to validate the token
-      // For now, we'll assume the token is valid if it's not expired
-      // You can implement JWT validation or call your validation endpoint here
-
-      // Simulate validation with timeout
-      await new Promise((resolve, reject) => {
-        const timer = setTimeout(() => {
-          resolve(true); // Assume valid for demo
-        }, tokenValidationTimeout);
-
-        return () => clearTimeout(timer);
-      });
-
-      return true;
-    } catch (error) {
-      if (enableLogging && logLevel === 'error') {
-        console.error('Token validation failed:', error);
-      }
-      return false;
+    const check = await tokenService.check(token);
+    if (check.status !== 'valid' && enableLogging && logLevel === 'warn') {
+      console.warn(`Token check ${check.status}${check.message ? `: ${check.message}` : ''}`);
     }
-  }, [tokenValidationTimeout, enableLogging, logLevel]);
+    return check;
+  }, [enableLogging, logLevel]);
+
+  const validateToken = useCallback(async (token: string): Promise<boolean> => {
+    return (await checkToken(token)).valid;
+  }, [checkToken]);
 
   const scheduleTokenValidation = useCallback(() => {
     if (tokenRefreshTimerRef.current) {
@@ -251,8 +277,9 @@ export const useConnectionManager = (
     tokenRefreshTimerRef.current = setTimeout(async () => {
       if (isMountedRef.current && tokenManager.token && tokenManager.isTokenValid) {
         try {
-          const isValid = await validateToken(tokenManager.token);
-          if (!isValid) {
+          // Only a definite answer from the server; offline or timed-out checks keep the token
+          const check = await checkToken(tokenManager.token);
+          if (check.status === 'invalid') {
             if (enableLogging && logLevel === 'warn') {
               console.warn('Token validation failed, invalidating token');
             }
@@ -281,7 +308,7 @@ export const useConnectionManager = (
         }
       }
     }, tokenRefreshThreshold);
-  }, [tokenManager, tokenRefreshThreshold, tokenValidationTimeout, enableLogging, logLevel]);
+  }, [tokenManager, tokenRefreshThreshold, checkToken, enableLogging, logLevel]);
 
   // =======================
   // Peer Connection Management
@@ -303,27 +330,34 @@ export const useConnectionManager = (
     }
 
     try {
-      // Initialize peer
-      const newPeer = new Peer(peerId);
+      // Initialize peer against the configured signaling server
+      const newPeer = new Peer(peerId, buildPeerOptions({
+        host: signalingHost,
+        port: signalingPort,
+        path: signalingPath,
+        key: signalingKey,
+        secure: signalingSecure,
+      }));
 
       // Set up event handlers
+      // Only the remote's hello_ack (see connectToRemotePeer) makes the status 'connected'
       newPeer.on('open', (id) => {
         if (isMountedRef.current) {
-          setStatus(prev => ({
-            ...prev,
-            state: 'connected',
-            peerId: id,
-            error: undefined,
-            retryCount: 0,
-          }));
+          setStatus(prev => withSignalingOpen(prev, id));
 
           if (enableLogging && logLevel === 'info') {
-            console.info('Peer connection established. Peer ID:', id);
+            console.info('Signaling connection established. Peer ID:', id);
           }
         }
       });
 
       newPeer.on('error', (err) => {
+        // An unreachable remote fails the pending handshake, which handles retries itself
+        if (err.type === 'peer-unavailable' && handshakeRejectRef.current) {
+          handshakeRejectRef.current(new Error(`Remote peer unavailable: ${remotePeerId}`));
+          return;
+        }
+
         if (isMountedRef.current) {
           const errorMessage = err.message || 'Unknown peer error';
 
@@ -368,6 +402,17 @@ export const useConnectionManager = (
         }
       });
 
+      // Answer reachability handshakes and heartbeats from the remote side
+      newPeer.on('connection', (conn) => {
+        if (conn.metadata?.purpose !== REACHABILITY_PURPOSE) return;
+
+        conn.on('data', (data) => {
+          if (!isReachabilityMessage(data)) return;
+          const reply = getReachabilityReply(data, peerId);
+          if (reply) conn.send(reply);
+        });
+      });
+
       // Listen for incoming calls
       newPeer.on('call', (call) => {
         if (isMountedRef.current) {
@@ -402,7 +447,88 @@ export const useConnectionManager = (
         console.error('Failed to initialize peer:', error);
       }
     }
-  }, [peerId, enableLogging, logLevel]);
+  }, [
+    peerId,
+    remotePeerId,
+    signalingHost,
+    signalingPort,
+    signalingPath,
+    signalingKey,
+    signalingSecure,
+    enableLogging,
+    logLevel,
+  ]);
+
+  const closeDataConnection = useCallback(() => {
+    if (keepAliveTimerRef.current) {
+      clearTimeout(keepAliveTimerRef.current);
+      keepAliveTimerRef.current = null;
+    }
+
+    const conn = dataConnectionRef.current;
+    dataConnectionRef.current = null;
+    if (conn) {
+      try { conn.close(); } catch { /* ignore */ }
+    }
+  }, []);
+
+  // The remote stopped answering or closed the data connection
+  const handleReachabilityLost = useCallback((reason: string) => {
+    closeDataConnection();
+    if (!isMountedRef.current) return;
+
+    if (enableLogging && logLevel === 'warn') {
+      console.warn('Remote peer unreachable:', reason);
+    }
+
+    setStatus(prev => ({
+      ...prev,
+      state: autoReconnect ? 'reconnecting' : 'error',
+      error: 'network_error',
+      lastError: reason,
+    }));
+
+    if (autoReconnect) {
+      scheduleRetryRef.current();
+    }
+  }, [closeDataConnection, autoReconnect, enableLogging, logLevel]);
+
+  // =======================
+  // Keep-alive Mechanism
+  // =======================
+
+  const startKeepAlive = useCallback(() => {
+    if (enableLogging && logLevel === 'debug') {
+      console.debug('Starting keep-alive mechanism...');
+    }
+
+    if (keepAliveTimerRef.current) {
+      clearTimeout(keepAliveTimerRef.current);
+    }
+
+    const tick = () => {
+      const conn = dataConnectionRef.current;
+      if (!isMountedRef.current || !conn) return;
+
+      // Every ping gets a pong; too long without one means the remote is gone
+      if (isHeartbeatOverdue(lastHeartbeatRef.current, Date.now(), keepAliveInterval)) {
+        handleReachabilityLost('Heartbeat timeout');
+        return;
+      }
+
+      if (enableLogging && logLevel === 'debug') {
+        console.debug('Sending keep-alive signal...');
+      }
+
+      heartbeatSeqRef.current += 1;
+      conn.send({ type: 'ping', seq: heartbeatSeqRef.current, sentAt: Date.now() });
+
+      // Schedule next keep-alive
+      keepAliveTimerRef.current = setTimeout(tick, keepAliveInterval);
+    };
+
+    keepAliveTimerRef.current = setTimeout(tick, keepAliveInterval);
+  }, [keepAliveInterval, handleReachabilityLost, enableLogging, logLevel]);
 
   const connectToRemotePeer = useCallback(async () => {
     if (enableLogging && logLevel === 'debug') {
@@ -425,43 +551,67 @@ export const useConnectionManager = (
         connectionTimerRef.current = null;
       }
 
-      // Set up connection timeout
-      connectionTimerRef.current = setTimeout(() => {
-        if (isMountedRef.current) {
-          setStatus(prev => ({
-            ...prev,
-            state: 'error',
-            error: 'network_error',
-            lastError: 'Connection timeout',
-          }));
+      // Replace any previous data connection
+      closeDataConnection();
 
-          if (enableLogging && logLevel === 'error') {
-            console.error('Connection timeout');
+      const conn = peerRef.current.connect(remotePeerId, {
+        metadata: { purpose: REACHABILITY_PURPOSE },
+        reliable: true,
+      });
+      dataConnectionRef.current = conn;
+      let isHandshakeComplete = false;
+
+      // Handshake: the remote must answer our hello within connectionTimeout
+      await new Promise<void>((resolve, reject) => {
+        const fail = (error: Error) => {
+          handshakeRejectRef.current = null;
+          reject(error);
+        };
+        handshakeRejectRef.current = fail;
+
+        connectionTimerRef.current = setTimeout(() => fail(new Error('Connection timeout')), connectionTimeout);
+
+        conn.on('open', () => {
+          conn.send({ type: 'hello', peerId });
+        });
+
+        conn.on('data', (data) => {
+          if (!isReachabilityMessage(data)) return;
+          lastHeartbeatRef.current = Date.now();
+
+          if (data.type === 'hello_ack' && !isHandshakeComplete) {
+            isHandshakeComplete = true;
+            handshakeRejectRef.current = null;
+            resolve();
+            return;
           }
 
-          if (autoReconnect) {
-            scheduleRetry();
+          const reply = getReachabilityReply(data, peerId);
+          if (reply) conn.send(reply);
+        });
+
+        conn.on('error', (err) => {
+          if (!isHandshakeComplete) fail(err);
+        });
+
+        conn.on('close', () => {
+          if (!isHandshakeComplete) {
+            fail(new Error('Connection closed during handshake'));
+          } else if (dataConnectionRef.current === conn) {
+            handleReachabilityLost('Remote peer closed the connection');
           }
+        });
+      }).finally(() => {
+        if (connectionTimerRef.current) {
+          clearTimeout(connectionTimerRef.current);
+          connectionTimerRef.current = null;
         }
-      }, connectionTimeout);
-
-      // In a real implementation, you would establish the actual connection here
-      // For now, we'll simulate a successful connection
-      await new Promise((resolve) => {
-        setTimeout(() => {
-          if (connectionTimerRef.current) {
-            clearTimeout(connectionTimerRef.current);
-            connectionTimerRef.current = null;
-          }
-          resolve(null);
-        }, 1000); // Simulate connection delay
       });
 
-      setStatus(prev => ({
-        ...prev,
-        state: 'connected',
-        remotePeerId,
-      }));
+      // A newer attempt or a disconnect replaced this connection while we waited
+      if (dataConnectionRef.current !== conn || !isMountedRef.current) return;
+
+      setStatus(prev => withHandshakeComplete(prev, remotePeerId));
 
       if (enableLogging && logLevel === 'info') {
         console.info('Connected to remote peer:', remotePeerId);
@@ -472,6 +622,8 @@ export const useConnectionManager = (
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Connection failed';
+      closeDataConnection();
+      if (!isMountedRef.current) return;
 
       setStatus(prev => ({
         ...prev,
@@ -485,13 +637,17 @@ export const useConnectionManager = (
       }
 
       if (autoReconnect) {
-        scheduleRetry();
+        scheduleRetryRef.current();
       }
     }
   }, [
+    peerId,
     remotePeerId,
     autoReconnect,
     connectionTimeout,
+    closeDataConnection,
+    handleReachabilityLost,
+    startKeepAlive,
     enableLogging,
     logLevel,
   ]);
@@ -522,6 +678,10 @@ export const useConnectionManager = (
       keepAliveTimerRef.current = null;
     }
 
+    // Close the reachability channel before the peer goes away
+    handshakeRejectRef.current = null;
+    closeDataConnection();
+
     // Destroy peer connection
     if (peerRef.current) {
       peerRef.current.destroy();
@@ -552,7 +712,7 @@ export const useConnectionManager = (
     if (enableLogging && logLevel === 'info') {
       console.info('Disconnected from remote peer');
     }
-  }, [enableLogging, logLevel]);
+  }, [closeDataConnection, enableLogging, logLevel]);
 
   // =======================
   // Retry Mechanism
@@ -614,31 +774,9 @@ export const useConnectionManager = (
     logLevel,
   ]);
 
-  // =======================
-  // Keep-alive Mechanism
-  // =======================
-
-  const startKeepAlive = useCallback(() => {
-    if (enableLogging && logLevel === 'debug') {
-      console.debug('Starting keep-alive mechanism...');
-    }
-
-    if (keepAliveTimerRef.current) {
-      clearTimeout(keepAliveTimerRef.current);
-    }
-
-    keepAliveTimerRef.current = setTimeout(() => {
-      if (isMountedRef.current && status.state === 'connected') {
-        // Send keep-alive signal (implementation would depend on your backend)
-        if (enableLogging && logLevel === 'debug') {
-          console.debug('Sending keep-alive signal...');
-        }
-
-        // Schedule next keep-alive
-        startKeepAlive();
-      }
-    }, keepAliveInterval);
-  }, [keepAliveInterval, enableLogging, logLevel, status.state]);
+  useEffect(() => {
+    scheduleRetryRef.current = scheduleRetry;
+  }, [scheduleRetry]);
 
   // =======================
   // Network Status Handling
@@ -728,6 +866,10 @@ export const useConnectionManager = (
       window.removeEventListener('beforeunload', eventListenersRef.current.beforeunload);
     }
 
+    // Close the reachability channel before the peer goes away
+    handshakeRejectRef.current = null;
+    closeDataConnection();
+
     // Destroy peer connection
     if (peerRef.current) {
       peerRef.current.destroy();
@@ -735,7 +877,7 @@ export const useConnectionManager = (
     }
 
     isMountedRef.current = false;
-  }, [enableLogging, logLevel]);
+  }, [closeDataConnection, enableLogging, logLevel]);
 
   // =======================
   // Main Effect
@@ -796,6 +938,54 @@ export const useConnectionManager = (
     }
   }, [peerId, remotePeerId, initializePeer, connectToRemotePeer, status.state]);
 
+  // Apply refreshed ICE servers to calls made from now on
+  useEffect(() => {
+    if (peerConnection.peer) {
+      applyIceServers(peerConnection.peer, iceServers);
+    }
+  }, [peerConnection.peer, iceServers]);
+
+  // Poll getStats() on the active call's peer connection
+  useEffect(() => {
+    const call = peerConnection.call;
+    if (!call) return;
+
+    let stopCollector: (() => void) | null = null;
+
+    // The RTCPeerConnection only exists once the call has been answered
+    const start = () => {
+      if (stopCollector || !call.peerConnection) return;
+
+      if (enableLogging && logLevel === 'debug') {
+        console.debug('Starting connection metrics collection...');
+      }
+
+      stopCollector = startMetricsCollector(call.peerConnection, (next) => {
+        if (isMountedRef.current) {
+          setMetrics(next);
+        }
+      }, metricsInterval);
+    };
+
+    const stop = () => {
+      if (stopCollector) {
+        stopCollector();
+        stopCollector = null;
+      }
+      setMetrics(null);
+    };
+
+    start();
+    call.on('stream', start);
+    call.on('close', stop);
+
+    return () => {
+      call.off('stream', start);
+      call.off('close', stop);
+      stop();
+    };
+  }, [peerConnection.call, metricsInterval, enableLogging, logLevel]);
+
   // Effect to handle connection state changes
   useEffect(() => {
     if (status.state === 'connected' && tokenManager.token && tokenManager.isTokenValid) {
@@ -835,6 +1025,9 @@ export const useConnectionManager = (
     isConnecting: status.state === 'connecting' || status.state === 'reconnecting',
     isDisconnected: status.state === 'disconnected',
     hasError: status.state === 'error',
+
+    // Connection quality
+    metrics,
   };
 
   return connectionManager;
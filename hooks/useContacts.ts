@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    Contact,
+    clampNickname,
+    findPairedContact,
+    mergeContacts,
+    sanitizeContacts,
+    sortContacts,
+    toSyncedContact,
+} from '@/lib/contacts';
+import { listStoredContacts, saveContacts } from '@/lib/contactStore';
+import { fetchSyncedContacts, getOrCreateUserId, uploadSyncedContacts } from '@/lib/contactsClient';
+import { getDeviceCredential } from '@/lib/deviceCredentialClient';
+
+const SYNC_ENABLED_KEY = 'walkie_contacts_sync';
+
+// Contacts Hook
+// Keeps the IndexedDB contact list in React state and, when enabled, syncs it through /api/contacts
+export const useContacts = () => {
+    const [contacts, setContacts] = useState<Contact[]>([]);
+    const [syncEnabled, setSyncEnabledState] = useState(false);
+    const [syncError, setSyncError] = useState<string | null>(null);
+    // All entries including tombstones; state only exposes live contacts
+    const allContactsRef = useRef<Contact[]>([]);
+    const syncEnabledRef = useRef(false);
+
+    const apply = useCallback((next: Contact[]) => {
+        allContactsRef.current = next;
+        setContacts(sortContacts(next));
+    }, []);
+
+    // Merge with the server copy, then upload the result so both sides agree
+    const sync = useCallback(async () => {
+        try {
+            // The server only hands contacts to a device registered under this userId
+            if (!getDeviceCredential()) {
+                setSyncError('Contact sync needs this device to be registered; sync the token first');
+                return;
+            }
+            const userId = getOrCreateUserId();
+            const remote = sanitizeContacts(await fetchSyncedContacts(userId)) ?? [];
+            const merged = mergeContacts(allContactsRef.current, remote);
+            await saveContacts(merged);
+            apply(merged);
+            await uploadSyncedContacts(userId, merged.map(toSyncedContact));
+            setSyncError(null);
+        } catch (error) {
+            console.error('Contact sync failed:', error);
+            setSyncError(error instanceof Error ? error.message : String(error));
+        }
+    }, [apply]);
+
+    useEffect(() => {
+        listStoredContacts()
+            .then(stored => {
+                apply(stored);
+                if (localStorage.getItem(SYNC_ENABLED_KEY) === 'true') {
+                    syncEnabledRef.current = true;
+                    setSyncEnabledState(true);
+                    sync();
+                }
+            })
+            .catch(error => console.error('Failed to load contacts:', error));
+    }, [apply, sync]);
+
+    // Save changed entries locally, and push them to the server unless told not to
+    const persist = useCallback(async (changed: Contact[], upload = true) => {
+        const byId = new Map(allContactsRef.current.map(contact => [contact.id, contact]));
+        changed.forEach(contact => byId.set(contact.id, contact));
+        apply([...byId.values()]);
+
+        try {
+            await saveContacts(changed);
+        } catch (error) {
+            console.error('Failed to save contacts:', error);
+        }
+        if (upload && syncEnabledRef.current) {
+            await sync();
+        }
+    }, [apply, sync]);
+
+    // Record a completed pairing, updating the existing entry if we already know this peer
+    const savePairedContact = useCallback(async (peer: { peerId: string | null; fcmToken: string; e2eeSecret?: string | null }) => {
+        const now = Date.now();
+        const existing = findPairedContact(allContactsRef.current, peer.peerId, peer.fcmToken);
+        const e2eeSecret = peer.e2eeSecret ?? existing?.e2eeSecret;
+        const contact: Contact = existing
+            ? { ...existing, fcmToken: peer.fcmToken, peerId: peer.peerId ?? existing.peerId, updatedAt: now }
+            : {
+                id: crypto.randomUUID(),
+                nickname: clampNickname(peer.peerId ?? `CONTACT ${allContactsRef.current.length + 1}`),
+                peerId: peer.peerId,
+                fcmToken: peer.fcmToken,
+                lastSeen: null,
+                pairedAt: now,
+                updatedAt: now,
+            };
+        if (e2eeSecret) contact.e2eeSecret = e2eeSecret;
+        await persist([contact]);
+        return contact;
+    }, [persist]);
+
+    const renameContact = useCallback(async (id: string, nickname: string) => {
+        const contact = allContactsRef.current.find(entry => entry.id === id);
+        const trimmed = clampNickname(nickname);
+        if (!contact || !trimmed) return;
+        await persist([{ ...contact, nickname: trimmed, updatedAt: Date.now() }]);
+    }, [persist]);
+
+    const removeContact = useCallback(async (id: string) => {
+        const contact = allContactsRef.current.find(entry => entry.id === id);
+        if (!contact) return;
+        await persist([{ ...contact, deleted: true, updatedAt: Date.now() }]);
+    }, [persist]);
+
+    // Stamp contacts whose peer is currently reachable; synced with the next upload
+    const markSeen = useCallback((peerIds: string[]) => {
+        const now = Date.now();
+        const seen = allContactsRef.current
+            .filter(contact => !contact.deleted && contact.peerId !== null && peerIds.includes(contact.peerId))
+            .map(contact => ({ ...contact, lastSeen: now, updatedAt: now }));
+        if (seen.length > 0) {
+            persist(seen, false);
+        }
+    }, [persist]);
+
+    const setSyncEnabled = useCallback((enabled: boolean) => {
+        syncEnabledRef.current = enabled;
+        setSyncEnabledState(enabled);
+        localStorage.setItem(SYNC_ENABLED_KEY, String(enabled));
+        if (enabled) {
+            sync();
+        } else {
+            setSyncError(null);
+        }
+    }, [sync]);
+
+    return {
+        contacts,
+        syncEnabled,
+        syncError,
+        setSyncEnabled,
+        savePairedContact,
+        renameContact,
+        removeContact,
+        markSeen,
+    };
+};
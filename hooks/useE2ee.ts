@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    E2eeKey,
+    E2eeSupport,
+    deriveE2eeKey,
+    getE2eeSupport,
+    getOrCreateE2eeSecret,
+    getOwnKeyHolders,
+    onFrameDecryptError,
+    saveOwnKeyHolder,
+    selectOutgoingKey,
+} from '@/lib/e2ee';
+
+export interface E2eeOptions {
+    enabled: boolean;
+    // Secrets scanned from paired contacts' QR codes
+    peerSecrets: { peerId: string | null; secret: string }[];
+}
+
+export const DEFAULT_E2EE_OPTIONS: E2eeOptions = { enabled: false, peerSecrets: [] };
+
+// 'unsupported' means the mode is on but this browser can't transform encoded frames
+export type E2eeStatus = 'off' | 'active' | 'unsupported';
+// How the last incoming transmission arrived
+export type IncomingE2ee = 'encrypted' | 'plain' | 'undecryptable' | null;
+// How the last outgoing transmission went out; 'plain' when some member holds no key we share
+export type OutgoingE2ee = 'encrypted' | 'plain' | null;
+
+interface Keyring {
+    own: E2eeKey | null;
+    byId: Map<string, E2eeKey>;
+    byPeer: Map<string, E2eeKey>;
+}
+
+// E2EE Hook
+// Derives frame keys from this device's secret and its contacts' secrets, and picks the key for each call
+export const useE2ee = (options: E2eeOptions) => {
+    const [support] = useState<E2eeSupport>(getE2eeSupport);
+    const [incomingE2ee, setIncomingE2ee] = useState<IncomingE2ee>(null);
+    const [outgoingE2ee, setOutgoingE2ee] = useState<OutgoingE2ee>(null);
+    const keyringRef = useRef<Keyring>({ own: null, byId: new Map(), byPeer: new Map() });
+    // Peers known to hold our own secret (see getOwnKeyHolders)
+    const ownKeyHoldersRef = useRef<Set<string>>(new Set());
+    const enabledRef = useRef(options.enabled);
+
+    useEffect(() => {
+        ownKeyHoldersRef.current = getOwnKeyHolders();
+    }, []);
+
+    useEffect(() => {
+        enabledRef.current = options.enabled;
+    }, [options.enabled]);
+
+    // Re-derive only when the secrets actually change, not on every new options object
+    const secretsKey = JSON.stringify(options.peerSecrets);
+    useEffect(() => {
+        let cancelled = false;
+        const peerSecrets: E2eeOptions['peerSecrets'] = JSON.parse(secretsKey);
+
+        (async () => {
+            const own = await deriveE2eeKey(getOrCreateE2eeSecret());
+            const keyring: Keyring = { own, byId: new Map([[own.keyId, own]]), byPeer: new Map() };
+            for (const { peerId, secret } of peerSecrets) {
+                const derived = await deriveE2eeKey(secret);
+                keyring.byId.set(derived.keyId, derived);
+                if (peerId) keyring.byPeer.set(peerId, derived);
+            }
+            if (!cancelled) keyringRef.current = keyring;
+        })().catch(error => console.error('Failed to derive E2EE keys:', error));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [secretsKey]);
+
+    useEffect(() => onFrameDecryptError(() => setIncomingE2ee('undecryptable')), []);
+
+    // Key for a call to `remotePeerId`, or null to send plain (E2EE off, or no key the peer holds)
+    const getOutgoingKey = useCallback((remotePeerId: string): E2eeKey | null => {
+        if (!enabledRef.current || !support) return null;
+        const keyring = keyringRef.current;
+        return selectOutgoingKey(keyring.byPeer.get(remotePeerId) ?? null, keyring.own, ownKeyHoldersRef.current.has(remotePeerId));
+    }, [support]);
+
+    // A transmission from `fromPeerId` under our own key proves they scanned our QR, so we can encrypt to them too
+    const getIncomingKey = useCallback((keyId: string, fromPeerId: string): E2eeKey | null => {
+        const key = keyringRef.current.byId.get(keyId) ?? null;
+        if (key && key === keyringRef.current.own && !ownKeyHoldersRef.current.has(fromPeerId)) {
+            ownKeyHoldersRef.current.add(fromPeerId);
+            saveOwnKeyHolder(fromPeerId);
+        }
+        return key;
+    }, []);
+
+    const status: E2eeStatus = !options.enabled ? 'off' : support ? 'active' : 'unsupported';
+
+    return { e2eeSupport: support, e2eeStatus: status, incomingE2ee, setIncomingE2ee, outgoingE2ee, setOutgoingE2ee, getOutgoingKey, getIncomingKey };
+};
@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Peer, { DataConnection } from 'peerjs';
+import {
+    FLOOR_REQUEST_TIMEOUT,
+    FloorMessage,
+    FloorState,
+    applyFloorMessage,
+    evaluateFloorRequest,
+    getActiveHolder,
+    initialFloorState,
+    isFloorMessage,
+} from '@/lib/floorControl';
+
+export type FloorRequestResult = 'granted' | 'denied';
+
+// Floor Control Hook
+// Keeps a data connection to every channel member and runs the half-duplex floor protocol over them
+export const useFloorControl = (peer: Peer | null, peerId: string, channelId: string, members: string[]) => {
+    const [floorHolder, setFloorHolder] = useState<string | null>(null);
+    const floorRef = useRef<FloorState>(initialFloorState);
+    const connectionsRef = useRef<Map<string, DataConnection>>(new Map());
+    const channelIdRef = useRef(channelId);
+    // Called whenever the floor becomes free, so a queued talker can retry
+    const onFloorFreeRef = useRef<(() => void) | null>(null);
+
+    const setFloorState = useCallback((next: FloorState) => {
+        const previousHolder = floorRef.current.holder;
+        floorRef.current = next;
+        setFloorHolder(next.holder);
+        if (previousHolder && !next.holder && onFloorFreeRef.current) {
+            onFloorFreeRef.current();
+        }
+    }, []);
+
+    const broadcast = useCallback((message: FloorMessage) => {
+        connectionsRef.current.forEach(conn => {
+            if (conn.open) {
+                try { conn.send(message); } catch (e) { console.warn('Floor message send failed:', e); }
+            }
+        });
+    }, []);
+
+    const handleMessage = useCallback((conn: DataConnection, data: unknown) => {
+        if (!isFloorMessage(data) || data.channel !== channelIdRef.current) return;
+
+        if (data.type === 'floor_request') {
+            const holder = evaluateFloorRequest(floorRef.current, peerId, {
+                peerId: data.peerId,
+                requestedAt: data.requestedAt,
+            });
+            if (holder) {
+                conn.send({ type: 'floor_deny', channel: data.channel, peerId, holder } satisfies FloorMessage);
+            }
+            return;
+        }
+
+        setFloorState(applyFloorMessage(floorRef.current, data));
+    }, [peerId, setFloorState]);
+
+    const registerConnection = useCallback((conn: DataConnection) => {
+        const existing = connectionsRef.current.get(conn.peer);
+        if (existing && existing !== conn) {
+            try { existing.close(); } catch { /* ignore */ }
+        }
+        connectionsRef.current.set(conn.peer, conn);
+
+        conn.on('data', (data) => handleMessage(conn, data));
+        conn.on('close', () => {
+            if (connectionsRef.current.get(conn.peer) === conn) {
+                connectionsRef.current.delete(conn.peer);
+            }
+            // A holder that drops off the channel can't release the floor itself
+            if (floorRef.current.holder === conn.peer) {
+                setFloorState({ ...floorRef.current, holder: null, holderSince: 0 });
+            }
+        });
+    }, [handleMessage, setFloorState]);
+
+    useEffect(() => {
+        channelIdRef.current = channelId;
+    }, [channelId]);
+
+    // Accept floor-control connections from members of our channel
+    useEffect(() => {
+        if (!peer) return;
+
+        const onConnection = (conn: DataConnection) => {
+            if (conn.metadata?.purpose !== 'floor') return;
+            if (conn.metadata?.channel !== channelIdRef.current) {
+                conn.close();
+                return;
+            }
+            registerConnection(conn);
+        };
+
+        peer.on('connection', onConnection);
+        return () => {
+            peer.off('connection', onConnection);
+        };
+    }, [peer, registerConnection]);
+
+    // Dial new members and hang up on departed ones.
+    // Only the lexically smaller peer ID dials, so each pair ends up with a single connection.
+    useEffect(() => {
+        if (!peer || !peerId || !channelId) return;
+
+        members.forEach(memberId => {
+            if (connectionsRef.current.has(memberId) || peerId > memberId) return;
+            const conn = peer.connect(memberId, {
+                reliable: true,
+                metadata: { purpose: 'floor', channel: channelId },
+            });
+            registerConnection(conn);
+        });
+
+        connectionsRef.current.forEach((conn, memberId) => {
+            if (!members.includes(memberId)) {
+                try { conn.close(); } catch { /* ignore */ }
+                connectionsRef.current.delete(memberId);
+            }
+        });
+    }, [peer, peerId, channelId, members, registerConnection]);
+
+    // Close everything and forget the floor when the peer or channel goes away
+    useEffect(() => {
+        const connections = connectionsRef.current;
+        return () => {
+            connections.forEach(conn => {
+                try { conn.close(); } catch { /* ignore */ }
+            });
+            connections.clear();
+            floorRef.current = initialFloorState;
+            setFloorHolder(null);
+        };
+    }, [peer, channelId]);
+
+    const requestFloor = useCallback(async (): Promise<FloorRequestResult> => {
+        const holder = getActiveHolder(floorRef.current);
+        if (holder && holder !== peerId) {
+            return 'denied';
+        }
+
+        const claim = { peerId, requestedAt: Date.now() };
+        floorRef.current = { ...floorRef.current, pending: claim };
+        broadcast({ type: 'floor_request', channel: channelIdRef.current, ...claim });
+
+        // Silence within the timeout means nobody objects
+        await new Promise(resolve => setTimeout(resolve, FLOOR_REQUEST_TIMEOUT));
+
+        const current = floorRef.current;
+        if (current.pending !== claim) {
+            return 'denied';
+        }
+
+        const deniedBy = getActiveHolder(current);
+        if (deniedBy && deniedBy !== peerId) {
+            floorRef.current = { ...current, pending: null };
+            return 'denied';
+        }
+
+        setFloorState({ holder: peerId, holderSince: Date.now(), pending: null });
+        broadcast({ type: 'floor_taken', channel: channelIdRef.current, peerId });
+        return 'granted';
+    }, [peerId, broadcast, setFloorState]);
+
+    const releaseFloor = useCallback(() => {
+        const current = floorRef.current;
+        const wasHolding = current.holder === peerId;
+        if (!wasHolding && !current.pending) return;
+
+        // Release even for a merely pending claim, in case we already denied someone on its behalf
+        setFloorState({
+            holder: wasHolding ? null : current.holder,
+            holderSince: wasHolding ? 0 : current.holderSince,
+            pending: null,
+        });
+        broadcast({ type: 'floor_release', channel: channelIdRef.current, peerId });
+    }, [peerId, broadcast, setFloorState]);
+
+    // Anyone sending us audio holds the floor, even if their floor_taken got lost
+    const noteTransmissionFrom = useCallback((remotePeerId: string) => {
+        if (floorRef.current.holder !== remotePeerId) {
+            setFloorState({ ...floorRef.current, holder: remotePeerId, holderSince: Date.now() });
+        }
+    }, [setFloorState]);
+
+    return {
+        floorHolder,
+        isChannelBusy: !!floorHolder && floorHolder !== peerId,
+        requestFloor,
+        releaseFloor,
+        noteTransmissionFrom,
+        onFloorFreeRef,
+    };
+};
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_ICE_SERVERS, fetchIceServers, getIceRefreshDelay } from '@/lib/iceServers';
+import { withDeviceCredential } from '@/lib/deviceCredentialClient';
+
+// Retry sooner when the endpoint is down
+const ICE_RETRY_DELAY = 30 * 1000;
+
+// ICE Servers Hook
+// Fetches STUN/TURN servers from the server and refreshes them before the TURN credentials expire.
+// Until the device is registered the endpoint refuses, so this keeps the default STUN servers and retries.
+export const useIceServers = (endpoint: string = '/api/turn') => {
+    const [iceServers, setIceServers] = useState<RTCIceServer[]>(DEFAULT_ICE_SERVERS);
+
+    useEffect(() => {
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        const load = async () => {
+            let nextDelay: number | null;
+            try {
+                const { iceServers: servers, expiresAt } = await fetchIceServers(endpoint, withDeviceCredential());
+                if (cancelled) return;
+                setIceServers(servers);
+                nextDelay = getIceRefreshDelay(expiresAt);
+            } catch (error) {
+                if (cancelled) return;
+                console.warn('Failed to fetch ICE servers, keeping current list:', error);
+                nextDelay = ICE_RETRY_DELAY;
+            }
+            if (nextDelay !== null) {
+                timer = setTimeout(load, nextDelay);
+            }
+        };
+        load();
+
+        return () => {
+            cancelled = true;
+            if (timer) clearTimeout(timer);
+        };
+    }, [endpoint]);
+
+    return iceServers;
+};
@@ -1,5 +1,10 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { requestForToken, onMessageListener } from "../lib/firebase";
+import { getStoredTokenSavedAt, loadStoredToken, saveStoredToken } from "../lib/tokenStorage";
+import { getRenewalDelay, getTokenPolicy } from "../lib/tokenPolicy";
+import { TokenCheck, tokenService } from "../lib/tokenService";
+
+const tokenPolicy = getTokenPolicy();
 
 // Token Manager Hook
 // Provides comprehensive token management with automatic renewal, validation, and real-time updates
@@ -13,63 +18,46 @@ export const useTokenManager = () => {
     const renewalTimerRef = useRef<NodeJS.Timeout | null>(null);
     const validationTimerRef = useRef<NodeJS.Timeout | null>(null);
 
-    // Encryption key (in production, use a secure key management system)
-    const encryptionKey = "walkie-lazy-token-key";
-
-    // Helper functions
-    const encryptToken = (token: string): string => {
-        // Simple XOR encryption for demonstration (replace with proper encryption in production)
-        return token.split('').map((char, index) => {
-            return String.fromCharCode(char.charCodeAt(0) ^ encryptionKey.charCodeAt(index % encryptionKey.length));
-        }).join('');
-    };
-
-    const decryptToken = (encryptedToken: string): string => {
-        // XOR decryption (same as encryption for XOR)
-        return encryptedToken.split('').map((char, index) => {
-            return String.fromCharCode(char.charCodeAt(0) ^ encryptionKey.charCodeAt(index % encryptionKey.length));
-        }).join('');
-    };
-
-    const saveTokenToStorage = (token: string | null) => {
-        if (token) {
-            const encryptedToken = encryptToken(token);
-            localStorage.setItem("walkie_token", encryptedToken);
-            localStorage.setItem("walkie_token_saved_at", Date.now().toString());
-        } else {
-            localStorage.removeItem("walkie_token");
-            localStorage.removeItem("walkie_token_saved_at");
-        }
-    };
-
-    const getTokenFromStorage = (): string | null => {
-        const encryptedToken = localStorage.getItem("walkie_token");
-        if (!encryptedToken) return null;
+    // Storage is shared with lib/firebase (AES-GCM encrypted, see lib/tokenStorage)
+    const saveTokenToStorage = saveStoredToken;
 
+    const getTokenFromStorage = async (): Promise<string | null> => {
         try {
-            return decryptToken(encryptedToken);
+            return await loadStoredToken();
         } catch (error) {
-            console.error("Failed to decrypt token from storage", error);
+            console.error("Failed to read token from storage", error);
             return null;
         }
     };
 
-    const isTokenExpired = (token: string): boolean => {
-        // In a real implementation, you would parse the JWT and check the exp claim
-        // For now, we'll use a simple timestamp-based expiration
-        const savedAt = localStorage.getItem("walkie_token_saved_at");
-        if (!savedAt) return true;
-
-        const tokenAge = Date.now() - parseInt(savedAt);
-        const expirationTime = 24 * 60 * 60 * 1000; // 24 hours for demo
-
-        return tokenAge > expirationTime;
+    // Ask the shared token service; an offline answer also tells us about the connection
+    const checkToken = async (token: string): Promise<TokenCheck> => {
+        const check = await tokenService.check(token);
+        if (check.status === 'offline') {
+            setConnectionStatus('offline');
+        }
+        return check;
     };
 
     const validateToken = async (token: string): Promise<boolean> => {
-        // In a real implementation, you would call your backend API to validate the token
-        // For now, we'll assume the token is valid if it's not expired
-        return !isTokenExpired(token);
+        return (await checkToken(token)).valid;
+    };
+
+    // Renew `renewBeforeMs` ahead of the expiry the server reported, or ahead of the local estimate without one
+    const scheduleRenewal = (expiresAt: number | null) => {
+        const savedAt = getStoredTokenSavedAt() ?? Date.now();
+        const renewalTime = getRenewalDelay(tokenPolicy, expiresAt ?? savedAt + tokenPolicy.lifetimeMs);
+
+        if (renewalTimerRef.current) {
+            clearTimeout(renewalTimerRef.current);
+            renewalTimerRef.current = null;
+        }
+        // Already inside the renewal window: renewing again would loop, so leave it to validation
+        if (renewalTime === 0) return;
+
+        renewalTimerRef.current = setTimeout(() => {
+            refreshToken();
+        }, renewalTime);
     };
 
     const refreshToken = async (): Promise<string | null> => {
@@ -80,17 +68,11 @@ export const useTokenManager = () => {
             if (newToken) {
                 setToken(newToken);
                 setIsTokenValid(true);
-                saveTokenToStorage(newToken);
+                await saveTokenToStorage(newToken);
                 console.log("Token refreshed successfully");
 
-                // Schedule next renewal (5 minutes before expiration)
-                const renewalTime = 24 * 60 * 60 * 1000 - 5 * 60 * 1000; // 5 minutes before expiration
-                if (renewalTimerRef.current) {
-                    clearTimeout(renewalTimerRef.current);
-                }
-                renewalTimerRef.current = setTimeout(() => {
-                    refreshToken();
-                }, renewalTime);
+                // Schedule next renewal
+                scheduleRenewal((await checkToken(newToken)).expiresAt);
 
                 return newToken;
             } else {
@@ -110,30 +92,31 @@ export const useTokenManager = () => {
 
         try {
             // Check for existing token in storage
-            const storedToken = getTokenFromStorage();
+            const storedToken = await getTokenFromStorage();
 
             if (storedToken) {
                 console.log("Found stored token, validating...");
-                const isValid = await validateToken(storedToken);
+                const check = await checkToken(storedToken);
 
-                if (isValid) {
+                if (check.valid) {
                     console.log("Stored token is valid");
                     setToken(storedToken);
                     setIsTokenValid(true);
 
-                    // Schedule renewal if token is close to expiration
-                    const renewalTime = 24 * 60 * 60 * 1000 - 5 * 60 * 1000; // 5 minutes before expiration
-                    if (renewalTimerRef.current) {
-                        clearTimeout(renewalTimerRef.current);
-                    }
-                    renewalTimerRef.current = setTimeout(() => {
-                        refreshToken();
-                    }, renewalTime);
+                    // Schedule renewal ahead of expiration
+                    scheduleRenewal(check.expiresAt);
 
+                    return;
+                } else if (check.status !== 'invalid') {
+                    // The server couldn't vouch for it either way; keep the token rather than replace it blind
+                    console.log(`Stored token could not be validated (${check.status})`);
+                    setToken(storedToken);
+                    setIsTokenValid(false);
+                    setError(check.message || "Token validation unavailable");
                     return;
                 } else {
                     console.log("Stored token is invalid or expired");
-                    saveTokenToStorage(null);
+                    await saveTokenToStorage(null);
                 }
             }
 
@@ -144,17 +127,11 @@ export const useTokenManager = () => {
             if (newToken) {
                 setToken(newToken);
                 setIsTokenValid(true);
-                saveTokenToStorage(newToken);
+                await saveTokenToStorage(newToken);
                 console.log("New token obtained successfully");
 
                 // Schedule next renewal
-                const renewalTime = 24 * 60 * 60 * 1000 - 5 * 60 * 1000; // 5 minutes before expiration
-                if (renewalTimerRef.current) {
-                    clearTimeout(renewalTimerRef.current);
-                }
-                renewalTimerRef.current = setTimeout(() => {
-                    refreshToken();
-                }, renewalTime);
+                scheduleRenewal((await checkToken(newToken)).expiresAt);
             } else {
                 console.log("No token available");
                 setToken(null);
@@ -177,7 +154,7 @@ export const useTokenManager = () => {
             if (isValid) {
                 setToken(newToken);
                 setIsTokenValid(true);
-                saveTokenToStorage(newToken);
+                await saveTokenToStorage(newToken);
                 console.log("Token updated successfully");
 
                 // Clear previous error
@@ -198,6 +175,7 @@ export const useTokenManager = () => {
         setToken(null);
         setIsTokenValid(false);
         saveTokenToStorage(null);
+        tokenService.forget();
         console.log("Token invalidated");
     }, []);
 
@@ -270,8 +248,9 @@ export const useTokenManager = () => {
         const validationInterval = setInterval(async () => {
             if (token && isTokenValid) {
                 try {
-                    const isValid = await validateToken(token);
-                    if (!isValid) {
+                    // Only a definite answer from the server; offline or timed-out checks don't cost the token
+                    const check = await checkToken(token);
+                    if (check.status === 'invalid') {
                         console.log("Token validation failed, invalidating token");
                         invalidateToken();
                     }
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    TransmissionRecord,
+    clearTransmissions,
+    deleteTransmission,
+    listTransmissions,
+    saveTransmission,
+} from '@/lib/transmissionHistory';
+
+// Transmission History Hook
+// Keeps the IndexedDB history in React state and plays entries back on demand
+export const useTransmissionHistory = () => {
+    const [history, setHistory] = useState<TransmissionRecord[]>([]);
+    const [replayingId, setReplayingId] = useState<string | null>(null);
+    const playerRef = useRef<HTMLAudioElement | null>(null);
+    const playerUrlRef = useRef<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setHistory(await listTransmissions());
+        } catch (error) {
+            console.error('Failed to load transmission history:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        listTransmissions()
+            .then(setHistory)
+            .catch(error => console.error('Failed to load transmission history:', error));
+    }, []);
+
+    const addTransmission = useCallback(async (record: TransmissionRecord) => {
+        try {
+            await saveTransmission(record);
+            await refresh();
+        } catch (error) {
+            console.error('Failed to save transmission:', error);
+        }
+    }, [refresh]);
+
+    const stopReplay = useCallback(() => {
+        if (playerRef.current) {
+            playerRef.current.pause();
+            playerRef.current = null;
+        }
+        if (playerUrlRef.current) {
+            URL.revokeObjectURL(playerUrlRef.current);
+            playerUrlRef.current = null;
+        }
+        setReplayingId(null);
+    }, []);
+
+    const replayTransmission = useCallback((id: string) => {
+        const record = history.find(entry => entry.id === id);
+        if (!record) return;
+
+        stopReplay();
+        const url = URL.createObjectURL(record.audio);
+        const player = new Audio(url);
+        playerRef.current = player;
+        playerUrlRef.current = url;
+        setReplayingId(id);
+
+        player.onended = stopReplay;
+        player.play().catch(error => {
+            console.error('Replay blocked:', error);
+            stopReplay();
+        });
+    }, [history, stopReplay]);
+
+    const removeTransmission = useCallback(async (id: string) => {
+        if (replayingId === id) stopReplay();
+        try {
+            await deleteTransmission(id);
+            await refresh();
+        } catch (error) {
+            console.error('Failed to delete transmission:', error);
+        }
+    }, [replayingId, stopReplay, refresh]);
+
+    const clearHistory = useCallback(async () => {
+        stopReplay();
+        try {
+            await clearTransmissions();
+            setHistory([]);
+        } catch (error) {
+            console.error('Failed to clear transmission history:', error);
+        }
+    }, [stopReplay]);
+
+    // Release the player on unmount
+    useEffect(() => stopReplay, [stopReplay]);
+
+    return {
+        history,
+        replayingId,
+        addTransmission,
+        replayTransmission,
+        stopReplay,
+        removeTransmission,
+        clearHistory,
+    };
+};
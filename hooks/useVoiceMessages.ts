@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { TransmissionRecord } from '@/lib/transmissionHistory';
+import {
+    PendingVoiceMessage,
+    acknowledgeVoiceMessage,
+    downloadVoiceMessage,
+    listPendingVoiceMessages,
+} from '@/lib/voiceMessageClient';
+
+// Voice Messages Hook
+// Pulls store-and-forward clips addressed to this device, files them into the
+// history and plays them back in the order they were recorded
+export const useVoiceMessages = (
+    fcmToken: string | null,
+    addTransmission: (record: TransmissionRecord) => Promise<void>
+) => {
+    // Message IDs already fetched this session (FCM and the open-time sweep can race)
+    const seenRef = useRef<Set<string>>(new Set());
+    const queueRef = useRef<Blob[]>([]);
+    const playerRef = useRef<HTMLAudioElement | null>(null);
+
+    const playNext = useCallback(() => {
+        const step = () => {
+            if (playerRef.current) return;
+            const next = queueRef.current.shift();
+            if (!next) return;
+
+            const url = URL.createObjectURL(next);
+            const player = new Audio(url);
+            playerRef.current = player;
+            const finish = () => {
+                URL.revokeObjectURL(url);
+                playerRef.current = null;
+                step();
+            };
+            player.onended = finish;
+            player.play().catch(error => {
+                // Autoplay is usually blocked until the first tap; the clip stays in the RX log
+                console.warn('Voice message autoplay blocked:', error);
+                queueRef.current = [];
+                finish();
+            });
+        };
+        step();
+    }, []);
+
+    const receive = useCallback(async (message: PendingVoiceMessage, token: string) => {
+        if (seenRef.current.has(message.id)) return;
+        seenRef.current.add(message.id);
+
+        try {
+            const audio = await downloadVoiceMessage(message.id, token);
+            const timestamp = message.createdAt ? new Date(message.createdAt).getTime() : Date.now();
+            await addTransmission({
+                id: `vm-${message.id}`,
+                sender: message.from,
+                channel: message.channel || 'DIRECT',
+                timestamp,
+                duration: message.duration,
+                mimeType: message.contentType,
+                audio,
+            });
+            await acknowledgeVoiceMessage(message.id, token);
+
+            queueRef.current.push(audio);
+            playNext();
+        } catch (error) {
+            // Leave it on the server so the next sweep retries
+            seenRef.current.delete(message.id);
+            console.error('Failed to receive voice message:', error);
+        }
+    }, [addTransmission, playNext]);
+
+    // Fetch everything waiting for this device
+    const fetchPending = useCallback(async () => {
+        if (!fcmToken) return;
+        try {
+            const pending = await listPendingVoiceMessages(fcmToken);
+            for (const message of pending) {
+                await receive(message, fcmToken);
+            }
+        } catch (error) {
+            console.error('Failed to fetch pending voice messages:', error);
+        }
+    }, [fcmToken, receive]);
+
+    // Sweep once the device's FCM token is known, i.e. when the app is opened
+    useEffect(() => {
+        fetchPending();
+    }, [fetchPending]);
+
+    // Stop playback on unmount
+    useEffect(() => () => {
+        queueRef.current = [];
+        if (playerRef.current) {
+            playerRef.current.pause();
+            playerRef.current = null;
+        }
+    }, []);
+
+    return { fetchPendingVoiceMessages: fetchPending };
+};
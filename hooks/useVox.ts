@@ -0,0 +1,90 @@
+import { MutableRefObject, useEffect, useRef, useState } from 'react';
+import {
+    VOX_SAMPLE_INTERVAL,
+    VoxSettings,
+    computeRmsLevel,
+    initialVoxGateState,
+    updateVoxGate,
+} from '@/lib/vox';
+
+// VOX Hook
+// Meters the persistent mic stream with an AnalyserNode and calls onOpen / onClose
+// as the level crosses the threshold and falls silent for the hangover
+export const useVox = (
+    streamRef: MutableRefObject<MediaStream | null>,
+    settings: VoxSettings,
+    onOpen: () => void,
+    onClose: () => void
+) => {
+    const [voxLevel, setVoxLevel] = useState(0);
+    const [isVoxOpen, setIsVoxOpen] = useState(false);
+    // Latest settings and callbacks, readable from the sampling interval
+    const settingsRef = useRef(settings);
+    const onOpenRef = useRef(onOpen);
+    const onCloseRef = useRef(onClose);
+
+    useEffect(() => {
+        settingsRef.current = settings;
+        onOpenRef.current = onOpen;
+        onCloseRef.current = onClose;
+    });
+
+    useEffect(() => {
+        if (!settings.enabled) return;
+
+        let context: AudioContext | null = null;
+        let meterTrack: MediaStreamTrack | null = null;
+        let analyser: AnalyserNode | null = null;
+        let samples: Float32Array<ArrayBuffer> | null = null;
+        let gate = initialVoxGateState;
+
+        // The mic is acquired asynchronously on mount, so attach once it's available
+        const attach = () => {
+            const track = streamRef.current?.getAudioTracks()[0];
+            if (!track) return false;
+
+            // Meter a clone: the original track stays disabled between transmissions
+            meterTrack = track.clone();
+            meterTrack.enabled = true;
+            context = new AudioContext();
+            analyser = context.createAnalyser();
+            analyser.fftSize = 1024;
+            context.createMediaStreamSource(new MediaStream([meterTrack])).connect(analyser);
+            samples = new Float32Array(analyser.fftSize);
+            return true;
+        };
+
+        const interval = setInterval(() => {
+            if (!analyser && !attach()) return;
+            if (context?.state === 'suspended') {
+                context.resume().catch(() => { /* needs a user gesture first */ });
+            }
+
+            analyser!.getFloatTimeDomainData(samples!);
+            const level = computeRmsLevel(samples!);
+            setVoxLevel(level);
+
+            const next = updateVoxGate(gate, level, Date.now(), settingsRef.current);
+            if (next.open !== gate.open) {
+                setIsVoxOpen(next.open);
+                if (next.open) {
+                    onOpenRef.current();
+                } else {
+                    onCloseRef.current();
+                }
+            }
+            gate = next;
+        }, VOX_SAMPLE_INTERVAL);
+
+        return () => {
+            clearInterval(interval);
+            if (gate.open) onCloseRef.current();
+            meterTrack?.stop();
+            (context as AudioContext | null)?.close().catch(() => { /* ignore */ });
+            setVoxLevel(0);
+            setIsVoxOpen(false);
+        };
+    }, [settings.enabled, streamRef]);
+
+    return { voxLevel, isVoxOpen };
+};
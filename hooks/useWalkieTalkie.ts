@@ -1,20 +1,62 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import Peer, { MediaConnection } from 'peerjs';
-
-export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmToken: string) => {
+import { useChannelMembership } from './useChannelMembership';
+import { useFloorControl } from './useFloorControl';
+import { useTransmissionHistory } from './useTransmissionHistory';
+import { useVoiceMessages } from './useVoiceMessages';
+import { useVox } from './useVox';
+import { useIceServers } from './useIceServers';
+import { DEFAULT_E2EE_OPTIONS, E2eeOptions, useE2ee } from './useE2ee';
+import { ActiveRecording, startStreamRecording } from '@/lib/streamRecorder';
+import { uploadVoiceMessage } from '@/lib/voiceMessageClient';
+import { DEFAULT_VOX_SETTINGS, VoxSettings } from '@/lib/vox';
+import { applyIceServers, buildPeerOptions, enableEncodedInsertableStreams } from '@/lib/peerConfig';
+import { attachFrameCryptor } from '@/lib/e2ee';
+import { withDeviceCredential } from '@/lib/deviceCredentialClient';
+
+// Transmissions shorter than this are PTT blips, not worth keeping
+const MIN_RECORDED_DURATION = 300;
+// An outgoing call leg that hasn't connected by then counts as failed
+const CALL_CONNECT_TIMEOUT = 8000;
+
+export type PingResult = 'sent' | 'target-gone' | 'unavailable' | 'failed';
+
+export const useWalkieTalkie = (peerId: string, channelId: string, remoteFcmToken: string, voxSettings: VoxSettings = DEFAULT_VOX_SETTINGS,
+    e2eeOptions: E2eeOptions = DEFAULT_E2EE_OPTIONS) => {
     const [peer, setPeer] = useState<Peer | null>(null);
     const [peerConnected, setPeerConnected] = useState(false);
     const [fcmToken, setFcmToken] = useState<string | null>(null);
     const [isIncomingCall, setIsIncomingCall] = useState(false);
+    const [isQueued, setIsQueued] = useState(false);
+    const [isRecordingMessage, setIsRecordingMessage] = useState(false);
+    const { members: channelMembers, membersRef: channelMembersRef } = useChannelMembership(channelId, peerId, peerConnected);
+    const { floorHolder, isChannelBusy, requestFloor, releaseFloor, noteTransmissionFrom, onFloorFreeRef } = useFloorControl(peer, peerId, channelId, channelMembers);
+    const { history, replayingId, addTransmission, replayTransmission, stopReplay, removeTransmission, clearHistory } = useTransmissionHistory();
+    const { fetchPendingVoiceMessages } = useVoiceMessages(fcmToken, addTransmission);
+    const iceServers = useIceServers();
+    const { e2eeSupport, e2eeStatus, incomingE2ee, setIncomingE2ee, outgoingE2ee, setOutgoingE2ee, getOutgoingKey, getIncomingKey } = useE2ee(e2eeOptions);
 
     const audioRef = useRef<HTMLAudioElement | null>(null);
-    // Outgoing: mic stream + call
+    // Outgoing: mic stream + one call per channel member
     const streamRef = useRef<MediaStream | null>(null);
-    const callRef = useRef<MediaConnection | null>(null);
+    const callsRef = useRef<Map<string, MediaConnection>>(new Map());
+    // Outgoing voice message, recorded alongside each transmission and sent if no call leg connects
+    const outgoingRecordingRef = useRef<ActiveRecording | null>(null);
+    // Whether any leg of the current transmission connected, and how many are still undecided
+    const outgoingDeliveryRef = useRef<{ delivered: boolean; pendingLegs: number } | null>(null);
+    // Latest channel, readable from PeerJS callbacks registered on mount
+    const channelIdRef = useRef(channelId);
     // Incoming
     const incomingCallRef = useRef<MediaConnection | null>(null);
+    const incomingRecordingRef = useRef<{ recording: ActiveRecording; sender: string; channel: string } | null>(null);
     // Track if we're currently transmitting
     const isTalkingRef = useRef(false);
+    // PTT is held but another station has the floor
+    const isQueuedRef = useRef(false);
+    // The current transmission was opened by VOX rather than PTT
+    const isVoxTransmissionRef = useRef(false);
+    // Latest pending-message sweep, readable from the FCM listener registered on mount
+    const fetchPendingRef = useRef(fetchPendingVoiceMessages);
 
     // Show browser notification + vibrate (only from FCM/sendPing)
     const showIncomingNotification = (message?: string) => {
@@ -45,9 +87,16 @@ export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmT
             // We do NOT set streamRef.current to null or call track.stop(),
             // so the persistent mic stream stays alive for the next PTT press.
         }
-        if (callRef.current) {
-            try { callRef.current.close(); } catch (e) { /* ignore */ }
-            callRef.current = null;
+        // Closing the legs below must not count as failed deliveries
+        outgoingDeliveryRef.current = null;
+        callsRef.current.forEach(call => {
+            try { call.close(); } catch (e) { /* ignore */ }
+        });
+        callsRef.current.clear();
+        // Discard any voice message that wasn't sent via stopTalking
+        if (outgoingRecordingRef.current) {
+            outgoingRecordingRef.current.stop();
+            outgoingRecordingRef.current = null;
         }
     }, []);
 
@@ -61,8 +110,38 @@ export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmT
             audioRef.current.pause();
             audioRef.current.srcObject = null;
         }
+        // Finish the recording and file it into the history
+        const incoming = incomingRecordingRef.current;
+        if (incoming) {
+            incomingRecordingRef.current = null;
+            incoming.recording.stop().then(recording => {
+                if (!recording || recording.duration < MIN_RECORDED_DURATION) return;
+                addTransmission({
+                    id: `${incoming.sender}-${recording.startedAt}`,
+                    sender: incoming.sender,
+                    channel: incoming.channel,
+                    timestamp: recording.startedAt,
+                    duration: recording.duration,
+                    mimeType: recording.mimeType,
+                    audio: recording.blob,
+                });
+            });
+        }
         setIsIncomingCall(false);
-    }, []);
+    }, [addTransmission]);
+
+    useEffect(() => {
+        channelIdRef.current = channelId;
+    }, [channelId]);
+
+    useEffect(() => {
+        fetchPendingRef.current = fetchPendingVoiceMessages;
+    }, [fetchPendingVoiceMessages]);
+
+    // Keep the Peer's ICE servers (and TURN credentials) current
+    useEffect(() => {
+        if (peer) applyIceServers(peer, iceServers);
+    }, [peer, iceServers]);
 
     useEffect(() => {
         // Listen for foreground FCM messages
@@ -73,6 +152,9 @@ export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmT
             const { onMessage } = await import('firebase/messaging');
             unsubscribe = onMessage(msg, (payload) => {
                 console.log("Transmission signal received:", payload);
+                if (payload?.data?.type === 'voice_message') {
+                    fetchPendingRef.current();
+                }
                 setIsIncomingCall(true);
                 showIncomingNotification(payload?.notification?.body || payload?.data?.message);
             });
@@ -81,7 +163,8 @@ export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmT
 
         // Initialize PeerJS
         if (!peerId) return;
-        const newPeer = new Peer(peerId);
+        const newPeer = new Peer(peerId, buildPeerOptions());
+        if (e2eeSupport === 'encoded-streams') enableEncodedInsertableStreams(newPeer);
 
         newPeer.on('open', (id) => {
             console.log('PeerJS connected. ID:', id);
@@ -102,13 +185,37 @@ export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmT
         newPeer.on('call', (call) => {
             console.log("Incoming call from:", call.peer);
 
+            // Ignore transmissions meant for a channel we're no longer tuned to
+            if (call.metadata?.channel !== channelIdRef.current) {
+                console.log("Rejecting call for channel:", call.metadata?.channel);
+                call.close();
+                return;
+            }
+
+            // An encrypted transmission we hold no key for would only play as noise
+            const keyId: string | undefined = call.metadata?.e2eeKeyId;
+            const incomingKey = keyId ? getIncomingKey(keyId, call.peer) : null;
+            if (keyId && (!incomingKey || !e2eeSupport)) {
+                console.warn("Rejecting encrypted call we can't decrypt from:", call.peer);
+                setIncomingE2ee('undecryptable');
+                call.close();
+                return;
+            }
+
             // Clean up any previous incoming call first
             cleanupIncoming();
 
             setIsIncomingCall(true);
+            setIncomingE2ee(incomingKey ? 'encrypted' : 'plain');
+            noteTransmissionFrom(call.peer);
             call.answer(); // Answer without sending our mic back
             incomingCallRef.current = call;
 
+            // Receivers only exist once the offer is applied; hook them before any frames arrive
+            call.peerConnection?.addEventListener('track', (event) => {
+                attachFrameCryptor(event.receiver, incomingKey?.key ?? null, 'decrypt', e2eeSupport);
+            });
+
             // Failsafe for PeerJS close bug
             const checkClose = () => {
                 console.log("Connection closed/failed on incoming stream");
@@ -142,6 +249,18 @@ export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmT
                     };
                 });
 
+                // Capture the transmission for the replay history
+                if (!incomingRecordingRef.current) {
+                    const recording = startStreamRecording(remoteStream);
+                    if (recording) {
+                        incomingRecordingRef.current = {
+                            recording,
+                            sender: call.peer,
+                            channel: call.metadata?.channel ?? channelIdRef.current,
+                        };
+                    }
+                }
+
                 if (audioRef.current) {
                     audioRef.current.srcObject = remoteStream;
                     audioRef.current.play().catch(e => {
@@ -179,11 +298,21 @@ export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmT
                 streamRef.current = null;
             }
         }
-    }, [peerId, cleanupOutgoing, cleanupIncoming]);
+    }, [peerId, cleanupOutgoing, cleanupIncoming, noteTransmissionFrom, e2eeSupport, getIncomingKey, setIncomingE2ee]);
+
+    // Retry a queued transmission as soon as the floor frees up
+    useEffect(() => {
+        onFloorFreeRef.current = () => {
+            if (isQueuedRef.current) {
+                console.log("Floor released — retrying queued transmission.");
+                startTalking();
+            }
+        };
+    });
 
     const startTalking = async () => {
-        if (!peer || !remotePeerId) {
-            console.warn("Cannot transmit: set LOCAL_FREQ and TARGET_FREQ first.");
+        if (!peer || !channelId) {
+            console.warn("Cannot transmit: set LOCAL_FREQ and CHANNEL_FREQ first.");
             return;
         }
         if (isTalkingRef.current) {
@@ -194,6 +323,24 @@ export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmT
         // Clean up any previous outgoing call just in case
         cleanupOutgoing();
         isTalkingRef.current = true;
+        isQueuedRef.current = false;
+        setIsQueued(false);
+
+        const floor = await requestFloor();
+
+        // Guard: Did the user release PTT while we were negotiating the floor?
+        if (!isTalkingRef.current) {
+            releaseFloor();
+            return;
+        }
+
+        if (floor === 'denied') {
+            console.warn("Channel busy — transmission queued until the floor is released.");
+            isTalkingRef.current = false;
+            isQueuedRef.current = true;
+            setIsQueued(true);
+            return;
+        }
 
         try {
             console.log("Mic ON — enabling track...");
@@ -210,55 +357,170 @@ export const useWalkieTalkie = (peerId: string, remotePeerId: string, remoteFcmT
                 if (streamRef.current) {
                     streamRef.current.getAudioTracks().forEach(track => track.enabled = false);
                 }
+                releaseFloor();
                 return;
             }
 
             // Enable the track!
             streamRef.current.getAudioTracks().forEach(track => track.enabled = true);
 
-            console.log("Transmitting to", remotePeerId);
-            const call = peer.call(remotePeerId, streamRef.current);
-            callRef.current = call;
+            // Record from the start, so the transmission can become a voice message for the paired device
+            // if nobody is online or no call leg connects
+            if (remoteFcmToken && remoteFcmToken.length >= 50) {
+                outgoingRecordingRef.current = startStreamRecording(streamRef.current);
+            }
 
-            // When the remote side closes, clean up our side too
-            call.on('close', () => {
-                console.log("Outgoing call closed by remote.");
-                cleanupOutgoing();
+            const members = channelMembersRef.current;
+            if (members.length === 0) {
+                if (outgoingRecordingRef.current) {
+                    console.log("No stations online — recording voice message.");
+                    setIsRecordingMessage(true);
+                } else {
+                    console.warn("No other stations on channel", channelId);
+                }
+                return;
+            }
+
+            const delivery = { delivered: false, pendingLegs: members.length };
+            outgoingDeliveryRef.current = delivery;
+
+            // Fan the transmission out to every member of the channel
+            console.log(`Transmitting on ${channelId} to`, members);
+            let sentPlain = false;
+            members.forEach(memberId => {
+                const key = getOutgoingKey(memberId);
+                if (!key && e2eeStatus === 'active') {
+                    console.warn("No E2EE key shared with", memberId, "— transmitting in plain.");
+                    sentPlain = true;
+                }
+                const metadata = key ? { channel: channelId, e2eeKeyId: key.keyId } : { channel: channelId };
+                const call = peer.call(memberId, streamRef.current!, { metadata });
+                call.peerConnection?.getSenders().forEach(sender => {
+                    attachFrameCryptor(sender, key?.key ?? null, 'encrypt', e2eeSupport);
+                });
+                callsRef.current.set(memberId, call);
+
+                // A leg connects, or fails, errors, is rejected or times out. Once every leg has failed,
+                // the transmission goes out as a voice message instead.
+                const timer = setTimeout(() => settleLeg(false), CALL_CONNECT_TIMEOUT);
+                let settled = false;
+                const settleLeg = (connected: boolean) => {
+                    if (settled) return;
+                    settled = true;
+                    clearTimeout(timer);
+                    if (outgoingDeliveryRef.current !== delivery) return;
+
+                    delivery.pendingLegs -= 1;
+                    if (connected) delivery.delivered = true;
+                    if (delivery.pendingLegs === 0 && !delivery.delivered && outgoingRecordingRef.current) {
+                        console.log("No station picked up — recording voice message.");
+                        setIsRecordingMessage(true);
+                    }
+                };
+                call.peerConnection?.addEventListener('connectionstatechange', () => {
+                    const state = call.peerConnection.connectionState;
+                    if (state === 'connected') settleLeg(true);
+                    else if (state === 'failed' || state === 'closed') settleLeg(false);
+                });
+                call.on('error', () => settleLeg(false));
+
+                // When a member hangs up, drop only their leg of the transmission
+                call.on('close', () => {
+                    settleLeg(false);
+                    console.log("Outgoing call closed by", memberId);
+                    if (callsRef.current.get(memberId) === call) {
+                        callsRef.current.delete(memberId);
+                    }
+                });
             });
+            if (e2eeStatus === 'active') setOutgoingE2ee(sentPlain ? 'plain' : 'encrypted');
         } catch (err: any) {
             if (err.name === 'NotAllowedError') {
                 alert("🔴 MIC ACCESS DENIED: Please enable microphone access in your browser settings.");
             }
             console.error("Mic access error:", err);
             isTalkingRef.current = false;
+            releaseFloor();
         }
     };
 
     const stopTalking = () => {
         console.log("Mic OFF — stopping transmission.");
+        isVoxTransmissionRef.current = false;
+        isQueuedRef.current = false;
+        setIsQueued(false);
+
+        const recording = outgoingRecordingRef.current;
+        outgoingRecordingRef.current = null;
+        const delivered = outgoingDeliveryRef.current?.delivered ?? false;
+        setIsRecordingMessage(false);
+
         cleanupOutgoing();
+        releaseFloor();
+
+        if (recording) {
+            recording.stop().then(async result => {
+                // A station heard it live; the recording was only a fallback
+                if (delivered || !result || result.duration < MIN_RECORDED_DURATION) return;
+                try {
+                    const messageId = await uploadVoiceMessage({
+                        recording: result,
+                        targetToken: remoteFcmToken,
+                        from: peerId,
+                        channel: channelId,
+                    });
+                    console.log("Voice message stored for offline delivery:", messageId);
+                } catch (error) {
+                    console.error("Voice message upload failed", error);
+                }
+            });
+        }
     };
 
-    const sendPing = async () => {
-        if (!remoteFcmToken || remoteFcmToken.length < 50) {
+    // VOX: open a transmission on voice, close it after the hangover.
+    // Never cuts off a transmission the user opened with PTT.
+    const { voxLevel, isVoxOpen } = useVox(streamRef, voxSettings, () => {
+        if (isTalkingRef.current || isQueuedRef.current) return;
+        isVoxTransmissionRef.current = true;
+        startTalking();
+    }, () => {
+        if (!isVoxTransmissionRef.current) return;
+        isVoxTransmissionRef.current = false;
+        stopTalking();
+    });
+
+    // 'target-gone': the remote's token was dropped by FCM and the user needs to pair again
+    const sendPing = async (): Promise<PingResult> => {
+        if (!remoteFcmToken || remoteFcmToken.length < 50 || !fcmToken) {
             console.error("Cannot ping: valid FCM token required.");
-            return;
+            return 'failed';
         }
         try {
-            await fetch('/api/notify', {
+            const response = await fetch('/api/notify', {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
+                headers: withDeviceCredential({ 'Content-Type': 'application/json' }),
                 body: JSON.stringify({
+                    sourceToken: fcmToken,
                     targetToken: remoteFcmToken,
                     message: `📡 ${peerId || 'Someone'} wanted to talk with u`
                 }),
             });
+            if (response.ok) return 'sent';
+
+            const { code } = await response.json().catch(() => ({}));
+            if (code === 'token_gone') return 'target-gone';
+            if (code === 'fcm_unavailable') return 'unavailable';
+            console.error("Ping failed", response.status);
+            return 'failed';
         } catch (error) {
             console.error("Ping failed", error);
+            return 'failed';
         }
     };
 
     const clearSignal = () => setIsIncomingCall(false);
 
-    return { startTalking, stopTalking, sendPing, clearSignal, audioRef, fcmToken, setFcmToken, isIncomingCall, peerConnected };
+    return { startTalking, stopTalking, sendPing, clearSignal, audioRef, fcmToken, setFcmToken, isIncomingCall, peerConnected, channelMembers, floorHolder, isChannelBusy, isQueued, isRecordingMessage,
+        voxLevel, isVoxTransmitting: isVoxOpen, e2eeStatus, incomingE2ee, outgoingE2ee,
+        history, replayingId, replayTransmission, stopReplay, removeTransmission, clearHistory };
 };
\ No newline at end of file
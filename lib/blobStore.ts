@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Pluggable binary storage for voice message clips.
+// Select the backend with BLOB_STORE (currently only "local"); cloud backends implement the same interface.
+
+export interface StoredBlob {
+    data: Buffer;
+    contentType: string;
+}
+
+export interface BlobStore {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<StoredBlob | null>;
+    delete(key: string): Promise<void>;
+}
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function isValidBlobKey(key: string): boolean {
+    return KEY_PATTERN.test(key);
+}
+
+function assertValidKey(key: string) {
+    if (!isValidBlobKey(key)) {
+        throw new Error(`Invalid blob key: ${key}`);
+    }
+}
+
+// Local filesystem store: each blob is `<key>.bin` with its content type in `<key>.json`
+export function createLocalFileBlobStore(rootDir: string): BlobStore {
+    const dataPath = (key: string) => path.join(rootDir, `${key}.bin`);
+    const metaPath = (key: string) => path.join(rootDir, `${key}.json`);
+
+    return {
+        async put(key, data, contentType) {
+            assertValidKey(key);
+            await fs.mkdir(rootDir, { recursive: true });
+            await fs.writeFile(dataPath(key), data);
+            await fs.writeFile(metaPath(key), JSON.stringify({ contentType }));
+        },
+
+        async get(key) {
+            assertValidKey(key);
+            try {
+                const [data, meta] = await Promise.all([
+                    fs.readFile(dataPath(key)),
+                    fs.readFile(metaPath(key), 'utf8'),
+                ]);
+                return { data, contentType: JSON.parse(meta).contentType || 'application/octet-stream' };
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+
+        async delete(key) {
+            assertValidKey(key);
+            await Promise.all([
+                fs.rm(dataPath(key), { force: true }),
+                fs.rm(metaPath(key), { force: true }),
+            ]);
+        },
+    };
+}
+
+let blobStore: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+    if (!blobStore) {
+        const backend = process.env.BLOB_STORE || 'local';
+        switch (backend) {
+            case 'local':
+                blobStore = createLocalFileBlobStore(
+                    process.env.VOICE_MESSAGE_DIR || path.join(process.cwd(), '.data', 'voice-messages')
+                );
+                break;
+            default:
+                throw new Error(`Unknown BLOB_STORE backend: ${backend}`);
+        }
+    }
+    return blobStore;
+}
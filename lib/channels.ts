@@ -0,0 +1,177 @@
+import admin from 'firebase-admin';
+import { getFirestore } from './firebaseInit';
+
+// Channel membership configuration
+const CHANNELS_COLLECTION = 'channels';
+const MEMBERS_SUBCOLLECTION = 'members';
+export const CHANNEL_MEMBER_TTL = 45 * 1000; // Members that stop heartbeating drop off after 45 seconds
+
+export interface ChannelMember {
+    peerId: string;
+    joinedAt: string | null;
+    lastSeen: string | null;
+}
+
+// Membership is kept per channel, and each entry belongs to the user whose device credential joined it.
+// Routes get the store from getChannelStore(); tests swap in the in-memory one with setChannelStore().
+export interface ChannelStore {
+    // Join, or refresh lastSeen if already a member (used as the heartbeat).
+    // Resolves to false if another user's device holds `peerId` on the channel.
+    join(channelId: string, peerId: string, userId: string): Promise<boolean>;
+    // Resolves to false if another user's device holds `peerId` on the channel
+    leave(channelId: string, peerId: string, userId: string): Promise<boolean>;
+    // Members that have heartbeated within CHANNEL_MEMBER_TTL
+    listMembers(channelId: string): Promise<ChannelMember[]>;
+}
+
+// Channel and peer IDs follow the PeerJS ID rules: alphanumeric at both ends, dashes/underscores inside
+const ID_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9_-]{0,62}[A-Za-z0-9])?$/;
+
+export function isValidChannelId(channelId: unknown): channelId is string {
+    return typeof channelId === 'string' && ID_PATTERN.test(channelId);
+}
+
+export function isValidPeerId(peerId: unknown): peerId is string {
+    return typeof peerId === 'string' && ID_PATTERN.test(peerId);
+}
+
+// Another user's entry is theirs while it is live; once stale (or if it predates ownership) anyone may take it over
+function isHeldByOther(owner: string | null, lastSeen: Date | null, userId: string, now: number): boolean {
+    return !!owner && owner !== userId && !!lastSeen && lastSeen.getTime() >= now - CHANNEL_MEMBER_TTL;
+}
+
+const toIso = (value: Date | null) => value?.toISOString() ?? null;
+
+const toDate = (value: unknown): Date | null =>
+    value instanceof admin.firestore.Timestamp ? value.toDate() : value instanceof Date ? value : null;
+
+export function createFirestoreChannelStore(): ChannelStore {
+    const firestore = () => {
+        const instance = getFirestore();
+        if (!instance) {
+            throw new Error('Firestore not available');
+        }
+        return instance;
+    };
+    const members = (channelId: string) =>
+        firestore().collection(CHANNELS_COLLECTION).doc(channelId).collection(MEMBERS_SUBCOLLECTION);
+
+    return {
+        async join(channelId, peerId, userId) {
+            const memberRef = members(channelId).doc(peerId);
+            return firestore().runTransaction(async (transaction) => {
+                const existing = (await transaction.get(memberRef)).data();
+                if (existing && isHeldByOther(existing.userId ?? null, toDate(existing.lastSeen), userId, Date.now())) {
+                    return false;
+                }
+
+                if (existing?.userId === userId) {
+                    transaction.update(memberRef, {
+                        lastSeen: admin.firestore.FieldValue.serverTimestamp(),
+                    });
+                } else {
+                    transaction.set(memberRef, {
+                        peerId,
+                        userId,
+                        joinedAt: admin.firestore.FieldValue.serverTimestamp(),
+                        lastSeen: admin.firestore.FieldValue.serverTimestamp(),
+                    });
+                }
+                return true;
+            });
+        },
+
+        async leave(channelId, peerId, userId) {
+            const memberRef = members(channelId).doc(peerId);
+            return firestore().runTransaction(async (transaction) => {
+                const existing = (await transaction.get(memberRef)).data();
+                if (existing && isHeldByOther(existing.userId ?? null, toDate(existing.lastSeen), userId, Date.now())) {
+                    return false;
+                }
+                if (existing) transaction.delete(memberRef);
+                return true;
+            });
+        },
+
+        async listMembers(channelId) {
+            const cutoff = new Date(Date.now() - CHANNEL_MEMBER_TTL);
+            const snapshot = await members(channelId)
+                .where('lastSeen', '>=', admin.firestore.Timestamp.fromDate(cutoff))
+                .get();
+
+            return snapshot.docs.map(doc => {
+                const data = doc.data();
+                return {
+                    peerId: data.peerId,
+                    joinedAt: toIso(toDate(data.joinedAt)),
+                    lastSeen: toIso(toDate(data.lastSeen)),
+                };
+            });
+        },
+    };
+}
+
+interface MemoryMember {
+    userId: string;
+    joinedAt: Date;
+    lastSeen: Date;
+}
+
+// Process-local store, for tests and local development without Firebase
+export function createMemoryChannelStore(now: () => number = Date.now): ChannelStore {
+    const channels = new Map<string, Map<string, MemoryMember>>();
+    const members = (channelId: string) => {
+        let channel = channels.get(channelId);
+        if (!channel) {
+            channel = new Map();
+            channels.set(channelId, channel);
+        }
+        return channel;
+    };
+
+    return {
+        async join(channelId, peerId, userId) {
+            const channel = members(channelId);
+            const existing = channel.get(peerId);
+            const time = new Date(now());
+            if (existing && isHeldByOther(existing.userId, existing.lastSeen, userId, time.getTime())) {
+                return false;
+            }
+            channel.set(peerId, existing?.userId === userId
+                ? { ...existing, lastSeen: time }
+                : { userId, joinedAt: time, lastSeen: time });
+            return true;
+        },
+
+        async leave(channelId, peerId, userId) {
+            const channel = members(channelId);
+            const existing = channel.get(peerId);
+            if (existing && isHeldByOther(existing.userId, existing.lastSeen, userId, now())) {
+                return false;
+            }
+            channel.delete(peerId);
+            return true;
+        },
+
+        async listMembers(channelId) {
+            const cutoff = now() - CHANNEL_MEMBER_TTL;
+            return [...members(channelId)]
+                .filter(([, member]) => member.lastSeen.getTime() >= cutoff)
+                .map(([peerId, member]) => ({ peerId, joinedAt: toIso(member.joinedAt), lastSeen: toIso(member.lastSeen) }));
+        },
+    };
+}
+
+let channelStore: ChannelStore | null = null;
+
+export function getChannelStore(): ChannelStore {
+    if (!channelStore) {
+        channelStore = createFirestoreChannelStore();
+    }
+    return channelStore;
+}
+
+// Swap the store, e.g. for an in-memory one in tests
+export function setChannelStore(store: ChannelStore | null) {
+    channelStore = store;
+}
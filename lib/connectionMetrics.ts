@@ -0,0 +1,142 @@
+import type { ConnectionMetrics } from '../types/connection';
+
+// Connection quality metrics derived from RTCPeerConnection.getStats()
+
+export const DEFAULT_METRICS_INTERVAL = 2000;
+
+// Cumulative counters from one getStats() poll, kept to compute per-interval rates
+export interface StatsSample {
+    timestamp: number;
+    bytes: number;
+    packetsLost: number;
+    packetsReceived: number;
+}
+
+// Loose view of the RTCStats dictionaries we read; fields vary by type and browser
+interface RtcStatsEntry {
+    type: string;
+    timestamp?: number;
+    kind?: string;
+    mediaType?: string;
+    state?: string;
+    nominated?: boolean;
+    currentRoundTripTime?: number;
+    roundTripTime?: number;
+    jitter?: number;
+    packetsLost?: number;
+    packetsReceived?: number;
+    bytesReceived?: number;
+    bytesSent?: number;
+}
+
+const isAudio = (stats: RtcStatsEntry) => (stats.kind ?? stats.mediaType ?? 'audio') === 'audio';
+
+// Approximate call quality (0-100) using the simplified ITU-T G.107 E-model
+export function computeQualityScore(rtt: number | null, jitter: number | null, packetLoss: number | null): number | null {
+    if (rtt === null && jitter === null && packetLoss === null) return null;
+
+    const effectiveLatency = (rtt ?? 0) / 2 + 2 * (jitter ?? 0) + 10;
+    let r = 93.2 - (effectiveLatency < 160 ? effectiveLatency / 40 : (effectiveLatency - 120) / 10);
+    r -= 2.5 * (packetLoss ?? 0);
+    return Math.round(Math.max(0, Math.min(100, r)));
+}
+
+// Turn a stats report (plus the previous sample) into metrics and the next sample
+export function deriveConnectionMetrics(
+    report: RTCStatsReport,
+    previous: StatsSample | null,
+    now: number = Date.now()
+): { metrics: ConnectionMetrics; sample: StatsSample } {
+    let rtt: number | null = null;
+    let jitter: number | null = null;
+    const sample: StatsSample = { timestamp: now, bytes: 0, packetsLost: 0, packetsReceived: 0 };
+
+    for (const value of report.values()) {
+        const stats = value as RtcStatsEntry;
+        switch (stats.type) {
+            case 'candidate-pair':
+                // The active pair has the most accurate RTT
+                if (stats.state === 'succeeded' && stats.nominated && stats.currentRoundTripTime !== undefined) {
+                    rtt = stats.currentRoundTripTime * 1000;
+                }
+                break;
+            case 'remote-inbound-rtp':
+                // Fallback RTT from RTCP receiver reports
+                if (rtt === null && isAudio(stats) && stats.roundTripTime !== undefined) {
+                    rtt = stats.roundTripTime * 1000;
+                }
+                break;
+            case 'inbound-rtp':
+                if (!isAudio(stats)) break;
+                if (stats.jitter !== undefined) {
+                    jitter = Math.max(jitter ?? 0, stats.jitter * 1000);
+                }
+                sample.packetsLost += Math.max(0, stats.packetsLost ?? 0);
+                sample.packetsReceived += stats.packetsReceived ?? 0;
+                sample.bytes += stats.bytesReceived ?? 0;
+                break;
+            case 'outbound-rtp':
+                if (isAudio(stats)) sample.bytes += stats.bytesSent ?? 0;
+                break;
+        }
+    }
+
+    // Rates need two samples; counters reset if the call was replaced
+    const hasPrevious = previous !== null && now > previous.timestamp && sample.bytes >= previous.bytes;
+
+    let bitrate: number | null = null;
+    if (hasPrevious) {
+        bitrate = Math.round(((sample.bytes - previous.bytes) * 8) / (now - previous.timestamp));
+    }
+
+    let packetLoss: number | null = null;
+    const lost = sample.packetsLost - (hasPrevious ? previous.packetsLost : 0);
+    const received = sample.packetsReceived - (hasPrevious ? previous.packetsReceived : 0);
+    if (lost + received > 0) {
+        packetLoss = Math.round((Math.max(0, lost) / (lost + received)) * 10000) / 100;
+    }
+
+    const roundedRtt = rtt === null ? null : Math.round(rtt);
+    const roundedJitter = jitter === null ? null : Math.round(jitter * 10) / 10;
+
+    return {
+        metrics: {
+            rtt: roundedRtt,
+            jitter: roundedJitter,
+            packetLoss,
+            bitrate,
+            quality: computeQualityScore(roundedRtt, roundedJitter, packetLoss),
+            timestamp: now,
+        },
+        sample,
+    };
+}
+
+// Poll getStats() on `peerConnection` until the returned stop function is called
+export function startMetricsCollector(
+    peerConnection: RTCPeerConnection,
+    onMetrics: (metrics: ConnectionMetrics) => void,
+    intervalMs: number = DEFAULT_METRICS_INTERVAL
+): () => void {
+    let previous: StatsSample | null = null;
+    let stopped = false;
+
+    const poll = async () => {
+        try {
+            const report = await peerConnection.getStats();
+            if (stopped) return;
+            const { metrics, sample } = deriveConnectionMetrics(report, previous);
+            previous = sample;
+            onMetrics(metrics);
+        } catch (error) {
+            console.warn('Failed to read connection stats:', error);
+        }
+    };
+
+    poll();
+    const interval = setInterval(poll, intervalMs);
+    return () => {
+        stopped = true;
+        clearInterval(interval);
+    };
+}
@@ -0,0 +1,37 @@
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import type { Contact } from './contacts';
+
+// Local contact list, stored in IndexedDB (includes tombstones for sync)
+const DB_NAME = 'walkie-contacts';
+const DB_VERSION = 1;
+const STORE_NAME = 'contacts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            }
+        }).catch(error => {
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+};
+
+export async function listStoredContacts(): Promise<Contact[]> {
+    const db = await getDb();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    return requestToPromise<Contact[]>(tx.objectStore(STORE_NAME).getAll());
+}
+
+export async function saveContacts(contacts: Contact[]): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    contacts.forEach(contact => store.put(contact));
+    await transactionDone(tx);
+}
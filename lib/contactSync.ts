@@ -0,0 +1,32 @@
+import admin from 'firebase-admin';
+import { getFirestore } from './firebaseInit';
+import type { Contact } from './contacts';
+
+// Server-side copy of each user's contact list, one Firestore document per userId
+const CONTACTS_COLLECTION = 'contacts';
+
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+export function isValidUserId(value: unknown): value is string {
+    return typeof value === 'string' && USER_ID_PATTERN.test(value);
+}
+
+function contactsCollection() {
+    const firestore = getFirestore();
+    if (!firestore) {
+        throw new Error('Firestore not available');
+    }
+    return firestore.collection(CONTACTS_COLLECTION);
+}
+
+export async function getSyncedContacts(userId: string): Promise<Contact[]> {
+    const doc = await contactsCollection().doc(userId).get();
+    return doc.exists ? (doc.data()?.contacts as Contact[] | undefined) ?? [] : [];
+}
+
+export async function saveSyncedContacts(userId: string, contacts: Contact[]): Promise<void> {
+    await contactsCollection().doc(userId).set({
+        contacts,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+}
@@ -0,0 +1,80 @@
+// Contacts: peers this device has paired with, kept locally and optionally synced per userId
+
+export const MAX_CONTACTS = 200;
+const MAX_NICKNAME_LENGTH = 40;
+
+export interface Contact {
+    id: string;
+    nickname: string;
+    peerId: string | null;
+    fcmToken: string;
+    lastSeen: number | null; // Last time the peer was seen on a channel (ms since epoch)
+    pairedAt: number;
+    updatedAt: number; // Used to resolve sync conflicts; newest write wins
+    deleted?: boolean; // Tombstone, so a removal also propagates through sync
+    e2eeSecret?: string; // Scanned from the peer's pairing QR; device-local, never synced
+}
+
+// Combine two copies of a contact list, keeping the most recently updated version of each entry
+export function mergeContacts(local: Contact[], remote: Contact[]): Contact[] {
+    const merged = new Map<string, Contact>();
+    for (const contact of [...remote, ...local]) {
+        const existing = merged.get(contact.id);
+        const winner = !existing || contact.updatedAt >= existing.updatedAt ? contact : existing;
+        // The server copy never carries the E2EE secret, so keep ours whichever copy wins
+        const e2eeSecret = contact.e2eeSecret ?? existing?.e2eeSecret;
+        merged.set(contact.id, e2eeSecret && !winner.e2eeSecret ? { ...winner, e2eeSecret } : winner);
+    }
+    return [...merged.values()];
+}
+
+// The live contact a fresh pairing refers to, matched by peer ID or FCM token
+export function findPairedContact(contacts: Contact[], peerId: string | null, fcmToken: string): Contact | undefined {
+    return contacts.find(contact => !contact.deleted && (contact.fcmToken === fcmToken || (peerId !== null && contact.peerId === peerId)));
+}
+
+// Live contacts, most recently seen (or paired) first
+export function sortContacts(contacts: Contact[]): Contact[] {
+    return contacts
+        .filter(contact => !contact.deleted)
+        .sort((a, b) => (b.lastSeen ?? b.pairedAt) - (a.lastSeen ?? a.pairedAt));
+}
+
+function isValidContact(value: unknown): value is Contact {
+    if (!value || typeof value !== 'object') return false;
+    const contact = value as Record<string, unknown>;
+    return typeof contact.id === 'string' && contact.id.length > 0 && contact.id.length <= 64 &&
+        typeof contact.nickname === 'string' && contact.nickname.length <= MAX_NICKNAME_LENGTH &&
+        (contact.peerId === null || typeof contact.peerId === 'string') &&
+        typeof contact.fcmToken === 'string' && contact.fcmToken.length >= 50 &&
+        (contact.lastSeen === null || typeof contact.lastSeen === 'number') &&
+        typeof contact.pairedAt === 'number' &&
+        typeof contact.updatedAt === 'number' &&
+        (contact.deleted === undefined || typeof contact.deleted === 'boolean');
+}
+
+// The contact without device-local fields, as uploaded for sync
+export function toSyncedContact({ id, nickname, peerId, fcmToken, lastSeen, pairedAt, updatedAt, deleted }: Contact): Contact {
+    return {
+        id,
+        nickname,
+        peerId,
+        fcmToken,
+        lastSeen,
+        pairedAt,
+        updatedAt,
+        ...(deleted ? { deleted: true } : {}),
+    };
+}
+
+// Validate an untrusted contact list (e.g. a sync upload), returning only the known fields
+export function sanitizeContacts(input: unknown): Contact[] | null {
+    if (!Array.isArray(input) || input.length > MAX_CONTACTS || !input.every(isValidContact)) {
+        return null;
+    }
+    return input.map(toSyncedContact);
+}
+
+export function clampNickname(nickname: string): string {
+    return nickname.trim().slice(0, MAX_NICKNAME_LENGTH);
+}
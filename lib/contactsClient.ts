@@ -0,0 +1,39 @@
+import type { Contact } from './contacts';
+import { withDeviceCredential } from './deviceCredentialClient';
+
+// Client for the contact sync API
+
+const USER_ID_KEY = 'walkie_user_id';
+
+// Random per-install ID that keys this device's synced contacts
+export function getOrCreateUserId(): string {
+    let userId = localStorage.getItem(USER_ID_KEY);
+    if (!userId) {
+        userId = crypto.randomUUID();
+        localStorage.setItem(USER_ID_KEY, userId);
+    }
+    return userId;
+}
+
+async function ensureOk(response: Response, action: string) {
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(`${action} failed: ${body.error || response.status}`);
+    }
+}
+
+export async function fetchSyncedContacts(userId: string): Promise<Contact[]> {
+    const response = await fetch(`/api/contacts?userId=${encodeURIComponent(userId)}`, { headers: withDeviceCredential() });
+    await ensureOk(response, 'Contact sync');
+    const { contacts } = await response.json();
+    return contacts;
+}
+
+export async function uploadSyncedContacts(userId: string, contacts: Contact[]): Promise<void> {
+    const response = await fetch('/api/contacts', {
+        method: 'PUT',
+        headers: withDeviceCredential({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ userId, contacts }),
+    });
+    await ensureOk(response, 'Contact upload');
+}
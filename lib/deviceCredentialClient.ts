@@ -0,0 +1,67 @@
+// Client side of device credentials: registers the FCM token and keeps the credential the server issues,
+// which token, pairing and notify requests send as a bearer credential
+
+const DEVICE_CREDENTIAL_KEY = 'walkie_device_credential';
+
+interface StoredDeviceCredential {
+    credential: string;
+    expiresAt: string;
+}
+
+export function getDeviceCredential(): string | null {
+    try {
+        const stored = JSON.parse(localStorage.getItem(DEVICE_CREDENTIAL_KEY) || 'null') as StoredDeviceCredential | null;
+        if (!stored || new Date(stored.expiresAt).getTime() <= Date.now()) return null;
+        return stored.credential;
+    } catch {
+        return null;
+    }
+}
+
+export function saveDeviceCredential(credential: string, expiresAt: string) {
+    const stored: StoredDeviceCredential = { credential, expiresAt };
+    localStorage.setItem(DEVICE_CREDENTIAL_KEY, JSON.stringify(stored));
+}
+
+export function clearDeviceCredential() {
+    localStorage.removeItem(DEVICE_CREDENTIAL_KEY);
+}
+
+// Request headers with the device credential attached, if we have one
+export function withDeviceCredential(headers: Record<string, string> = {}): Record<string, string> {
+    const credential = getDeviceCredential();
+    return credential ? { ...headers, Authorization: `Bearer ${credential}` } : headers;
+}
+
+// What the server keeps about this device alongside its token.
+// NEXT_PUBLIC_* variables must be referenced literally so Next.js can inline them.
+export function getDeviceMetadata(): Record<string, unknown> {
+    const userAgent = navigator.userAgent;
+    const isIOS = /iPad|iPhone|iPod/.test(userAgent) || (navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1);
+    const platform = isIOS ? 'ios' : /Android/.test(userAgent) ? 'android' : 'web';
+    const standalone = window.matchMedia('(display-mode: standalone)').matches
+        || (navigator as Navigator & { standalone?: boolean }).standalone === true;
+
+    return {
+        platform,
+        appVersion: process.env.NEXT_PUBLIC_APP_VERSION || 'unknown',
+        standalone,
+        userAgent,
+    };
+}
+
+// Register `token` for `userId` and keep the credential that comes back.
+// Re-registering (e.g. after a token refresh) authenticates with the current credential.
+export async function registerDevice(token: string, userId: string, metadata: Record<string, unknown> = {}): Promise<void> {
+    const response = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: withDeviceCredential({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ token, userId, metadata }),
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(`Device registration failed: ${body.error || response.status}`);
+    }
+    const { credential, credentialExpiresAt } = await response.json();
+    saveDeviceCredential(credential, credentialExpiresAt);
+}
@@ -0,0 +1,103 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+// Device credentials are issued on token registration and sent back as `Authorization: Bearer <credential>`.
+// Format: "v1.<base64url JSON claims>.<base64url HMAC-SHA256(DEVICE_CREDENTIAL_SECRET, "v1.<claims>")>".
+// Claims carry a hash of the FCM token rather than the token itself, so a leaked credential doesn't leak the token.
+
+export const DEFAULT_DEVICE_CREDENTIAL_TTL = 30 * 24 * 60 * 60; // 30 days, in seconds
+const CREDENTIAL_VERSION = 'v1';
+
+export interface DeviceCredentialClaims {
+    tokenHash: string;
+    userId: string;
+    issuedAt: number; // ms since epoch
+    expiresAt: number; // ms since epoch
+}
+
+export interface DeviceCredential {
+    credential: string;
+    expiresAt: number; // ms since epoch
+}
+
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+const sign = (secret: string, data: string) => createHmac('sha256', secret).update(data).digest('base64url');
+
+export function createDeviceCredential(
+    secret: string,
+    token: string,
+    userId: string,
+    ttlSeconds: number = DEFAULT_DEVICE_CREDENTIAL_TTL,
+    now: number = Date.now()
+): DeviceCredential {
+    const iat = Math.floor(now / 1000);
+    const exp = iat + ttlSeconds;
+    const payload = Buffer.from(JSON.stringify({ th: hashToken(token), uid: userId, iat, exp })).toString('base64url');
+    const signed = `${CREDENTIAL_VERSION}.${payload}`;
+    return { credential: `${signed}.${sign(secret, signed)}`, expiresAt: exp * 1000 };
+}
+
+// Claims of a well-formed, correctly signed and unexpired credential; null otherwise
+export function verifyDeviceCredential(secret: string, credential: string, now: number = Date.now()): DeviceCredentialClaims | null {
+    const parts = credential.split('.');
+    if (parts.length !== 3 || parts[0] !== CREDENTIAL_VERSION) return null;
+
+    const expected = Buffer.from(sign(secret, `${parts[0]}.${parts[1]}`));
+    const actual = Buffer.from(parts[2]);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const { th, uid, iat, exp } = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+        if (typeof th !== 'string' || typeof uid !== 'string' || typeof iat !== 'number' || typeof exp !== 'number') {
+            return null;
+        }
+        if (exp * 1000 <= now) return null;
+        return { tokenHash: th, userId: uid, issuedAt: iat * 1000, expiresAt: exp * 1000 };
+    } catch {
+        return null;
+    }
+}
+
+export function credentialMatchesToken(claims: DeviceCredentialClaims, token: string): boolean {
+    return claims.tokenHash === hashToken(token);
+}
+
+// Credential settings from DEVICE_CREDENTIAL_SECRET / DEVICE_CREDENTIAL_TTL; null when no secret is configured
+export function getDeviceCredentialConfig(): { secret: string; ttl: number } | null {
+    const secret = process.env.DEVICE_CREDENTIAL_SECRET;
+    if (!secret) return null;
+    return { secret, ttl: Number(process.env.DEVICE_CREDENTIAL_TTL) || DEFAULT_DEVICE_CREDENTIAL_TTL };
+}
+
+export const credentialsNotConfiguredResponse = () => NextResponse.json({
+    error: 'Server configuration error: device credentials not configured',
+    details: 'Set DEVICE_CREDENTIAL_SECRET in the server environment.'
+}, { status: 500 });
+
+export const credentialForbiddenResponse = (reason: string) =>
+    NextResponse.json({ error: reason }, { status: 403 });
+
+// Claims from the request's bearer credential, or the error response to return instead.
+// Fails closed: without a configured secret every request is rejected.
+export function authenticateDevice(request: Request, now: number = Date.now()): { claims: DeviceCredentialClaims } | { response: NextResponse } {
+    const config = getDeviceCredentialConfig();
+    if (!config) {
+        return { response: credentialsNotConfiguredResponse() };
+    }
+
+    const header = request.headers.get('authorization') || '';
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    if (!match) {
+        return { response: NextResponse.json({ error: 'Device credential required' }, { status: 401 }) };
+    }
+
+    const claims = verifyDeviceCredential(config.secret, match[1], now);
+    if (!claims) {
+        return { response: NextResponse.json({ error: 'Invalid or expired device credential' }, { status: 401 }) };
+    }
+
+    return { claims };
+}
@@ -0,0 +1,138 @@
+import { FrameOperation, createFrameCryptor } from './e2eeFrames';
+
+// End-to-end encryption of PTT audio frames.
+// Each device holds a random secret that it shares only inside its pairing QR (in the URL fragment,
+// which never reaches the server). Callers encrypt encoded Opus frames with a key derived from the
+// callee's secret if they scanned it, otherwise their own once the callee has shown it holds it; with
+// neither, the call goes out plain. The key ID travels in the call metadata so the callee can pick the
+// matching key. The frame format lives in e2eeFrames, shared with the worker.
+
+export const E2EE_SECRET_PARAM = 'k';
+const E2EE_SECRET_STORAGE_KEY = 'walkie_e2ee_secret';
+const E2EE_KEY_HOLDERS_STORAGE_KEY = 'walkie_e2ee_key_holders';
+
+export type E2eeSupport = 'script-transform' | 'encoded-streams' | null;
+
+export interface E2eeKey {
+    keyId: string;
+    key: CryptoKey;
+}
+
+// Chrome's pre-standard Insertable Streams API, not in lib.dom
+interface EncodedStreamsEndpoint {
+    createEncodedStreams(): { readable: ReadableStream<RTCEncodedAudioFrame>; writable: WritableStream<RTCEncodedAudioFrame> };
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> =>
+    Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+export function generateE2eeSecret(): string {
+    return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export function isValidE2eeSecret(value: unknown): value is string {
+    return typeof value === 'string' && /^[A-Za-z0-9_-]{43}$/.test(value);
+}
+
+// This device's secret, created on first use
+export function getOrCreateE2eeSecret(): string {
+    let secret = localStorage.getItem(E2EE_SECRET_STORAGE_KEY);
+    if (!isValidE2eeSecret(secret)) {
+        secret = generateE2eeSecret();
+        localStorage.setItem(E2EE_SECRET_STORAGE_KEY, secret);
+    }
+    return secret;
+}
+
+// Peers that sent us a transmission under our own key, which they can only have from scanning our QR
+export function getOwnKeyHolders(): Set<string> {
+    try {
+        const stored = JSON.parse(localStorage.getItem(E2EE_KEY_HOLDERS_STORAGE_KEY) || '[]');
+        return new Set(Array.isArray(stored) ? stored.filter((peerId): peerId is string => typeof peerId === 'string') : []);
+    } catch {
+        return new Set();
+    }
+}
+
+export function saveOwnKeyHolder(peerId: string) {
+    const holders = getOwnKeyHolders();
+    if (holders.has(peerId)) return;
+    holders.add(peerId);
+    localStorage.setItem(E2EE_KEY_HOLDERS_STORAGE_KEY, JSON.stringify([...holders]));
+}
+
+// Key for a call to a peer: the secret we scanned from them, else our own if they hold it.
+// null means they couldn't decrypt anything we send, so the call has to go out plain.
+export function selectOutgoingKey(scanned: E2eeKey | null, own: E2eeKey | null, remoteHoldsOwnKey: boolean): E2eeKey | null {
+    return scanned ?? (remoteHoldsOwnKey ? own : null);
+}
+
+// Derive the frame key and its public ID (a truncated hash, safe to send in call metadata)
+export async function deriveE2eeKey(secret: string): Promise<E2eeKey> {
+    const secretBytes = fromBase64Url(secret);
+    const baseKey = await crypto.subtle.importKey('raw', secretBytes, 'HKDF', false, ['deriveKey']);
+    const key = await crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode('walkie-e2ee'), info: encoder.encode('ptt-audio') },
+        baseKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', secretBytes));
+    const keyId = Array.from(digest.slice(0, 8), byte => byte.toString(16).padStart(2, '0')).join('');
+    return { keyId, key };
+}
+
+export function getE2eeSupport(): E2eeSupport {
+    if (typeof window === 'undefined') return null;
+    if ('RTCRtpScriptTransform' in window) return 'script-transform';
+    if (typeof RTCRtpSender !== 'undefined' && 'createEncodedStreams' in RTCRtpSender.prototype) return 'encoded-streams';
+    return null;
+}
+
+// Decrypt failures are reported from the worker and the main thread alike
+const decryptErrorListeners = new Set<() => void>();
+const notifyDecryptError = () => decryptErrorListeners.forEach(listener => listener());
+
+export function onFrameDecryptError(listener: () => void): () => void {
+    decryptErrorListeners.add(listener);
+    return () => {
+        decryptErrorListeners.delete(listener);
+    };
+}
+
+let worker: Worker | null = null;
+
+const getWorker = () => {
+    if (!worker) {
+        worker = new Worker(new URL('./e2eeWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event) => {
+            if (event.data?.type === 'decrypt_error') notifyDecryptError();
+        };
+    }
+    return worker;
+};
+
+// Route a sender's or receiver's encoded frames through the cryptor.
+// With the legacy API every endpoint of a flagged connection must be piped, so a null key passes frames through.
+export function attachFrameCryptor(
+    endpoint: RTCRtpSender | RTCRtpReceiver,
+    key: CryptoKey | null,
+    operation: FrameOperation,
+    support: E2eeSupport = getE2eeSupport()
+) {
+    if (support === 'script-transform') {
+        if (key) {
+            endpoint.transform = new RTCRtpScriptTransform(getWorker(), { operation, key });
+        }
+    } else if (support === 'encoded-streams') {
+        const { readable, writable } = (endpoint as unknown as EncodedStreamsEndpoint).createEncodedStreams();
+        const frames = key ? readable.pipeThrough(createFrameCryptor(key, operation, notifyDecryptError)) : readable;
+        frames.pipeTo(writable).catch(error => console.warn('Encoded frame pipe closed:', error));
+    }
+}
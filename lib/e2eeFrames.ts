@@ -0,0 +1,36 @@
+// Per-frame AES-GCM for encoded audio: `iv (12 bytes) || ciphertext`.
+// Kept free of DOM APIs so the RTCRtpScriptTransform worker can import it.
+
+const IV_LENGTH = 12;
+
+export type FrameOperation = 'encrypt' | 'decrypt';
+
+export async function encryptFrame(key: CryptoKey, data: ArrayBuffer): Promise<ArrayBuffer> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data));
+    const frame = new Uint8Array(IV_LENGTH + ciphertext.length);
+    frame.set(iv);
+    frame.set(ciphertext, IV_LENGTH);
+    return frame.buffer;
+}
+
+export async function decryptFrame(key: CryptoKey, data: ArrayBuffer): Promise<ArrayBuffer> {
+    const bytes = new Uint8Array(data);
+    return crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) }, key, bytes.slice(IV_LENGTH));
+}
+
+// Encrypts or decrypts each encoded frame; frames that fail to decrypt are dropped
+export function createFrameCryptor(key: CryptoKey, operation: FrameOperation, onDecryptError?: () => void) {
+    return new TransformStream<RTCEncodedAudioFrame, RTCEncodedAudioFrame>({
+        async transform(frame, controller) {
+            try {
+                frame.data = operation === 'encrypt'
+                    ? await encryptFrame(key, frame.data)
+                    : await decryptFrame(key, frame.data);
+                controller.enqueue(frame);
+            } catch {
+                onDecryptError?.();
+            }
+        },
+    });
+}
@@ -0,0 +1,24 @@
+import { createFrameCryptor, FrameOperation } from './e2eeFrames';
+
+// Worker side of RTCRtpScriptTransform: runs each sender/receiver's frames through the cryptor
+
+interface RtcTransformEvent {
+    transformer: {
+        readable: ReadableStream<RTCEncodedAudioFrame>;
+        writable: WritableStream<RTCEncodedAudioFrame>;
+        options: { operation: FrameOperation; key: CryptoKey };
+    };
+}
+
+const scope = self as unknown as {
+    onrtctransform: ((event: RtcTransformEvent) => void) | null;
+    postMessage: (message: unknown) => void;
+};
+
+scope.onrtctransform = ({ transformer }) => {
+    const { operation, key } = transformer.options;
+    transformer.readable
+        .pipeThrough(createFrameCryptor(key, operation, () => scope.postMessage({ type: 'decrypt_error' })))
+        .pipeTo(transformer.writable)
+        .catch(error => console.warn('Encoded frame pipe closed:', error));
+};
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import type { Message } from 'firebase-admin/messaging';
+import { getMessaging } from './firebaseInit';
+import { classifyFcmError, getFcmErrorCode } from './fcmErrors';
+import { invalidateRejectedToken } from './tokenValidator';
+
+// Push delivery with FCM failures sorted into what the caller should do about them:
+// a rejected token is invalidated and reported as gone, transient failures are retried with backoff,
+// and anything else (bad credentials, malformed payload) is thrown as before.
+
+const DEFAULT_SEND_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 250;
+const UNAVAILABLE_RETRY_AFTER = 30; // seconds
+// Longest client-supplied notification text; FCM refuses payloads over 4 KB
+export const MAX_NOTIFICATION_MESSAGE_LENGTH = 1000;
+
+// Codes in failure response bodies, so clients can tell "re-pair" from "try again later"
+export type FcmFailureCode = 'token_gone' | 'fcm_unavailable';
+
+export type FcmDeliveryResult =
+    | { status: 'sent'; messageId: string }
+    | { status: 'token-rejected'; errorCode: string }
+    | { status: 'unavailable'; errorCode: string | null };
+
+interface RetryOptions {
+    attempts?: number;
+    baseDelayMs?: number;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// An optional `message` from a request body that fits in a notification
+export function isValidNotificationMessage(message: unknown): boolean {
+    return message === undefined || message === null
+        || (typeof message === 'string' && message.length <= MAX_NOTIFICATION_MESSAGE_LENGTH);
+}
+
+export const invalidNotificationMessageResponse = () => NextResponse.json({
+    error: `message must be a string of at most ${MAX_NOTIFICATION_MESSAGE_LENGTH} characters`
+}, { status: 400 });
+
+// Run `send`, retrying transient failures with jittered exponential backoff
+export async function sendWithRetry(
+    send: () => Promise<string>,
+    { attempts = DEFAULT_SEND_ATTEMPTS, baseDelayMs = DEFAULT_BASE_DELAY_MS, sleep = defaultSleep }: RetryOptions = {}
+): Promise<FcmDeliveryResult> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return { status: 'sent', messageId: await send() };
+        } catch (error) {
+            const kind = classifyFcmError(error);
+            if (kind === 'token-rejected') {
+                return { status: 'token-rejected', errorCode: getFcmErrorCode(error)! };
+            }
+            if (kind === 'fatal') {
+                throw error;
+            }
+            if (attempt >= attempts) {
+                console.error(`FCM send failed after ${attempts} attempts:`, error);
+                return { status: 'unavailable', errorCode: getFcmErrorCode(error) };
+            }
+            await sleep(baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2));
+        }
+    }
+}
+
+// Send `message` to its token; a token FCM rejects is invalidated in the tokens collection
+export async function deliverToToken(message: Message & { token: string }, options?: RetryOptions): Promise<FcmDeliveryResult> {
+    const messaging = getMessaging();
+    if (!messaging) {
+        throw new Error('Firebase Messaging not available');
+    }
+
+    const result = await sendWithRetry(() => messaging.send(message), options);
+    if (result.status === 'token-rejected') {
+        await invalidateRejectedToken(message.token, result.errorCode);
+    }
+    return result;
+}
+
+// 410 for a target token that is gone for good; `fcmError` is FCM's reason, if it was FCM that rejected it
+export const tokenGoneResponse = (fcmError: string | null) => NextResponse.json({
+    error: 'Target token is no longer registered; pair with the device again',
+    code: 'token_gone' satisfies FcmFailureCode,
+    fcmError
+}, { status: 410 });
+
+// 410 when FCM rejected the token, 503 with Retry-After when FCM stayed unavailable
+export function fcmFailureResponse(result: Exclude<FcmDeliveryResult, { status: 'sent' }>) {
+    if (result.status === 'token-rejected') {
+        return tokenGoneResponse(result.errorCode);
+    }
+
+    return NextResponse.json({
+        error: 'Notification service temporarily unavailable',
+        code: 'fcm_unavailable' satisfies FcmFailureCode,
+        fcmError: result.errorCode,
+        retryAfter: UNAVAILABLE_RETRY_AFTER
+    }, {
+        status: 503,
+        headers: { 'Retry-After': UNAVAILABLE_RETRY_AFTER.toString() }
+    });
+}
@@ -0,0 +1,48 @@
+// Firebase Cloud Messaging error codes that tell us something about the target token
+
+// FCM no longer accepts the token: the app was uninstalled, the token rotated, or it was never valid
+const TOKEN_REJECTED_CODES = new Set([
+    'messaging/registration-token-not-registered',
+    'messaging/invalid-registration-token',
+]);
+
+// Only blames the token when the token is all we sent (a dry run of `{ token }`); for a real send it may
+// just as well mean a bad or oversized payload
+const TOKEN_ONLY_REJECTED_CODE = 'messaging/invalid-argument';
+
+// Failures worth retrying: FCM overloaded or unreachable, or sending too fast
+const TRANSIENT_CODES = new Set([
+    'messaging/server-unavailable',
+    'messaging/internal-error',
+    'messaging/unknown-error',
+    'messaging/message-rate-exceeded',
+    'messaging/device-message-rate-exceeded',
+    'messaging/quota-exceeded',
+    'app/network-error',
+    'app/network-timeout',
+]);
+
+// token-rejected: drop the token; transient: retry later; fatal: our request or credentials are wrong
+export type FcmErrorKind = 'token-rejected' | 'transient' | 'fatal';
+
+// `code` from a firebase-admin FirebaseMessagingError, or null for anything else
+export function getFcmErrorCode(error: unknown): string | null {
+    if (typeof error !== 'object' || error === null) return null;
+    const { code, errorInfo } = error as { code?: unknown; errorInfo?: { code?: unknown } };
+    if (typeof code === 'string') return code;
+    return typeof errorInfo?.code === 'string' ? errorInfo.code : null;
+}
+
+// Set `tokenOnly` when the failed request carried nothing but the token
+export function isTokenRejectedError(error: unknown, { tokenOnly = false }: { tokenOnly?: boolean } = {}): boolean {
+    const code = getFcmErrorCode(error);
+    return code !== null && (TOKEN_REJECTED_CODES.has(code) || (tokenOnly && code === TOKEN_ONLY_REJECTED_CODE));
+}
+
+// For real sends: an invalid-argument there is the payload's fault, so it is fatal, not a dead token
+export function classifyFcmError(error: unknown): FcmErrorKind {
+    if (isTokenRejectedError(error)) return 'token-rejected';
+    const code = getFcmErrorCode(error);
+    // Errors without a Firebase `service/reason` code are network failures below the SDK (ECONNRESET, timeouts)
+    return code === null || !code.includes('/') || TRANSIENT_CODES.has(code) ? 'transient' : 'fatal';
+}
@@ -1,6 +1,11 @@
 import { initializeApp, getApps, getApp } from "firebase/app";
 import { getMessaging, getToken, onMessage, deleteToken } from "firebase/messaging";
 import { useState, useEffect } from "react";
+import { getStoredTokenSavedAt, loadStoredToken, saveStoredToken } from "./tokenStorage";
+import { getRenewalDelay, getTokenPolicy } from "./tokenPolicy";
+import { tokenService } from "./tokenService";
+import { getDeviceMetadata, registerDevice } from "./deviceCredentialClient";
+import { getOrCreateUserId } from "./contactsClient";
 
 const firebaseConfig = {
     apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -26,70 +31,48 @@ let tokenRequestPromise: Promise<string | null> | null = null;
 let tokenRenewalTimer: NodeJS.Timeout | null = null;
 let tokenValidationTimer: NodeJS.Timeout | null = null;
 
-// Token management configuration
-const TOKEN_STORAGE_KEY = "walkie_token";
-const TOKEN_EXPIRATION_GRACE_PERIOD = 5 * 60 * 1000; // 5 minutes before expiration
+// Token management configuration; lifetime and renewal timing come from lib/tokenPolicy
+const tokenPolicy = getTokenPolicy();
 const TOKEN_VALIDATION_INTERVAL = 5 * 60 * 1000; // Validate every 5 minutes
 const TOKEN_PERSISTENCE_ENABLED = true;
 
-// Encryption utilities (in production, use a secure key management system)
-const encryptionKey = "walkie-lazy-token-key";
-
-const encryptToken = (token: string): string => {
-    // Simple XOR encryption for demonstration (replace with proper encryption in production)
-    return token.split('').map((char, index) => {
-        return String.fromCharCode(char.charCodeAt(0) ^ encryptionKey.charCodeAt(index % encryptionKey.length));
-    }).join('');
-};
-
-const decryptToken = (encryptedToken: string): string => {
-    // XOR decryption (same as encryption for XOR)
-    return encryptedToken.split('').map((char, index) => {
-        return String.fromCharCode(char.charCodeAt(0) ^ encryptionKey.charCodeAt(index % encryptionKey.length));
-    }).join('');
-};
-
-export const saveTokenToStorage = (token: string | null) => {
-    if (TOKEN_PERSISTENCE_ENABLED && token) {
-        const encryptedToken = encryptToken(token);
-        localStorage.setItem(TOKEN_STORAGE_KEY, encryptedToken);
-        localStorage.setItem(`${TOKEN_STORAGE_KEY}_timestamp`, Date.now().toString());
-    } else {
-        localStorage.removeItem(TOKEN_STORAGE_KEY);
-        localStorage.removeItem(`${TOKEN_STORAGE_KEY}_timestamp`);
-    }
+export const saveTokenToStorage = async (token: string | null) => {
+    await saveStoredToken(TOKEN_PERSISTENCE_ENABLED ? token : null);
 };
 
-export const getTokenFromStorage = (): string | null => {
+export const getTokenFromStorage = async (): Promise<string | null> => {
     if (!TOKEN_PERSISTENCE_ENABLED) return null;
 
-    const encryptedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
-    if (!encryptedToken) return null;
-
     try {
-        return decryptToken(encryptedToken);
+        return await loadStoredToken();
     } catch (error) {
-        console.error("Failed to decrypt token from storage", error);
+        console.error("Failed to read token from storage", error);
         return null;
     }
 };
 
-const isTokenExpired = (token: string): boolean => {
-    // In a real implementation, you would parse the JWT and check the exp claim
-    // For now, we'll use a simple timestamp-based expiration
-    const savedAt = localStorage.getItem(`${TOKEN_STORAGE_KEY}_timestamp`);
-    if (!savedAt) return true;
-
-    const tokenAge = Date.now() - parseInt(savedAt);
-    const expirationTime = 24 * 60 * 60 * 1000; // 24 hours for demo
+// Local estimate of the expiry: the absolute lifetime from when the token was saved (NaN if it never was)
+const getLocalTokenExpiry = (): number => {
+    const savedAt = getStoredTokenSavedAt();
+    return savedAt ? savedAt + tokenPolicy.lifetimeMs : NaN;
+};
 
-    return tokenAge > expirationTime;
+// Register the token with the server under this install's stable userId, so validation, exchanges and
+// notifications can find it. Re-registering refreshes the metadata and the device credential.
+export const registerToken = async (token: string): Promise<boolean> => {
+    try {
+        await registerDevice(token, getOrCreateUserId(), getDeviceMetadata());
+        // Answers from before the registration no longer hold
+        tokenService.forget(token);
+        return true;
+    } catch (error) {
+        console.error("Failed to register token with the server", error);
+        return false;
+    }
 };
 
 export const validateToken = async (token: string): Promise<boolean> => {
-    // In a real implementation, you would call your backend API to validate the token
-    // For now, we'll assume the token is valid if it's not expired
-    return !isTokenExpired(token);
+    return (await tokenService.check(token)).valid;
 };
 
 export const requestForToken = async (): Promise<string | null> => {
@@ -210,7 +193,10 @@ export const requestForToken = async (): Promise<string | null> => {
                 console.log("FCM Token retrieved successfully");
 
                 // Save token to storage
-                saveTokenToStorage(currentToken);
+                await saveTokenToStorage(currentToken);
+
+                // Register (or re-register, on renewal) before anything asks the server about the token
+                await registerToken(currentToken);
 
                 // Schedule token renewal
                 scheduleTokenRenewal(currentToken);
@@ -277,7 +263,8 @@ export const invalidateToken = async (): Promise<void> => {
         console.error("Error invalidating token:", error);
     } finally {
         // Clear storage
-        saveTokenToStorage(null);
+        await saveTokenToStorage(null);
+        tokenService.forget();
 
         // Clear timers
         if (tokenRenewalTimer) {
@@ -293,13 +280,14 @@ export const invalidateToken = async (): Promise<void> => {
 
 export const updateToken = async (newToken: string): Promise<boolean> => {
     try {
+        await registerToken(newToken);
         const isValid = await validateToken(newToken);
 
         if (isValid) {
             console.log("Token updated successfully");
 
             // Save the updated token
-            saveTokenToStorage(newToken);
+            await saveTokenToStorage(newToken);
 
             // Schedule renewal and validation
             scheduleTokenRenewal(newToken);
@@ -316,17 +304,25 @@ export const updateToken = async (newToken: string): Promise<boolean> => {
     }
 };
 
-const scheduleTokenRenewal = (token: string) => {
-    // Calculate renewal time (5 minutes before expiration)
-    const savedAt = localStorage.getItem(`${TOKEN_STORAGE_KEY}_timestamp`);
-    if (!savedAt) return;
+const scheduleTokenRenewal = async (token: string) => {
+    // The server's expiry also covers the idle timeout; without one, estimate from when the token was saved
+    const expiresAt = (await tokenService.check(token)).expiresAt ?? getLocalTokenExpiry();
+    if (Number.isNaN(expiresAt)) return;
 
-    const tokenAge = Date.now() - parseInt(savedAt);
-    const timeUntilRenewal = (24 * 60 * 60 * 1000) - tokenAge - TOKEN_EXPIRATION_GRACE_PERIOD;
+    // Renew `renewBeforeMs` ahead of expiry
+    const timeUntilRenewal = getRenewalDelay(tokenPolicy, expiresAt);
 
     // Clear previous renewal timer
     if (tokenRenewalTimer) {
         clearTimeout(tokenRenewalTimer);
+        tokenRenewalTimer = null;
+    }
+
+    // Already inside the renewal window, e.g. right after a renewal that couldn't push the absolute lifetime
+    // further; scheduling again would refresh in a loop, so leave it to validation to notice the expiry
+    if (timeUntilRenewal === 0) {
+        console.log(`Token expires at ${new Date(expiresAt).toISOString()} and can't be renewed further`);
+        return;
     }
 
     // Schedule new renewal
@@ -346,8 +342,9 @@ const scheduleTokenValidation = (token: string) => {
     // Schedule token validation every 5 minutes
     tokenValidationTimer = setInterval(async () => {
         try {
-            const isValid = await validateToken(token);
-            if (!isValid) {
+            // Only a definite answer from the server; offline or timed-out checks don't cost the token
+            const check = await tokenService.check(token);
+            if (check.status === 'invalid') {
                 console.log("Token validation failed, invalidating token");
                 await invalidateToken();
             }
@@ -0,0 +1,91 @@
+// Half-duplex floor control protocol
+// Carried over PeerJS data connections between channel members: a station asks everyone for the floor,
+// anyone who knows of a current holder (or has an earlier competing request) denies, and silence means granted.
+
+// How long a requester waits for denials before assuming the floor is free
+export const FLOOR_REQUEST_TIMEOUT = 300;
+// A holder that never sends floor_release (crashed tab, dropped link) is forgotten after this long
+export const FLOOR_HOLD_TIMEOUT = 2 * 60 * 1000;
+
+export interface FloorClaim {
+    peerId: string;
+    requestedAt: number;
+}
+
+export type FloorMessage =
+    | { type: 'floor_request'; channel: string; peerId: string; requestedAt: number }
+    | { type: 'floor_deny'; channel: string; peerId: string; holder: string }
+    | { type: 'floor_taken'; channel: string; peerId: string }
+    | { type: 'floor_release'; channel: string; peerId: string };
+
+export interface FloorState {
+    holder: string | null;
+    holderSince: number;
+    // Our own outstanding request, if any
+    pending: FloorClaim | null;
+}
+
+export const initialFloorState: FloorState = {
+    holder: null,
+    holderSince: 0,
+    pending: null,
+};
+
+const FLOOR_MESSAGE_TYPES = ['floor_request', 'floor_deny', 'floor_taken', 'floor_release'];
+
+export function isFloorMessage(data: unknown): data is FloorMessage {
+    if (!data || typeof data !== 'object') return false;
+    const message = data as Record<string, unknown>;
+    return FLOOR_MESSAGE_TYPES.includes(message.type as string)
+        && typeof message.channel === 'string'
+        && typeof message.peerId === 'string';
+}
+
+// Whether claim `a` wins over claim `b`: earliest request first, peer ID breaks ties
+export function hasPriority(a: FloorClaim, b: FloorClaim): boolean {
+    if (a.requestedAt !== b.requestedAt) {
+        return a.requestedAt < b.requestedAt;
+    }
+    return a.peerId < b.peerId;
+}
+
+// Current holder, ignoring one that has held the floor past FLOOR_HOLD_TIMEOUT
+export function getActiveHolder(state: FloorState, now: number = Date.now()): string | null {
+    if (!state.holder) return null;
+    if (now - state.holderSince > FLOOR_HOLD_TIMEOUT) return null;
+    return state.holder;
+}
+
+// Decide how to answer a floor_request from another station.
+// Returns the holder to report when denying, or null to let the request through.
+export function evaluateFloorRequest(
+    state: FloorState,
+    selfId: string,
+    request: FloorClaim,
+    now: number = Date.now()
+): string | null {
+    const holder = getActiveHolder(state, now);
+    if (holder && holder !== request.peerId) {
+        return holder;
+    }
+    if (state.pending && hasPriority(state.pending, request)) {
+        return selfId;
+    }
+    return null;
+}
+
+// Apply an incoming floor message to the local view of the channel
+export function applyFloorMessage(state: FloorState, message: FloorMessage, now: number = Date.now()): FloorState {
+    switch (message.type) {
+        case 'floor_taken':
+            return { ...state, holder: message.peerId, holderSince: now };
+        case 'floor_release':
+            return state.holder === message.peerId
+                ? { ...state, holder: null, holderSince: 0 }
+                : state;
+        case 'floor_deny':
+            return { ...state, holder: message.holder, holderSince: now };
+        default:
+            return state;
+    }
+}
@@ -0,0 +1,30 @@
+// ICE server configuration shared by client and server
+
+// Used when no STUN_URLS are configured, and by clients when /api/turn is unreachable
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+    { urls: ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'] },
+];
+
+export interface IceServersResponse {
+    iceServers: RTCIceServer[];
+    // When the TURN credentials stop working (ms since epoch); null if there are none
+    expiresAt: number | null;
+}
+
+// Refresh once 75% of the remaining lifetime has passed, but never hammer the endpoint
+const MIN_REFRESH_DELAY = 30 * 1000;
+
+export function getIceRefreshDelay(expiresAt: number | null, now: number = Date.now()): number | null {
+    if (expiresAt === null) return null;
+    return Math.max(MIN_REFRESH_DELAY, Math.floor((expiresAt - now) * 0.75));
+}
+
+// `headers` carries the device credential, which the endpoint requires
+export async function fetchIceServers(endpoint: string, headers: Record<string, string> = {}): Promise<IceServersResponse> {
+    const response = await fetch(endpoint, { headers });
+    if (!response.ok) {
+        throw new Error(`ICE server request failed: ${response.status}`);
+    }
+    const { iceServers, expiresAt } = await response.json();
+    return { iceServers, expiresAt: expiresAt ?? null };
+}
@@ -0,0 +1,151 @@
+import admin from 'firebase-admin';
+import { getFirestore } from './firebaseInit';
+import { getBlobStore } from './blobStore';
+import { getTokenPolicy, TokenPolicy } from './tokenPolicy';
+import { VOICE_MESSAGE_TTL } from './voiceMessages';
+
+// Cleanup of collections that otherwise grow forever: expired and invalidated tokens, old blacklist entries,
+// token exchange logs and undelivered voice messages past their TTL. Runs from /api/maintenance (e.g. a cron) or locally with `pnpm maintenance`.
+
+const DAY = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 250; // two writes per document when archiving, within Firestore's 500-write batch limit
+
+export interface RetentionConfig {
+    expiredTokenGraceMs: number; // kept this long past expiry, so a late client still gets "expired", not "not found"
+    invalidatedTokenMs: number;
+    blacklistMs: number;
+    exchangeLogMs: number;
+    archive: boolean; // copy documents to `<collection>Archive` before deleting
+}
+
+const days = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return (value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback) * DAY;
+};
+
+// Retention from MAINTENANCE_* environment variables, in days
+export function getRetentionConfig(env: Record<string, string | undefined> = process.env): RetentionConfig {
+    return {
+        expiredTokenGraceMs: days(env.MAINTENANCE_EXPIRED_TOKEN_GRACE_DAYS, 7),
+        invalidatedTokenMs: days(env.MAINTENANCE_INVALIDATED_TOKEN_DAYS, 7),
+        blacklistMs: days(env.MAINTENANCE_BLACKLIST_DAYS, 90),
+        exchangeLogMs: days(env.MAINTENANCE_EXCHANGE_LOG_DAYS, 30),
+        archive: env.MAINTENANCE_ARCHIVE === 'true',
+    };
+}
+
+interface MaintenanceTask {
+    name: string;
+    collection: string;
+    field: string; // documents whose `field` is before the cutoff are removed
+    cutoff: number;
+    blobs?: boolean; // document IDs are also blob store keys, whose blobs are deleted with the documents unless archiving
+}
+
+export function getMaintenanceTasks(
+    config: RetentionConfig,
+    now: number = Date.now(),
+    policy: TokenPolicy = getTokenPolicy()
+): MaintenanceTask[] {
+    const tasks: MaintenanceTask[] = [
+        { name: 'expired-tokens', collection: 'tokens', field: 'createdAt', cutoff: now - policy.lifetimeMs - config.expiredTokenGraceMs },
+        // Only invalidated tokens have invalidatedAt
+        { name: 'invalidated-tokens', collection: 'tokens', field: 'invalidatedAt', cutoff: now - config.invalidatedTokenMs },
+        { name: 'blacklist', collection: 'blacklistedTokens', field: 'blacklistedAt', cutoff: now - config.blacklistMs },
+        { name: 'exchange-logs', collection: 'tokenExchanges', field: 'timestamp', cutoff: now - config.exchangeLogMs },
+        { name: 'voice-messages', collection: 'voiceMessages', field: 'createdAt', cutoff: now - VOICE_MESSAGE_TTL, blobs: true },
+    ];
+    if (policy.idleTimeoutMs) {
+        // Tokens saved before lastActiveAt existed lack the field and are left to expired-tokens
+        tasks.splice(1, 0, { name: 'idle-tokens', collection: 'tokens', field: 'lastActiveAt', cutoff: now - policy.idleTimeoutMs - config.expiredTokenGraceMs });
+    }
+    return tasks;
+}
+
+export interface MaintenanceTaskReport {
+    task: string;
+    collection: string;
+    cutoff: string;
+    matched: number; // in a dry run, how many documents would be removed
+    deleted: number;
+    archived: number;
+}
+
+export interface MaintenanceReport {
+    dryRun: boolean;
+    archive: boolean;
+    startedAt: string;
+    finishedAt: string;
+    tasks: MaintenanceTaskReport[];
+}
+
+async function runTask(firestore: admin.firestore.Firestore, task: MaintenanceTask, dryRun: boolean, archive: boolean): Promise<MaintenanceTaskReport> {
+    const query = firestore.collection(task.collection)
+        .where(task.field, '<', admin.firestore.Timestamp.fromMillis(task.cutoff));
+    const report: MaintenanceTaskReport = {
+        task: task.name,
+        collection: task.collection,
+        cutoff: new Date(task.cutoff).toISOString(),
+        matched: 0,
+        deleted: 0,
+        archived: 0,
+    };
+
+    if (dryRun) {
+        report.matched = (await query.count().get()).data().count;
+        return report;
+    }
+
+    const archiveCollection = firestore.collection(`${task.collection}Archive`);
+    for (;;) {
+        const page = await query.limit(BATCH_SIZE).get();
+        if (page.empty) break;
+
+        // Blobs go first: if this fails, the documents remain and the next run retries.
+        // When archiving they stay in the blob store, so archived documents still point at their blobs.
+        if (task.blobs && !archive) {
+            const blobStore = getBlobStore();
+            await Promise.all(page.docs.map(doc => blobStore.delete(doc.id)));
+        }
+
+        const batch = firestore.batch();
+        for (const doc of page.docs) {
+            if (archive) {
+                batch.set(archiveCollection.doc(doc.id), {
+                    ...doc.data(),
+                    archivedAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+            }
+            batch.delete(doc.ref);
+        }
+        await batch.commit();
+
+        report.matched += page.size;
+        report.deleted += page.size;
+        if (archive) report.archived += page.size;
+        if (page.size < BATCH_SIZE) break;
+    }
+
+    return report;
+}
+
+// Run every cleanup task in turn. A dry run only counts what would be removed; since tasks run one after
+// another, a token both expired and invalidated is counted by both tasks in a dry run but deleted once.
+export async function runMaintenance({
+    dryRun = false,
+    config = getRetentionConfig(),
+    now = Date.now(),
+}: { dryRun?: boolean; config?: RetentionConfig; now?: number } = {}): Promise<MaintenanceReport> {
+    const firestore = getFirestore();
+    if (!firestore) {
+        throw new Error('Firestore not available');
+    }
+
+    const startedAt = new Date().toISOString();
+    const tasks: MaintenanceTaskReport[] = [];
+    for (const task of getMaintenanceTasks(config, now)) {
+        tasks.push(await runTask(firestore, task, dryRun, config.archive));
+    }
+
+    return { dryRun, archive: config.archive, startedAt, finishedAt: new Date().toISOString(), tasks };
+}
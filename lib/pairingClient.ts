@@ -0,0 +1,43 @@
+import { withDeviceCredential } from './deviceCredentialClient';
+
+// Client for the pairing code API
+
+export interface PairingCode {
+    code: string;
+    expiresAt: string;
+}
+
+export interface PairedPeer {
+    token: string;
+    peerId: string | null;
+}
+
+async function ensureOk(response: Response, action: string) {
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(`${action} failed: ${body.error || response.status}`);
+    }
+}
+
+// Get a short single-use code that a remote device can enter or scan to reach `token` (and `peerId`, if set)
+export async function requestPairingCode(token: string, peerId?: string): Promise<PairingCode> {
+    const response = await fetch('/api/pairing', {
+        method: 'POST',
+        headers: withDeviceCredential({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ token, peerId: peerId || null }),
+    });
+    await ensureOk(response, 'Pairing code request');
+    return response.json();
+}
+
+// Redeem a remote's pairing code; resolves to the remote's FCM token and peer ID
+export async function exchangeWithPairingCode(sourceToken: string, pairingCode: string): Promise<PairedPeer> {
+    const response = await fetch('/api/tokens', {
+        method: 'PUT',
+        headers: withDeviceCredential({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ sourceToken, pairingCode }),
+    });
+    await ensureOk(response, 'Pairing');
+    const { targetToken, targetPeerId } = await response.json();
+    return { token: targetToken, peerId: targetPeerId ?? null };
+}
@@ -0,0 +1,167 @@
+import admin from 'firebase-admin';
+import { randomInt } from 'crypto';
+import { getFirestore } from './firebaseInit';
+import { getTokenRepository } from './tokenRepository';
+
+// Pairing code configuration
+const PAIRING_CODES_COLLECTION = 'pairingCodes';
+export const PAIRING_CODE_TTL = 10 * 60 * 1000; // Codes expire after 10 minutes
+const MAX_GENERATION_ATTEMPTS = 5;
+
+// No 0/O or 1/I, so codes survive being read aloud or typed from a screen
+const PAIRING_CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+const PAIRING_CODE_PATTERN = /^[2-9A-HJ-NP-Z]{3}-[2-9A-HJ-NP-Z]{3}$/;
+
+export type PairingRedemptionError = 'not_found' | 'expired' | 'used';
+
+// Random code in the form `7K3-Q9M`
+export function generatePairingCode(): string {
+    const chars = Array.from({ length: 6 }, () => PAIRING_CODE_ALPHABET[randomInt(PAIRING_CODE_ALPHABET.length)]);
+    return `${chars.slice(0, 3).join('')}-${chars.slice(3).join('')}`;
+}
+
+// Canonical form of user input (case, spacing and dash are forgiven), or null if it can't be a code
+export function normalizePairingCode(input: unknown): string | null {
+    if (typeof input !== 'string') return null;
+    const compact = input.toUpperCase().replace(/[\s-]/g, '');
+    if (compact.length !== 6) return null;
+    const code = `${compact.slice(0, 3)}-${compact.slice(3)}`;
+    return PAIRING_CODE_PATTERN.test(code) ? code : null;
+}
+
+export interface PairingCodeRecord {
+    token: string;
+    peerId: string | null;
+    expiresAt: Date;
+}
+
+export type PairingRedemption = { token: string; peerId: string | null } | { error: PairingRedemptionError };
+
+// Issued codes and whether they have been used. createPairingCode/redeemPairingCode get the store from
+// getPairingCodeStore(); tests swap in the in-memory one with setPairingCodeStore().
+export interface PairingCodeStore {
+    // Resolves to false if the code is already taken
+    create(code: string, record: PairingCodeRecord): Promise<boolean>;
+    // Resolve a code to its token and mark it used, atomically
+    redeem(code: string): Promise<PairingRedemption>;
+}
+
+export function createFirestorePairingCodeStore(): PairingCodeStore {
+    const firestore = () => {
+        const instance = getFirestore();
+        if (!instance) {
+            throw new Error('Firestore not available');
+        }
+        return instance;
+    };
+    const codes = () => firestore().collection(PAIRING_CODES_COLLECTION);
+
+    return {
+        async create(code, { token, peerId, expiresAt }) {
+            try {
+                // create() fails if the code is already taken
+                await codes().doc(code).create({
+                    token,
+                    peerId,
+                    used: false,
+                    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                    expiresAt: admin.firestore.Timestamp.fromDate(expiresAt),
+                });
+                return true;
+            } catch (error) {
+                if ((error as { code?: number }).code !== 6) throw error; // 6 = ALREADY_EXISTS
+                return false;
+            }
+        },
+
+        async redeem(code) {
+            const codeRef = codes().doc(code);
+            return firestore().runTransaction(async (transaction): Promise<PairingRedemption> => {
+                const codeDoc = await transaction.get(codeRef);
+                if (!codeDoc.exists) {
+                    return { error: 'not_found' };
+                }
+
+                const data = codeDoc.data()!;
+                if (data.used) {
+                    return { error: 'used' };
+                }
+                if (data.expiresAt.toMillis() <= Date.now()) {
+                    return { error: 'expired' };
+                }
+
+                transaction.update(codeRef, {
+                    used: true,
+                    usedAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+                return { token: data.token as string, peerId: (data.peerId as string | undefined) ?? null };
+            });
+        },
+    };
+}
+
+// Process-local store, for tests and local development without Firebase
+export function createMemoryPairingCodeStore(now: () => number = Date.now): PairingCodeStore {
+    const codes = new Map<string, PairingCodeRecord & { used: boolean }>();
+
+    return {
+        async create(code, record) {
+            if (codes.has(code)) return false;
+            codes.set(code, { ...record, used: false });
+            return true;
+        },
+
+        async redeem(code) {
+            const record = codes.get(code);
+            if (!record) {
+                return { error: 'not_found' };
+            }
+            if (record.used) {
+                return { error: 'used' };
+            }
+            if (record.expiresAt.getTime() <= now()) {
+                return { error: 'expired' };
+            }
+            record.used = true;
+            return { token: record.token, peerId: record.peerId };
+        },
+    };
+}
+
+let pairingCodeStore: PairingCodeStore | null = null;
+
+export function getPairingCodeStore(): PairingCodeStore {
+    if (!pairingCodeStore) {
+        pairingCodeStore = createFirestorePairingCodeStore();
+    }
+    return pairingCodeStore;
+}
+
+// Swap the store, e.g. for an in-memory one in tests
+export function setPairingCodeStore(store: PairingCodeStore | null) {
+    pairingCodeStore = store;
+}
+
+// Issue a code for a token registered in the token repository; returns null if it isn't registered.
+// The issuer's peer ID travels with the code so the redeemer can save it as a contact.
+export async function createPairingCode(token: string, peerId: string | null = null): Promise<{ code: string; expiresAt: string } | null> {
+    const record = await getTokenRepository().get(token);
+    if (!record || record.invalidated) {
+        return null;
+    }
+
+    const expiresAt = new Date(Date.now() + PAIRING_CODE_TTL);
+    for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+        const code = generatePairingCode();
+        if (await getPairingCodeStore().create(code, { token, peerId, expiresAt })) {
+            return { code, expiresAt: expiresAt.toISOString() };
+        }
+    }
+
+    throw new Error('Could not allocate a unique pairing code');
+}
+
+// Resolve a code to its token, consuming it so it can't be used again
+export async function redeemPairingCode(code: string): Promise<PairingRedemption> {
+    return getPairingCodeStore().redeem(code);
+}
@@ -0,0 +1,31 @@
+import admin from 'firebase-admin';
+import { getFirestore } from './firebaseInit';
+
+// Which users have paired with each other, recorded when a pairing code is redeemed.
+// One document per pair, keyed by the two user IDs in sorted order, so lookups work from either side.
+const PAIRINGS_COLLECTION = 'pairings';
+
+export function pairingId(userA: string, userB: string): string {
+    return [userA, userB].sort().join(':');
+}
+
+function pairingsCollection() {
+    const firestore = getFirestore();
+    if (!firestore) {
+        throw new Error('Firestore not available');
+    }
+    return firestore.collection(PAIRINGS_COLLECTION);
+}
+
+export async function recordPairing(userA: string, userB: string): Promise<void> {
+    await pairingsCollection().doc(pairingId(userA, userB)).set({
+        users: [userA, userB].sort(),
+        pairedAt: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+}
+
+export async function arePaired(userA: string, userB: string): Promise<boolean> {
+    if (userA === userB) return true;
+    const doc = await pairingsCollection().doc(pairingId(userA, userB)).get();
+    return doc.exists;
+}
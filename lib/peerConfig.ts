@@ -0,0 +1,49 @@
+import type Peer from 'peerjs';
+import type { PeerOptions } from 'peerjs';
+import type { SignalingConfig } from '../types/connection';
+
+// PeerJS signaling configuration shared by every hook that creates a Peer.
+// Point NEXT_PUBLIC_PEER_* at the bundled server (see server.ts); leave them unset to use the PeerJS cloud.
+
+const parsePort = (value: string | undefined) => {
+    const port = Number(value);
+    return Number.isInteger(port) && port > 0 ? port : undefined;
+};
+
+// NEXT_PUBLIC_* variables must be referenced literally so Next.js can inline them
+export function getSignalingConfigFromEnv(): SignalingConfig {
+    return {
+        host: process.env.NEXT_PUBLIC_PEER_HOST || undefined,
+        port: parsePort(process.env.NEXT_PUBLIC_PEER_PORT),
+        path: process.env.NEXT_PUBLIC_PEER_PATH || undefined,
+        key: process.env.NEXT_PUBLIC_PEER_KEY || undefined,
+        secure: process.env.NEXT_PUBLIC_PEER_SECURE ? process.env.NEXT_PUBLIC_PEER_SECURE === 'true' : undefined,
+    };
+}
+
+// Only set the fields that are configured so PeerJS keeps its own defaults for the rest
+export function buildPeerOptions(
+    signaling: SignalingConfig = getSignalingConfigFromEnv(),
+    iceServers?: RTCIceServer[]
+): PeerOptions {
+    const options: PeerOptions = {};
+    if (iceServers) options.config = { iceServers };
+    if (signaling.host) options.host = signaling.host;
+    if (signaling.port) options.port = signaling.port;
+    if (signaling.path) options.path = signaling.path;
+    if (signaling.key) options.key = signaling.key;
+    if (signaling.secure !== undefined) options.secure = signaling.secure;
+    return options;
+}
+
+// PeerJS reads options.config for every new RTCPeerConnection, so swapping the ICE servers
+// here applies refreshed TURN credentials to later calls without recreating the Peer
+export function applyIceServers(peer: Peer, iceServers: RTCIceServer[]) {
+    peer.options.config = { ...peer.options.config, iceServers };
+}
+
+// Chrome's legacy Insertable Streams only expose encoded frames on connections created with this flag
+export function enableEncodedInsertableStreams(peer: Peer) {
+    const config: RTCConfiguration & { encodedInsertableStreams?: boolean } = { ...peer.options.config, encodedInsertableStreams: true };
+    peer.options.config = config;
+}
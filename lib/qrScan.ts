@@ -0,0 +1,30 @@
+import { E2EE_SECRET_PARAM, isValidE2eeSecret } from './e2ee';
+
+// Pairing QR codes encode `<origin>/?pair=<code>#k=<e2ee secret>`; also accept a bare code from other generators
+const BARE_CODE_PATTERN = /^[A-Za-z0-9]{3}-?[A-Za-z0-9]{3}$/;
+
+// The pairing code carried by a scanned QR payload, or null if it isn't a pairing QR
+export function extractPairingCode(payload: string): string | null {
+    const text = payload.trim();
+    if (BARE_CODE_PATTERN.test(text)) {
+        return text.toUpperCase();
+    }
+
+    try {
+        const code = new URL(text).searchParams.get('pair');
+        return code && BARE_CODE_PATTERN.test(code) ? code.toUpperCase() : null;
+    } catch {
+        // Not a URL
+        return null;
+    }
+}
+
+// The peer's E2EE secret from a pairing URL fragment (`#k=...`), if present
+export function extractE2eeSecret(payload: string): string | null {
+    try {
+        const secret = new URLSearchParams(new URL(payload.trim()).hash.slice(1)).get(E2EE_SECRET_PARAM);
+        return isValidE2eeSecret(secret) ? secret : null;
+    } catch {
+        return null;
+    }
+}
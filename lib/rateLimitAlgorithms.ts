@@ -0,0 +1,181 @@
+// Rate limiting algorithms as pure state transitions, so every RateLimitStore backend can apply them atomically.
+//
+//   fixed-window            count per aligned window; allows up to 2× max across a window boundary
+//   sliding-log             timestamp of every accepted request in the last window; exact, O(max) state
+//   sliding-window-counter  current and previous window counts, the previous one weighted by its overlap; O(1) state
+//   token-bucket            `max` tokens refilled evenly over the window; allows bursts up to `max`
+
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-log' | 'sliding-window-counter' | 'token-bucket';
+
+export interface RateLimitRule {
+    windowMs: number;
+    max: number;
+    algorithm: RateLimitAlgorithm;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    remaining: number;
+    reset: number; // ms until the limit is fully restored
+    retryAfterMs: number; // ms until a request would be accepted; 0 when allowed
+}
+
+interface FixedWindowState { count: number; windowStart: number }
+interface SlidingLogState { hits: number[] }
+interface SlidingWindowCounterState { windowStart: number; count: number; previousCount: number }
+interface TokenBucketState { tokens: number; updatedAt: number }
+
+interface Algorithm<S> {
+    // How long the state stays meaningful after an update
+    ttl(rule: RateLimitRule): number;
+    // Count one request
+    consume(state: S | null, rule: RateLimitRule, now: number): { state: S; decision: RateLimitDecision };
+    // Current standing without counting a request
+    inspect(state: S | null, rule: RateLimitRule, now: number): Omit<RateLimitDecision, 'allowed' | 'retryAfterMs'>;
+}
+
+const fixedWindow: Algorithm<FixedWindowState> = {
+    ttl: rule => rule.windowMs,
+    consume(state, rule, now) {
+        const current = !state || now - state.windowStart >= rule.windowMs
+            ? { count: 1, windowStart: now }
+            : { count: state.count + 1, windowStart: state.windowStart };
+        const reset = current.windowStart + rule.windowMs - now;
+        const allowed = current.count <= rule.max;
+        return {
+            state: current,
+            decision: { allowed, remaining: Math.max(0, rule.max - current.count), reset, retryAfterMs: allowed ? 0 : reset },
+        };
+    },
+    inspect(state, rule, now) {
+        if (!state || now - state.windowStart >= rule.windowMs) return { remaining: rule.max, reset: 0 };
+        return { remaining: Math.max(0, rule.max - state.count), reset: state.windowStart + rule.windowMs - now };
+    },
+};
+
+const liveHits = (state: SlidingLogState | null, rule: RateLimitRule, now: number) =>
+    (state?.hits ?? []).filter(hit => now - hit < rule.windowMs);
+
+const slidingLog: Algorithm<SlidingLogState> = {
+    ttl: rule => rule.windowMs,
+    consume(state, rule, now) {
+        const hits = liveHits(state, rule, now);
+        if (hits.length >= rule.max) {
+            // Rejected requests aren't logged, so a client that backs off recovers on schedule
+            const retryAfterMs = hits[hits.length - rule.max] + rule.windowMs - now;
+            return {
+                state: { hits },
+                decision: { allowed: false, remaining: 0, reset: hits[hits.length - 1] + rule.windowMs - now, retryAfterMs },
+            };
+        }
+        hits.push(now);
+        return {
+            state: { hits },
+            decision: { allowed: true, remaining: rule.max - hits.length, reset: rule.windowMs, retryAfterMs: 0 },
+        };
+    },
+    inspect(state, rule, now) {
+        const hits = liveHits(state, rule, now);
+        return {
+            remaining: Math.max(0, rule.max - hits.length),
+            reset: hits.length > 0 ? hits[hits.length - 1] + rule.windowMs - now : 0,
+        };
+    },
+};
+
+// Shift counts into the window containing `now`
+function currentCounters(state: SlidingWindowCounterState | null, rule: RateLimitRule, now: number): SlidingWindowCounterState {
+    const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+    if (!state || state.windowStart < windowStart - rule.windowMs) {
+        return { windowStart, count: 0, previousCount: 0 };
+    }
+    if (state.windowStart < windowStart) {
+        return { windowStart, count: 0, previousCount: state.count };
+    }
+    return state;
+}
+
+const weightedCount = (counters: SlidingWindowCounterState, rule: RateLimitRule, now: number) =>
+    counters.previousCount * (1 - (now - counters.windowStart) / rule.windowMs) + counters.count;
+
+const slidingWindowCounter: Algorithm<SlidingWindowCounterState> = {
+    ttl: rule => 2 * rule.windowMs,
+    consume(state, rule, now) {
+        const counters = currentCounters(state, rule, now);
+        const elapsed = now - counters.windowStart;
+        const estimate = weightedCount(counters, rule, now);
+        const reset = 2 * rule.windowMs - elapsed;
+
+        if (estimate + 1 > rule.max) {
+            // Wait for the previous window's share to decay enough, or for the next window if that's sooner to tell
+            const excess = estimate + 1 - rule.max;
+            const decayMs = counters.previousCount > 0 ? Math.ceil(excess * rule.windowMs / counters.previousCount) : Infinity;
+            const retryAfterMs = Math.min(decayMs, rule.windowMs - elapsed);
+            return { state: counters, decision: { allowed: false, remaining: 0, reset, retryAfterMs } };
+        }
+
+        const next = { ...counters, count: counters.count + 1 };
+        return {
+            state: next,
+            decision: { allowed: true, remaining: Math.max(0, Math.floor(rule.max - estimate - 1)), reset, retryAfterMs: 0 },
+        };
+    },
+    inspect(state, rule, now) {
+        const counters = currentCounters(state, rule, now);
+        if (counters.count === 0 && counters.previousCount === 0) return { remaining: rule.max, reset: 0 };
+        return {
+            remaining: Math.max(0, Math.floor(rule.max - weightedCount(counters, rule, now))),
+            reset: 2 * rule.windowMs - (now - counters.windowStart),
+        };
+    },
+};
+
+function refill(state: TokenBucketState | null, rule: RateLimitRule, now: number): number {
+    if (!state) return rule.max;
+    return Math.min(rule.max, state.tokens + (now - state.updatedAt) * rule.max / rule.windowMs);
+}
+
+const tokenBucket: Algorithm<TokenBucketState> = {
+    ttl: rule => rule.windowMs,
+    consume(state, rule, now) {
+        const msPerToken = rule.windowMs / rule.max;
+        const tokens = refill(state, rule, now);
+
+        if (tokens < 1) {
+            const retryAfterMs = Math.ceil((1 - tokens) * msPerToken);
+            return {
+                state: { tokens, updatedAt: now },
+                decision: { allowed: false, remaining: 0, reset: Math.ceil((rule.max - tokens) * msPerToken), retryAfterMs },
+            };
+        }
+
+        const left = tokens - 1;
+        return {
+            state: { tokens: left, updatedAt: now },
+            decision: { allowed: true, remaining: Math.floor(left), reset: Math.ceil((rule.max - left) * msPerToken), retryAfterMs: 0 },
+        };
+    },
+    inspect(state, rule, now) {
+        const tokens = refill(state, rule, now);
+        return { remaining: Math.floor(tokens), reset: Math.ceil((rule.max - tokens) * rule.windowMs / rule.max) };
+    },
+};
+
+const ALGORITHMS: Record<RateLimitAlgorithm, Algorithm<never>> = {
+    'fixed-window': fixedWindow as Algorithm<never>,
+    'sliding-log': slidingLog as Algorithm<never>,
+    'sliding-window-counter': slidingWindowCounter as Algorithm<never>,
+    'token-bucket': tokenBucket as Algorithm<never>,
+};
+
+export function getRateLimitStateTtl(rule: RateLimitRule): number {
+    return ALGORITHMS[rule.algorithm].ttl(rule);
+}
+
+export function consumeRateLimit(state: unknown, rule: RateLimitRule, now: number): { state: unknown; decision: RateLimitDecision } {
+    return ALGORITHMS[rule.algorithm].consume(state as never, rule, now);
+}
+
+export function inspectRateLimit(state: unknown, rule: RateLimitRule, now: number): Omit<RateLimitDecision, 'allowed' | 'retryAfterMs'> {
+    return ALGORITHMS[rule.algorithm].inspect(state as never, rule, now);
+}
@@ -0,0 +1,204 @@
+import admin from 'firebase-admin';
+import { getFirestore } from './firebaseInit';
+import { connectRedis, RedisConnectOptions, RedisConnection } from './redisClient';
+
+// Pluggable storage for rate limiter state.
+// Select the backend with RATE_LIMIT_STORE: "memory" (default, per process), "firestore" or "redis" (REDIS_URL).
+// Each backend applies `update` atomically, so instances sharing a store never lose counts.
+
+export interface RateLimitStore {
+    // Replace the state under `key` with update(current state or null); the new state expires after ttlMs
+    update<T>(key: string, ttlMs: number, update: (current: T | null) => T): Promise<T>;
+    get<T>(key: string): Promise<T | null>;
+}
+
+interface MemoryEntry {
+    value: unknown;
+    expiresAt: number;
+}
+
+const MEMORY_SWEEP_INTERVAL = 60 * 1000; // 1 minute
+
+// Process-local store; state is lost on restart and not shared between instances
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+    const entries = new Map<string, MemoryEntry>();
+    let nextSweepAt = now() + MEMORY_SWEEP_INTERVAL;
+
+    const read = <T>(key: string): T | null => {
+        const entry = entries.get(key);
+        if (!entry) return null;
+        if (entry.expiresAt <= now()) {
+            entries.delete(key);
+            return null;
+        }
+        return entry.value as T;
+    };
+
+    return {
+        async update(key, ttlMs, update) {
+            // Sweep expired entries at most once per interval, so memory stays bounded by recent traffic
+            const time = now();
+            if (time >= nextSweepAt) {
+                nextSweepAt = time + MEMORY_SWEEP_INTERVAL;
+                for (const [storeKey, entry] of entries) {
+                    if (entry.expiresAt <= time) entries.delete(storeKey);
+                }
+            }
+
+            const value = update(read(key));
+            entries.set(key, { value, expiresAt: now() + ttlMs });
+            return value;
+        },
+
+        async get(key) {
+            return read(key);
+        },
+    };
+}
+
+const RATE_LIMITS_COLLECTION = 'rateLimits';
+
+// Firestore store: one document per key, updated in a transaction. `expiresAt` can back a Firestore TTL policy;
+// until it removes a document, expired state is treated as missing.
+export function createFirestoreRateLimitStore(): RateLimitStore {
+    const collection = () => {
+        const firestore = getFirestore();
+        if (!firestore) {
+            throw new Error('Firestore not available');
+        }
+        return { firestore, ref: firestore.collection(RATE_LIMITS_COLLECTION) };
+    };
+    // Document IDs can't contain '/'
+    const docId = (key: string) => encodeURIComponent(key);
+
+    const readState = <T>(doc: admin.firestore.DocumentSnapshot): T | null => {
+        const data = doc.data();
+        if (!data || data.expiresAt.toMillis() <= Date.now()) return null;
+        return data.state as T;
+    };
+
+    return {
+        async update(key, ttlMs, update) {
+            const { firestore, ref } = collection();
+            const docRef = ref.doc(docId(key));
+            return firestore.runTransaction(async (transaction) => {
+                const value = update(readState(await transaction.get(docRef)));
+                transaction.set(docRef, {
+                    state: value,
+                    expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + ttlMs),
+                });
+                return value;
+            });
+        },
+
+        async get(key) {
+            const { ref } = collection();
+            return readState(await ref.doc(docId(key)).get());
+        },
+    };
+}
+
+const MAX_REDIS_TRANSACTION_ATTEMPTS = 5;
+const REDIS_POOL_SIZE = 4;
+
+// Redis store: optimistic WATCH/MULTI/EXEC transactions with the state as JSON and a PX expiry.
+// WATCH is per connection, so each transaction borrows a connection of its own from a small pool.
+// Commands time out (see redisClient), so a stuck server fails the update and the rate limiter falls back.
+export function createRedisRateLimitStore(url: string, options: RedisConnectOptions = {}): RateLimitStore {
+    const keyPrefix = 'ratelimit:';
+    const idle: RedisConnection[] = [];
+    const waiting: (() => void)[] = [];
+    let open = 0;
+
+    const acquire = async (): Promise<RedisConnection> => {
+        const redis = idle.pop();
+        if (redis) return redis;
+        if (open < REDIS_POOL_SIZE) {
+            open++;
+            try {
+                return await connectRedis(url, options);
+            } catch (error) {
+                open--;
+                waiting.shift()?.();
+                throw error;
+            }
+        }
+        await new Promise<void>(resolve => waiting.push(resolve));
+        return acquire();
+    };
+
+    const release = (redis: RedisConnection, reusable: boolean) => {
+        if (reusable) {
+            idle.push(redis);
+        } else {
+            redis.close();
+            open--;
+        }
+        waiting.shift()?.();
+    };
+
+    const withConnection = async <T>(task: (redis: RedisConnection) => Promise<T>): Promise<T> => {
+        const redis = await acquire();
+        try {
+            const result = await task(redis);
+            release(redis, true);
+            return result;
+        } catch (error) {
+            // Drop the connection, which may be mid-transaction or timed out, so the next call starts clean
+            release(redis, false);
+            throw error;
+        }
+    };
+
+    const parse = <T>(raw: unknown): T | null => (typeof raw === 'string' ? JSON.parse(raw) as T : null);
+
+    return {
+        update(key, ttlMs, update) {
+            const redisKey = keyPrefix + key;
+            return withConnection(async (redis) => {
+                for (let attempt = 0; attempt < MAX_REDIS_TRANSACTION_ATTEMPTS; attempt++) {
+                    await redis.command('WATCH', redisKey);
+                    const value = update(parse(await redis.command('GET', redisKey)));
+                    // Pipelined: the transaction costs one round trip
+                    const [, , committed] = await Promise.all([
+                        redis.command('MULTI'),
+                        redis.command('SET', redisKey, JSON.stringify(value), 'PX', Math.max(1, Math.ceil(ttlMs))),
+                        redis.command('EXEC'),
+                    ]);
+                    // EXEC answers null when another client changed the key after WATCH
+                    if (committed !== null) return value;
+                }
+                throw new Error('Rate limit update kept conflicting');
+            });
+        },
+
+        get(key) {
+            return withConnection(async (redis) => parse(await redis.command('GET', keyPrefix + key)));
+        },
+    };
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+    if (!rateLimitStore) {
+        const backend = process.env.RATE_LIMIT_STORE || 'memory';
+        switch (backend) {
+            case 'memory':
+                rateLimitStore = createMemoryRateLimitStore();
+                break;
+            case 'firestore':
+                rateLimitStore = createFirestoreRateLimitStore();
+                break;
+            case 'redis':
+                if (!process.env.REDIS_URL) {
+                    throw new Error('RATE_LIMIT_STORE=redis requires REDIS_URL');
+                }
+                rateLimitStore = createRedisRateLimitStore(process.env.REDIS_URL);
+                break;
+            default:
+                throw new Error(`Unknown RATE_LIMIT_STORE backend: ${backend}`);
+        }
+    }
+    return rateLimitStore;
+}
@@ -1,154 +1,190 @@
 import { NextRequest } from 'next/server';
+import { createMemoryRateLimitStore, getRateLimitStore } from './rateLimitStore';
+import { consumeRateLimit, getRateLimitStateTtl, inspectRateLimit, RateLimitAlgorithm, RateLimitDecision, RateLimitRule } from './rateLimitAlgorithms';
 
-// Rate limiting configuration
+// Rate limiting configuration; see rateLimitAlgorithms.ts for how each algorithm counts
 const RATE_LIMITS = {
     token_registration: {
         windowMs: 15 * 60 * 1000, // 15 minutes
         max: 10, // limit each IP to 10 requests per windowMs
+        algorithm: 'sliding-window-counter',
         message: 'Too many token registration requests from this IP'
     },
     token_exchange: {
         windowMs: 15 * 60 * 1000, // 15 minutes
         max: 20, // limit each IP to 20 requests per windowMs
+        algorithm: 'sliding-window-counter',
         message: 'Too many token exchange requests from this IP'
     },
     token_revocation: {
         windowMs: 15 * 60 * 1000, // 15 minutes
         max: 5, // limit each IP to 5 requests per windowMs
+        algorithm: 'sliding-log',
         message: 'Too many token revocation requests from this IP'
     },
     token_validation: {
         windowMs: 15 * 60 * 1000, // 15 minutes
         max: 30, // limit each IP to 30 requests per windowMs
+        algorithm: 'sliding-window-counter',
         message: 'Too many token validation requests from this IP'
+    },
+    channel_membership: {
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        max: 200, // clients heartbeat every 15 seconds, so leave plenty of headroom per IP
+        algorithm: 'sliding-window-counter',
+        message: 'Too many channel membership requests from this IP'
+    },
+    voice_message: {
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        max: 60, // uploads, downloads and acknowledgements combined
+        algorithm: 'sliding-window-counter',
+        message: 'Too many voice message requests from this IP'
+    },
+    turn_credentials: {
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        max: 30, // clients refresh well before the credential TTL
+        algorithm: 'sliding-window-counter',
+        message: 'Too many TURN credential requests from this IP'
+    },
+    pairing_code: {
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        max: 20, // a fresh code per pairing attempt
+        algorithm: 'sliding-log',
+        message: 'Too many pairing code requests from this IP'
+    },
+    contacts_sync: {
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        max: 60, // a sync on load plus one per contact change
+        algorithm: 'sliding-window-counter',
+        message: 'Too many contact sync requests from this IP'
+    },
+    notify: {
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        max: 30, // limit each IP to 30 pushes per windowMs
+        algorithm: 'token-bucket',
+        message: 'Too many notification requests from this IP'
+    },
+    notify_sender: {
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        max: 20, // keyed by the sender's userId, so rotating IPs doesn't help
+        algorithm: 'token-bucket',
+        message: 'Too many notifications sent from this device'
+    },
+    notify_target: {
+        windowMs: 15 * 60 * 1000, // 15 minutes
+        max: 10, // keyed by the target token, however many senders there are
+        algorithm: 'token-bucket',
+        message: 'Too many notifications sent to this device'
     }
-};
+} satisfies Record<string, RateLimitRule & { message: string }>;
 
 type EndpointType = keyof typeof RATE_LIMITS;
 
-// In-memory rate limiting store
-interface RateLimitStore {
-    [key: string]: {
-        count: number;
-        windowStart: number;
-    };
+// Stored state is tagged with its algorithm, so changing an endpoint's algorithm starts it afresh
+interface RateLimitEntry {
+    algorithm: RateLimitAlgorithm;
+    state: unknown;
 }
 
-const rateLimitStore: RateLimitStore = {};
+// Used when the configured store is unreachable, so an outage degrades to per-instance limits
+const fallbackStore = createMemoryRateLimitStore();
 
-// Rate limiting function
-export async function rateLimit(request: NextRequest, endpointType: EndpointType) {
-    // Get IP from request
-    const ip = (request as any).ip || request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-    const endpointConfig = RATE_LIMITS[endpointType];
+// Endpoint type first: identifiers (IPs, user IDs, tokens) may contain '_' or ':', endpoint types never contain ':'
+const rateLimitKey = (id: string, endpointType: EndpointType) => `${endpointType}:${id}`;
 
-    if (!endpointConfig) {
-        return { allowed: true };
-    }
+const stateFor = (entry: RateLimitEntry | null, rule: RateLimitRule) =>
+    entry && entry.algorithm === rule.algorithm ? entry.state : null;
 
-    const now = Date.now();
-    const key = `${ip}_${endpointType}`;
+async function countRequest(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    let decision: RateLimitDecision | null = null;
+    // The store may retry the update under contention; the last attempt's decision is the one that was applied
+    const consume = (entry: RateLimitEntry | null): RateLimitEntry => {
+        const result = consumeRateLimit(stateFor(entry, rule), rule, now);
+        decision = result.decision;
+        return { algorithm: rule.algorithm, state: result.state };
+    };
 
-    // Clean up old entries occasionally (simple cleanup)
-    if (Math.random() < 0.1) {
-        for (const storeKey in rateLimitStore) {
-            const entry = rateLimitStore[storeKey];
-            const type = storeKey.split('_')[1] as EndpointType;
-            if (RATE_LIMITS[type] && now - entry.windowStart > RATE_LIMITS[type].windowMs) {
-                delete rateLimitStore[storeKey];
-            }
-        }
+    try {
+        await getRateLimitStore().update(key, getRateLimitStateTtl(rule), consume);
+    } catch (error) {
+        console.error('Rate limit store error, using in-memory fallback:', error);
+        await fallbackStore.update(key, getRateLimitStateTtl(rule), consume);
     }
+    return decision!;
+}
 
-    // Get or initialize rate limit entry
-    let entry = rateLimitStore[key];
-    if (!entry) {
-        entry = {
-            count: 0,
-            windowStart: now
-        };
-        rateLimitStore[key] = entry;
-    }
+export type RateLimitResult = Awaited<ReturnType<typeof rateLimit>>;
 
-    // Check if we're in a new window
-    if (now - entry.windowStart > endpointConfig.windowMs) {
-        entry.count = 1;
-        entry.windowStart = now;
-        return { allowed: true, remaining: endpointConfig.max - 1, reset: endpointConfig.windowMs };
+// Rate limiting function; counts per IP unless an identifier (e.g. a user ID or target token) is given
+export async function rateLimit(request: NextRequest, endpointType: EndpointType, identifier?: string) {
+    // Get IP from request
+    const ip = identifier ?? ((request as NextRequest & { ip?: string }).ip || request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown');
+    const endpointConfig = RATE_LIMITS[endpointType];
+
+    if (!endpointConfig) {
+        return { allowed: true };
     }
 
-    // Increment count
-    entry.count++;
+    const decision = await countRequest(rateLimitKey(ip, endpointType), endpointConfig, Date.now());
 
     // Check if we've exceeded the limit
-    if (entry.count > endpointConfig.max) {
-        const timeSinceWindowStart = now - entry.windowStart;
-        const timeUntilReset = endpointConfig.windowMs - timeSinceWindowStart;
-        const retryAfter = Math.ceil(timeUntilReset / 1000); // Convert to seconds
-
+    if (!decision.allowed) {
         return {
             allowed: false,
-            retryAfter: retryAfter,
+            retryAfter: Math.ceil(decision.retryAfterMs / 1000), // Convert to seconds
             limit: endpointConfig.max,
             remaining: 0,
-            reset: timeUntilReset
+            reset: decision.reset
         };
     }
 
     return {
         allowed: true,
-        remaining: endpointConfig.max - entry.count,
-        reset: endpointConfig.windowMs - (now - entry.windowStart)
+        remaining: decision.remaining,
+        reset: decision.reset
     };
 }
 
 // Get rate limit info for debugging
-export function getRateLimitInfo(ip: string, endpointType: EndpointType) {
-    const key = `${ip}_${endpointType}`;
-    const entry = rateLimitStore[key];
+export async function getRateLimitInfo(ip: string, endpointType: EndpointType) {
     const config = RATE_LIMITS[endpointType];
-
-    if (!entry) {
-        return {
-            limit: config.max,
-            remaining: config.max,
-            reset: 0
-        };
-    }
-
-    const now = Date.now();
-    const timeSinceWindowStart = now - entry.windowStart;
-    const timeUntilReset = config.windowMs - timeSinceWindowStart;
+    const entry = await getRateLimitStore().get<RateLimitEntry>(rateLimitKey(ip, endpointType));
+    const { remaining, reset } = inspectRateLimit(stateFor(entry, config), config, Date.now());
 
     return {
         limit: config.max,
-        remaining: Math.max(0, config.max - entry.count),
-        reset: Math.ceil(timeUntilReset / 1000) // Convert to seconds
+        remaining,
+        reset: Math.ceil(reset / 1000) // Convert to seconds
     };
 }
 
+// 429 response for a rejected rateLimit result
+export function rateLimitExceededResponse(endpointType: EndpointType, rateLimitResult: RateLimitResult) {
+    return new Response(
+        JSON.stringify({
+            error: RATE_LIMITS[endpointType].message,
+            retryAfter: rateLimitResult.retryAfter,
+            limit: rateLimitResult.limit,
+            remaining: rateLimitResult.remaining,
+            reset: rateLimitResult.reset
+        }),
+        {
+            status: 429,
+            headers: {
+                'Content-Type': 'application/json',
+                'Retry-After': (rateLimitResult.retryAfter || 0).toString()
+            }
+        }
+    );
+}
+
 // Middleware for rate limiting (Higher order function)
 export function rateLimitMiddleware(endpointType: EndpointType) {
     return async (request: NextRequest, handler: (req: NextRequest) => Promise<Response>) => {
         const rateLimitResult = await rateLimit(request, endpointType);
 
         if (!rateLimitResult.allowed) {
-            return new Response(
-                JSON.stringify({
-                    error: RATE_LIMITS[endpointType].message,
-                    retryAfter: rateLimitResult.retryAfter,
-                    limit: rateLimitResult.limit,
-                    remaining: rateLimitResult.remaining,
-                    reset: rateLimitResult.reset
-                }),
-                {
-                    status: 429,
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Retry-After': (rateLimitResult.retryAfter || 0).toString()
-                    }
-                }
-            );
+            return rateLimitExceededResponse(endpointType, rateLimitResult);
         }
 
         const response = await handler(request);
@@ -164,7 +200,7 @@ export function rateLimitMiddleware(endpointType: EndpointType) {
 
 export async function distributedRateLimit(request: NextRequest, endpointType: EndpointType) {
     try {
-        // Fallback to in-memory rate limiting
+        // rateLimit already falls back to in-memory counting when the store fails; fail open on anything else
         return await rateLimit(request, endpointType);
     } catch (error) {
         console.error('Rate limiting error:', error);
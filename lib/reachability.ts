@@ -0,0 +1,54 @@
+// Peer reachability protocol
+// The connection manager dials the remote peer over a PeerJS data connection, completes a
+// hello/hello_ack handshake, then pings every keep-alive interval; the remote answers each ping with a pong.
+
+import type { ConnectionStatus } from '../types/connection';
+
+export const REACHABILITY_PURPOSE = 'reachability';
+// Consecutive unanswered heartbeats before the remote is considered unreachable
+export const MAX_MISSED_HEARTBEATS = 2;
+
+export type ReachabilityMessage =
+    | { type: 'hello'; peerId: string }
+    | { type: 'hello_ack'; peerId: string }
+    | { type: 'ping'; seq: number; sentAt: number }
+    | { type: 'pong'; seq: number; sentAt: number };
+
+const REACHABILITY_MESSAGE_TYPES = ['hello', 'hello_ack', 'ping', 'pong'];
+
+export function isReachabilityMessage(data: unknown): data is ReachabilityMessage {
+    if (!data || typeof data !== 'object') return false;
+    const message = data as Record<string, unknown>;
+    if (!REACHABILITY_MESSAGE_TYPES.includes(message.type as string)) return false;
+    if (message.type === 'hello' || message.type === 'hello_ack') {
+        return typeof message.peerId === 'string';
+    }
+    return typeof message.seq === 'number' && typeof message.sentAt === 'number';
+}
+
+// The reply a remote sends for an incoming message, if any
+export function getReachabilityReply(message: ReachabilityMessage, selfId: string): ReachabilityMessage | null {
+    switch (message.type) {
+        case 'hello':
+            return { type: 'hello_ack', peerId: selfId };
+        case 'ping':
+            return { type: 'pong', seq: message.seq, sentAt: message.sentAt };
+        default:
+            return null;
+    }
+}
+
+// Whether the remote has stayed silent for more than MAX_MISSED_HEARTBEATS intervals
+export function isHeartbeatOverdue(lastHeartbeatAt: number, now: number, keepAliveInterval: number): boolean {
+    return now - lastHeartbeatAt > keepAliveInterval * MAX_MISSED_HEARTBEATS;
+}
+
+// The signaling server opening only assigns our own peer ID; it says nothing about the remote
+export function withSignalingOpen(status: ConnectionStatus, peerId: string): ConnectionStatus {
+    return { ...status, peerId };
+}
+
+// The remote answered our hello with hello_ack, which is what 'connected' means
+export function withHandshakeComplete(status: ConnectionStatus, remotePeerId: string): ConnectionStatus {
+    return { ...status, state: 'connected', remotePeerId, error: undefined, retryCount: 0 };
+}
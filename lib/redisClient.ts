@@ -0,0 +1,177 @@
+import net from 'net';
+import tls from 'tls';
+
+// Minimal Redis client speaking RESP2 over a single socket: enough for the commands the rate limiter needs,
+// without pulling in a client library. Replies resolve in the order commands were sent.
+// Connecting and every command time out, so a half-open connection fails callers instead of hanging them.
+
+export const DEFAULT_REDIS_CONNECT_TIMEOUT = 5000;
+export const DEFAULT_REDIS_COMMAND_TIMEOUT = 2000;
+
+export type RedisReply = string | number | null | RedisReply[];
+
+export class RedisReplyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RedisReplyError';
+    }
+}
+
+export function encodeCommand(args: (string | number)[]): string {
+    let encoded = `*${args.length}\r\n`;
+    for (const arg of args) {
+        const value = String(arg);
+        encoded += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+    }
+    return encoded;
+}
+
+// Parse one reply starting at `offset`; null if the buffer doesn't hold a complete reply yet.
+// Error replies are returned as RedisReplyError values so they stay in order with the rest.
+export function parseReply(buffer: Buffer, offset = 0): { value: RedisReply | RedisReplyError; offset: number } | null {
+    const lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return null;
+
+    const type = String.fromCharCode(buffer[offset]);
+    const line = buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+        case '+':
+            return { value: line, offset: next };
+        case '-':
+            return { value: new RedisReplyError(line), offset: next };
+        case ':':
+            return { value: Number(line), offset: next };
+        case '$': {
+            const length = Number(line);
+            if (length === -1) return { value: null, offset: next };
+            if (buffer.length < next + length + 2) return null;
+            return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+        }
+        case '*': {
+            const count = Number(line);
+            if (count === -1) return { value: null, offset: next };
+            const items: RedisReply[] = [];
+            let position = next;
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buffer, position);
+                if (!item) return null;
+                // An error inside EXEC's reply array is reported as the array's error
+                if (item.value instanceof RedisReplyError) return { value: item.value, offset: item.offset };
+                items.push(item.value);
+                position = item.offset;
+            }
+            return { value: items, offset: position };
+        }
+        default:
+            throw new Error(`Unexpected Redis reply type: ${type}`);
+    }
+}
+
+export interface RedisConnection {
+    command(...args: (string | number)[]): Promise<RedisReply>;
+    close(): void;
+}
+
+interface PendingReply {
+    resolve: (value: RedisReply) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+export interface RedisConnectOptions {
+    connectTimeoutMs?: number;
+    commandTimeoutMs?: number;
+}
+
+// Connect to a redis:// or rediss:// URL (`redis://[:password@]host[:port][/db]`)
+export async function connectRedis(url: string, {
+    connectTimeoutMs = DEFAULT_REDIS_CONNECT_TIMEOUT,
+    commandTimeoutMs = DEFAULT_REDIS_COMMAND_TIMEOUT,
+}: RedisConnectOptions = {}): Promise<RedisConnection> {
+    const parsed = new URL(url);
+    const port = Number(parsed.port) || 6379;
+    const host = parsed.hostname || 'localhost';
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+        const connected = parsed.protocol === 'rediss:'
+            ? tls.connect({ host, port, servername: host }, () => resolve(connected))
+            : net.connect({ host, port }, () => resolve(connected));
+        const timer = setTimeout(() => connected.destroy(new Error('Redis connect timed out')), connectTimeoutMs);
+        const onError = (error: Error) => {
+            clearTimeout(timer);
+            reject(error);
+        };
+        connected.once('error', onError);
+        connected.once('connect', () => {
+            clearTimeout(timer);
+            connected.off('error', onError);
+        });
+    });
+
+    const pending: PendingReply[] = [];
+    let buffer = Buffer.alloc(0);
+
+    const failAll = (error: Error) => {
+        while (pending.length > 0) {
+            const waiter = pending.shift()!;
+            clearTimeout(waiter.timer);
+            waiter.reject(error);
+        }
+    };
+
+    // Replies are matched to commands by order, so once one is lost or unreadable the connection is unusable
+    const abort = (error: Error) => {
+        failAll(error);
+        socket.destroy();
+    };
+
+    socket.on('data', (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        try {
+            let reply = parseReply(buffer);
+            while (reply) {
+                buffer = buffer.subarray(reply.offset);
+                const waiter = pending.shift();
+                if (waiter) clearTimeout(waiter.timer);
+                if (reply.value instanceof RedisReplyError) waiter?.reject(reply.value);
+                else waiter?.resolve(reply.value);
+                reply = parseReply(buffer);
+            }
+        } catch (error) {
+            abort(error instanceof Error ? error : new Error(String(error)));
+        }
+    });
+    socket.on('error', failAll);
+    socket.on('close', () => failAll(new Error('Redis connection closed')));
+
+    const connection: RedisConnection = {
+        command(...args) {
+            if (socket.destroyed) {
+                return Promise.reject(new Error('Redis connection closed'));
+            }
+            return new Promise((resolve, reject) => {
+                const timer = setTimeout(() => abort(new Error(`Redis command timed out: ${args[0]}`)), commandTimeoutMs);
+                pending.push({ resolve, reject, timer });
+                socket.write(encodeCommand(args));
+            });
+        },
+        close() {
+            socket.destroy();
+        },
+    };
+
+    if (parsed.password) {
+        const password = decodeURIComponent(parsed.password);
+        await (parsed.username
+            ? connection.command('AUTH', decodeURIComponent(parsed.username), password)
+            : connection.command('AUTH', password));
+    }
+    const db = parsed.pathname.slice(1);
+    if (db) {
+        await connection.command('SELECT', db);
+    }
+
+    return connection;
+}
@@ -0,0 +1,37 @@
+import type { SecurityConfig } from '../types/connection';
+
+// Client security settings, read from the environment so that every module sees the same values:
+// lib/tokenStorage, lib/tokenService and useConnectionManager's defaults all come from getSecurityConfig().
+// Token storage and the token service are also used outside any hook (lib/firebase, useTokenManager),
+// so these can't be per-hook options.
+
+export interface ClientSecurityConfig extends SecurityConfig {
+    tokenValidationTimeout: number; // ms
+}
+
+export const DEFAULT_SECURITY_CONFIG: ClientSecurityConfig = {
+    tokenEncryptionEnabled: true,
+    tokenValidationEndpoint: '/api/tokens/verify',
+    tokenValidationTimeout: 10000,
+    tokenRefreshThreshold: 300000, // 5 minutes
+};
+
+const milliseconds = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// NEXT_PUBLIC_* variables must be referenced literally so Next.js can inline them
+export function getSecurityConfig(env: Record<string, string | undefined> = {
+    NEXT_PUBLIC_TOKEN_ENCRYPTION: process.env.NEXT_PUBLIC_TOKEN_ENCRYPTION,
+    NEXT_PUBLIC_TOKEN_VALIDATION_ENDPOINT: process.env.NEXT_PUBLIC_TOKEN_VALIDATION_ENDPOINT,
+    NEXT_PUBLIC_TOKEN_VALIDATION_TIMEOUT: process.env.NEXT_PUBLIC_TOKEN_VALIDATION_TIMEOUT,
+}): ClientSecurityConfig {
+    return {
+        // On unless explicitly turned off
+        tokenEncryptionEnabled: env.NEXT_PUBLIC_TOKEN_ENCRYPTION !== 'false',
+        tokenValidationEndpoint: env.NEXT_PUBLIC_TOKEN_VALIDATION_ENDPOINT || DEFAULT_SECURITY_CONFIG.tokenValidationEndpoint,
+        tokenValidationTimeout: milliseconds(env.NEXT_PUBLIC_TOKEN_VALIDATION_TIMEOUT, DEFAULT_SECURITY_CONFIG.tokenValidationTimeout),
+        tokenRefreshThreshold: DEFAULT_SECURITY_CONFIG.tokenRefreshThreshold,
+    };
+}
@@ -0,0 +1,73 @@
+// MediaRecorder wrapper for capturing a transmission's audio stream
+
+export interface StreamRecording {
+    blob: Blob;
+    mimeType: string;
+    startedAt: number;
+    duration: number;
+}
+
+export interface ActiveRecording {
+    startedAt: number;
+    stop: () => Promise<StreamRecording | null>;
+}
+
+// Opus in WebM where available, AAC in MP4 for Safari
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+export function getSupportedAudioMimeType(): string | undefined {
+    if (typeof MediaRecorder === 'undefined') return undefined;
+    return PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+// Start recording `stream`. Returns null when MediaRecorder is unavailable.
+export function startStreamRecording(stream: MediaStream): ActiveRecording | null {
+    if (typeof MediaRecorder === 'undefined') return null;
+
+    const mimeType = getSupportedAudioMimeType();
+    let recorder: MediaRecorder;
+    try {
+        recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (error) {
+        console.error('Failed to create MediaRecorder:', error);
+        return null;
+    }
+
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    // Timeslice so a tab closing mid-transmission still leaves usable chunks
+    recorder.start(1000);
+
+    let stopped: Promise<StreamRecording | null> | null = null;
+    const stop = () => {
+        if (stopped) return stopped;
+        stopped = new Promise(resolve => {
+            const finish = () => {
+                if (chunks.length === 0) {
+                    resolve(null);
+                    return;
+                }
+                const type = recorder.mimeType || mimeType || 'audio/webm';
+                resolve({
+                    blob: new Blob(chunks, { type }),
+                    mimeType: type,
+                    startedAt,
+                    duration: Date.now() - startedAt,
+                });
+            };
+
+            if (recorder.state === 'inactive') {
+                finish();
+                return;
+            }
+            recorder.onstop = finish;
+            try { recorder.stop(); } catch { finish(); }
+        });
+        return stopped;
+    };
+
+    return { startedAt, stop };
+}
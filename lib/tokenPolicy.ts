@@ -0,0 +1,76 @@
+// Token lifetime policy, read by the server (validator, verify route, maintenance) and the client (renewal timers).
+// Configure with NEXT_PUBLIC_TOKEN_* so both sides see the same values; durations are in seconds.
+//
+// A token expires at the earlier of:
+//  - registration + lifetime (each re-registration starts a new one; other activity never extends it), and
+//  - last activity + idle timeout (only when an idle timeout is set).
+// With sliding renewal, verifying a token counts as activity and pushes the idle deadline forward.
+
+const SECOND = 1000;
+// setTimeout fires immediately for delays that don't fit in a signed 32-bit integer (about 24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export interface TokenPolicy {
+    lifetimeMs: number;
+    idleTimeoutMs: number; // 0 disables the idle timeout
+    slidingRenewal: boolean;
+    renewBeforeMs: number; // clients renew this long before the token expires
+}
+
+export const DEFAULT_TOKEN_POLICY: TokenPolicy = {
+    lifetimeMs: 24 * 60 * 60 * SECOND,
+    idleTimeoutMs: 0,
+    slidingRenewal: false,
+    renewBeforeMs: 5 * 60 * SECOND,
+};
+
+export interface TokenTimes {
+    createdAt: Date | null;
+    lastActiveAt: Date | null;
+}
+
+const seconds = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed * SECOND : fallback;
+};
+
+// NEXT_PUBLIC_* variables must be referenced literally so Next.js can inline them
+export function getTokenPolicy(env: Record<string, string | undefined> = {
+    NEXT_PUBLIC_TOKEN_LIFETIME: process.env.NEXT_PUBLIC_TOKEN_LIFETIME,
+    NEXT_PUBLIC_TOKEN_IDLE_TIMEOUT: process.env.NEXT_PUBLIC_TOKEN_IDLE_TIMEOUT,
+    NEXT_PUBLIC_TOKEN_SLIDING_RENEWAL: process.env.NEXT_PUBLIC_TOKEN_SLIDING_RENEWAL,
+    NEXT_PUBLIC_TOKEN_RENEW_BEFORE: process.env.NEXT_PUBLIC_TOKEN_RENEW_BEFORE,
+}): TokenPolicy {
+    return {
+        lifetimeMs: seconds(env.NEXT_PUBLIC_TOKEN_LIFETIME, DEFAULT_TOKEN_POLICY.lifetimeMs),
+        idleTimeoutMs: seconds(env.NEXT_PUBLIC_TOKEN_IDLE_TIMEOUT, DEFAULT_TOKEN_POLICY.idleTimeoutMs),
+        slidingRenewal: env.NEXT_PUBLIC_TOKEN_SLIDING_RENEWAL === 'true',
+        renewBeforeMs: seconds(env.NEXT_PUBLIC_TOKEN_RENEW_BEFORE, DEFAULT_TOKEN_POLICY.renewBeforeMs),
+    };
+}
+
+// When the token expires, in ms since epoch; NaN if its registration time is unknown
+export function getTokenExpiry(policy: TokenPolicy, { createdAt, lastActiveAt }: TokenTimes): number {
+    const absolute = (createdAt?.getTime() ?? NaN) + policy.lifetimeMs;
+    if (!policy.idleTimeoutMs) return absolute;
+    const lastActive = lastActiveAt?.getTime() ?? createdAt?.getTime() ?? NaN;
+    return Math.min(absolute, lastActive + policy.idleTimeoutMs);
+}
+
+// A token without a known expiry counts as expired
+export function isTokenExpiredAt(policy: TokenPolicy, times: TokenTimes, now: number = Date.now()): boolean {
+    const expiresAt = getTokenExpiry(policy, times);
+    return !(now < expiresAt);
+}
+
+// Whether to record activity now. Only once half the idle timeout has passed, so a token in constant use
+// isn't written on every check; the idle deadline is therefore accurate to half the timeout.
+export function shouldRecordActivity(policy: TokenPolicy, lastActiveAt: Date | null, now: number = Date.now()): boolean {
+    if (!policy.slidingRenewal || !policy.idleTimeoutMs) return false;
+    return !lastActiveAt || now - lastActiveAt.getTime() >= policy.idleTimeoutMs / 2;
+}
+
+// Delay before a client should renew a token expiring at `expiresAt`, clamped to what setTimeout accepts
+export function getRenewalDelay(policy: TokenPolicy, expiresAt: number, now: number = Date.now()): number {
+    return Math.min(Math.max(0, expiresAt - policy.renewBeforeMs - now), MAX_TIMER_DELAY);
+}
@@ -0,0 +1,245 @@
+import admin from 'firebase-admin';
+import { getFirestore } from './firebaseInit';
+
+// Storage for registered FCM tokens and the token blacklist.
+// Select the backend with TOKEN_STORE: "firestore" (default) or "memory" (per process, for local development
+// and tests without Firebase credentials). Routes and the validator get it from getTokenRepository().
+
+export interface TokenRecord {
+    token: string;
+    userId: string | null;
+    metadata: Record<string, unknown>;
+    createdAt: Date | null;
+    updatedAt: Date | null;
+    lastActiveAt: Date | null; // registration or the last recorded activity; null on tokens saved before it existed
+    invalidated: boolean;
+    invalidatedAt: Date | null;
+    invalidationReason: string | null;
+}
+
+export interface TokenRepository {
+    get(token: string): Promise<TokenRecord | null>;
+    hasTokenForUser(userId: string): Promise<boolean>;
+    // Create the token, or move it to `userId` and merge `metadata` if it is already registered.
+    // Either way the token starts a new lifetime (createdAt resets), so callers must have authenticated a
+    // re-registration. Invalidation is never cleared: a revoked token stays revoked. Registering counts as activity.
+    save(token: string, userId: string, metadata: Record<string, unknown>): Promise<void>;
+    // Record activity for the token's idle timeout (see lib/tokenPolicy)
+    touch(token: string): Promise<void>;
+    // Resolves to false if the token isn't registered
+    invalidate(token: string, reason?: string): Promise<boolean>;
+    isBlacklisted(token: string): Promise<boolean>;
+    blacklist(token: string, reason: string): Promise<void>;
+    removeFromBlacklist(token: string): Promise<void>;
+}
+
+const TOKENS_COLLECTION = 'tokens';
+const TOKEN_BLACKLIST_COLLECTION = 'blacklistedTokens';
+
+const toDate = (value: unknown): Date | null =>
+    value instanceof admin.firestore.Timestamp ? value.toDate() : value instanceof Date ? value : null;
+
+function toTokenRecord(token: string, data: admin.firestore.DocumentData): TokenRecord {
+    return {
+        token,
+        userId: data.userId ?? null,
+        metadata: data.metadata ?? {},
+        createdAt: toDate(data.createdAt),
+        updatedAt: toDate(data.updatedAt),
+        lastActiveAt: toDate(data.lastActiveAt),
+        invalidated: data.invalidated === true,
+        invalidatedAt: toDate(data.invalidatedAt),
+        invalidationReason: data.invalidationReason ?? null,
+    };
+}
+
+export function createFirestoreTokenRepository(): TokenRepository {
+    const firestore = () => {
+        const instance = getFirestore();
+        if (!instance) {
+            throw new Error('Firestore not available');
+        }
+        return instance;
+    };
+    const tokens = () => firestore().collection(TOKENS_COLLECTION);
+    const blacklist = () => firestore().collection(TOKEN_BLACKLIST_COLLECTION);
+
+    return {
+        async get(token) {
+            const doc = await tokens().doc(token).get();
+            return doc.exists ? toTokenRecord(token, doc.data()!) : null;
+        },
+
+        async hasTokenForUser(userId) {
+            const snapshot = await tokens().where('userId', '==', userId).limit(1).get();
+            return !snapshot.empty;
+        },
+
+        async save(token, userId, metadata) {
+            const tokenRef = tokens().doc(token);
+            const existing = await tokenRef.get();
+
+            if (existing.exists) {
+                // Update existing token with new metadata
+                await tokenRef.update({
+                    userId,
+                    metadata: {
+                        ...existing.data()?.metadata,
+                        ...metadata,
+                        lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+                    },
+                    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    lastActiveAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+            } else {
+                // Create new token entry
+                await tokenRef.set({
+                    token,
+                    userId,
+                    metadata,
+                    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    lastActiveAt: admin.firestore.FieldValue.serverTimestamp(),
+                });
+            }
+        },
+
+        async touch(token) {
+            await tokens().doc(token).update({
+                lastActiveAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+        },
+
+        async invalidate(token, reason) {
+            try {
+                await tokens().doc(token).update({
+                    invalidated: true,
+                    invalidatedAt: admin.firestore.FieldValue.serverTimestamp(),
+                    ...(reason ? { invalidationReason: reason } : {}),
+                });
+                return true;
+            } catch (error) {
+                if ((error as { code?: number }).code === 5) return false; // 5 = NOT_FOUND
+                throw error;
+            }
+        },
+
+        async isBlacklisted(token) {
+            const doc = await blacklist().doc(token).get();
+            return doc.exists;
+        },
+
+        async blacklist(token, reason) {
+            await blacklist().doc(token).set({
+                token,
+                blacklistedAt: admin.firestore.FieldValue.serverTimestamp(),
+                reason,
+            });
+        },
+
+        async removeFromBlacklist(token) {
+            await blacklist().doc(token).delete();
+        },
+    };
+}
+
+// Process-local repository; contents are lost on restart
+export function createMemoryTokenRepository(now: () => number = Date.now): TokenRepository {
+    const records = new Map<string, TokenRecord>();
+    const blacklisted = new Set<string>();
+
+    return {
+        async get(token) {
+            const record = records.get(token);
+            return record ? { ...record, metadata: { ...record.metadata } } : null;
+        },
+
+        async hasTokenForUser(userId) {
+            for (const record of records.values()) {
+                if (record.userId === userId) return true;
+            }
+            return false;
+        },
+
+        async save(token, userId, metadata) {
+            const existing = records.get(token);
+            const time = new Date(now());
+            records.set(token, existing
+                ? {
+                    ...existing,
+                    userId,
+                    metadata: { ...existing.metadata, ...metadata, lastUpdated: time },
+                    createdAt: time,
+                    updatedAt: time,
+                    lastActiveAt: time,
+                }
+                : {
+                    token,
+                    userId,
+                    metadata: { ...metadata },
+                    createdAt: time,
+                    updatedAt: time,
+                    lastActiveAt: time,
+                    invalidated: false,
+                    invalidatedAt: null,
+                    invalidationReason: null,
+                });
+        },
+
+        async touch(token) {
+            const existing = records.get(token);
+            if (existing) {
+                records.set(token, { ...existing, lastActiveAt: new Date(now()) });
+            }
+        },
+
+        async invalidate(token, reason) {
+            const existing = records.get(token);
+            if (!existing) return false;
+            records.set(token, {
+                ...existing,
+                invalidated: true,
+                invalidatedAt: new Date(now()),
+                invalidationReason: reason ?? existing.invalidationReason,
+            });
+            return true;
+        },
+
+        async isBlacklisted(token) {
+            return blacklisted.has(token);
+        },
+
+        async blacklist(token) {
+            blacklisted.add(token);
+        },
+
+        async removeFromBlacklist(token) {
+            blacklisted.delete(token);
+        },
+    };
+}
+
+let tokenRepository: TokenRepository | null = null;
+
+export function getTokenRepository(): TokenRepository {
+    if (!tokenRepository) {
+        const backend = process.env.TOKEN_STORE || 'firestore';
+        switch (backend) {
+            case 'firestore':
+                tokenRepository = createFirestoreTokenRepository();
+                break;
+            case 'memory':
+                tokenRepository = createMemoryTokenRepository();
+                break;
+            default:
+                throw new Error(`Unknown TOKEN_STORE backend: ${backend}`);
+        }
+    }
+    return tokenRepository;
+}
+
+// Swap the repository, e.g. for an in-memory one in tests
+export function setTokenRepository(repository: TokenRepository | null) {
+    tokenRepository = repository;
+}
@@ -0,0 +1,117 @@
+import { withDeviceCredential } from './deviceCredentialClient';
+import { DEFAULT_SECURITY_CONFIG, getSecurityConfig } from './securityConfig';
+
+// Client-side token checks against the verify endpoint (see lib/securityConfig), shared by
+// lib/firebase, useTokenManager and useConnectionManager so a token is valid or not for all of them alike.
+//
+// When the server can't answer (offline, timed out, errored), the last answer it gave stands until the
+// expiry it reported; only an explicit "not valid" from the server makes a check `invalid`.
+
+export type TokenCheckStatus = 'valid' | 'invalid' | 'offline' | 'timeout' | 'error';
+
+export interface TokenCheck {
+    status: TokenCheckStatus;
+    valid: boolean; // the server's answer, or for offline/timeout/error its last answer if not yet expired
+    expiresAt: number | null; // ms since epoch, on our clock
+    message?: string;
+}
+
+export interface TokenServiceOptions {
+    endpoint?: string;
+    timeoutMs?: number;
+    fetch?: typeof fetch;
+    isOnline?: () => boolean;
+    now?: () => number;
+}
+
+export interface TokenService {
+    check(token: string): Promise<TokenCheck>;
+    // Drop what we know about `token`, or about every token
+    forget(token?: string): void;
+}
+
+const isNavigatorOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export function createTokenService({
+    endpoint = DEFAULT_SECURITY_CONFIG.tokenValidationEndpoint,
+    timeoutMs = DEFAULT_SECURITY_CONFIG.tokenValidationTimeout,
+    fetch: fetchImpl = (...args) => fetch(...args),
+    isOnline = isNavigatorOnline,
+    now = Date.now,
+}: TokenServiceOptions = {}): TokenService {
+    // Expiry of tokens the server last called valid
+    const knownExpiry = new Map<string, number>();
+    // Concurrent checks of one token share a request
+    const inFlight = new Map<string, Promise<TokenCheck>>();
+
+    const fallback = (token: string, status: TokenCheckStatus, message: string): TokenCheck => {
+        const expiresAt = knownExpiry.get(token) ?? null;
+        return { status, valid: expiresAt !== null && now() < expiresAt, expiresAt, message };
+    };
+
+    const request = async (token: string): Promise<TokenCheck> => {
+        if (!isOnline()) {
+            return fallback(token, 'offline', 'Device is offline');
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            const response = await fetchImpl(endpoint, {
+                method: 'POST',
+                headers: withDeviceCredential({ 'Content-Type': 'application/json' }),
+                body: JSON.stringify({ token }),
+                signal: controller.signal,
+            });
+            const body = await response.json().catch(() => ({}));
+
+            if (!response.ok) {
+                return fallback(token, 'error', body.error || `Token validation failed with status ${response.status}`);
+            }
+            if (!body.valid) {
+                knownExpiry.delete(token);
+                return { status: 'invalid', valid: false, expiresAt: null, message: body.message };
+            }
+
+            // expiresIn rather than expiresAt, so a skewed device clock doesn't matter
+            const expiresAt = now() + Math.max(0, Number(body.expiresIn) || 0);
+            knownExpiry.set(token, expiresAt);
+            return { status: 'valid', valid: now() < expiresAt, expiresAt };
+        } catch (error) {
+            if (controller.signal.aborted) {
+                return fallback(token, 'timeout', `No answer within ${timeoutMs} ms`);
+            }
+            // fetch rejects when the network is unreachable
+            return fallback(token, 'offline', error instanceof Error ? error.message : String(error));
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    return {
+        check(token) {
+            const pending = inFlight.get(token);
+            if (pending) return pending;
+
+            const result = request(token).finally(() => inFlight.delete(token));
+            inFlight.set(token, result);
+            return result;
+        },
+
+        forget(token) {
+            if (token === undefined) {
+                knownExpiry.clear();
+            } else {
+                knownExpiry.delete(token);
+            }
+        },
+    };
+}
+
+const securityConfig = getSecurityConfig();
+
+// The service every hook shares
+export const tokenService = createTokenService({
+    endpoint: securityConfig.tokenValidationEndpoint,
+    timeoutMs: securityConfig.tokenValidationTimeout,
+});
@@ -0,0 +1,190 @@
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { getSecurityConfig } from './securityConfig';
+
+// Persistent storage for this device's FCM token, shared by lib/firebase and useTokenManager.
+// Tokens are encrypted with a non-extractable AES-GCM key kept in IndexedDB: scripts on this
+// origin can use the key, but it can't be read back out or copied along with localStorage.
+
+const TOKEN_STORAGE_KEY = 'walkie_token';
+const TOKEN_TIMESTAMP_KEY = 'walkie_token_timestamp';
+// Timestamp key written by the old useTokenManager copy of this code
+const LEGACY_TIMESTAMP_KEY = 'walkie_token_saved_at';
+// Key of the XOR scheme used before AES-GCM; only kept to migrate old entries
+const LEGACY_XOR_KEY = 'walkie-lazy-token-key';
+
+const ENCRYPTED_PREFIX = 'aesgcm:';
+const PLAIN_PREFIX = 'plain:';
+
+const DB_NAME = 'walkie-keys';
+const DB_VERSION = 1;
+const STORE_NAME = 'keys';
+const TOKEN_KEY_ID = 'token';
+
+export type StoredToken =
+    | { format: 'aesgcm'; iv: Uint8Array<ArrayBuffer>; data: Uint8Array<ArrayBuffer> }
+    | { format: 'plain'; token: string }
+    | { format: 'legacy'; token: string };
+
+// NEXT_PUBLIC_TOKEN_ENCRYPTION=false stores tokens in plaintext instead (see lib/securityConfig)
+const encryptionEnabled = getSecurityConfig().tokenEncryptionEnabled;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+export function decodeLegacyToken(value: string): string {
+    return value.split('').map((char, index) => {
+        return String.fromCharCode(char.charCodeAt(0) ^ LEGACY_XOR_KEY.charCodeAt(index % LEGACY_XOR_KEY.length));
+    }).join('');
+}
+
+export function encodeEncryptedToken(iv: Uint8Array, data: Uint8Array): string {
+    return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(data)}`;
+}
+
+// Identify the format of a stored value; anything unprefixed predates this module and is XOR-encoded
+export function parseStoredToken(value: string): StoredToken | null {
+    if (value.startsWith(ENCRYPTED_PREFIX)) {
+        const [iv, data] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+        try {
+            return { format: 'aesgcm', iv: fromBase64(iv), data: fromBase64(data) };
+        } catch {
+            return null;
+        }
+    }
+    if (value.startsWith(PLAIN_PREFIX)) {
+        return { format: 'plain', token: value.slice(PLAIN_PREFIX.length) };
+    }
+    return value ? { format: 'legacy', token: decodeLegacyToken(value) } : null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let keyPromise: Promise<CryptoKey> | null = null;
+
+const getDb = () => {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                db.createObjectStore(STORE_NAME);
+            }
+        }).catch(error => {
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+};
+
+async function readKey(db: IDBDatabase): Promise<CryptoKey | undefined> {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    return requestToPromise<CryptoKey | undefined>(tx.objectStore(STORE_NAME).get(TOKEN_KEY_ID));
+}
+
+// Load the token key, generating it on first use
+const getTokenKey = () => {
+    if (!keyPromise) {
+        keyPromise = (async () => {
+            const db = await getDb();
+            const existing = await readKey(db);
+            if (existing) return existing;
+
+            const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+            try {
+                const tx = db.transaction(STORE_NAME, 'readwrite');
+                tx.objectStore(STORE_NAME).add(key, TOKEN_KEY_ID);
+                await transactionDone(tx);
+                return key;
+            } catch (error) {
+                // Another tab stored a key first; use that one so both can decrypt
+                const winner = await readKey(db);
+                if (winner) return winner;
+                throw error;
+            }
+        })().catch(error => {
+            keyPromise = null;
+            throw error;
+        });
+    }
+    return keyPromise;
+};
+
+async function encryptToken(token: string): Promise<string> {
+    const key = await getTokenKey();
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(token));
+    return encodeEncryptedToken(iv, new Uint8Array(data));
+}
+
+async function decryptToken(stored: { iv: Uint8Array<ArrayBuffer>; data: Uint8Array<ArrayBuffer> }): Promise<string> {
+    const key = await getTokenKey();
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, key, stored.data);
+    return new TextDecoder().decode(plain);
+}
+
+function clearStoredToken() {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    localStorage.removeItem(TOKEN_TIMESTAMP_KEY);
+    localStorage.removeItem(LEGACY_TIMESTAMP_KEY);
+}
+
+async function writeToken(token: string, savedAt: number) {
+    let value: string;
+    if (encryptionEnabled) {
+        try {
+            value = await encryptToken(token);
+        } catch (error) {
+            // Don't fall back to plaintext behind the user's back; the token is simply re-requested next launch
+            console.error('Failed to encrypt token; not persisting it', error);
+            clearStoredToken();
+            return;
+        }
+    } else {
+        value = `${PLAIN_PREFIX}${token}`;
+    }
+
+    localStorage.setItem(TOKEN_STORAGE_KEY, value);
+    localStorage.setItem(TOKEN_TIMESTAMP_KEY, savedAt.toString());
+    localStorage.removeItem(LEGACY_TIMESTAMP_KEY);
+}
+
+// When the stored token was saved (ms since epoch), or null if there is none
+export function getStoredTokenSavedAt(): number | null {
+    const savedAt = localStorage.getItem(TOKEN_TIMESTAMP_KEY) ?? localStorage.getItem(LEGACY_TIMESTAMP_KEY);
+    return savedAt ? parseInt(savedAt) : null;
+}
+
+// Save the token, or clear it when `token` is null
+export async function saveStoredToken(token: string | null): Promise<void> {
+    if (token) {
+        await writeToken(token, Date.now());
+    } else {
+        clearStoredToken();
+    }
+}
+
+export async function loadStoredToken(): Promise<string | null> {
+    const value = localStorage.getItem(TOKEN_STORAGE_KEY);
+    if (!value) return null;
+
+    const stored = parseStoredToken(value);
+    if (!stored) {
+        clearStoredToken();
+        return null;
+    }
+
+    if (stored.format === 'aesgcm') {
+        try {
+            return await decryptToken(stored);
+        } catch (error) {
+            // The key is gone (e.g. site data partially cleared); the entry can never be read again
+            console.error('Failed to decrypt token from storage', error);
+            clearStoredToken();
+            return null;
+        }
+    }
+
+    // Migrate XOR entries, and plaintext ones once encryption is turned on, keeping the original save time
+    if (stored.format === 'legacy' || encryptionEnabled) {
+        await writeToken(stored.token, getStoredTokenSavedAt() ?? Date.now());
+    }
+    return stored.token;
+}
@@ -1,9 +1,11 @@
-import admin from 'firebase-admin';
-import { firebaseAdmin, getFirestore, getMessaging, isFirebaseReady } from './firebaseInit';
+import { getMessaging } from './firebaseInit';
+import { getFcmErrorCode, isTokenRejectedError } from './fcmErrors';
+import { getTokenRepository, TokenRepository } from './tokenRepository';
+import { getTokenPolicy, isTokenExpiredAt, TokenPolicy } from './tokenPolicy';
 
 // Token validation configuration
-const TOKEN_EXPIRATION_TIME = 24 * 60 * 60 * 1000; // 24 hours
-const TOKEN_BLACKLIST_COLLECTION = 'blacklistedTokens';
+const DEFAULT_MESSAGING_CHECK_TTL = 10 * 60; // 10 minutes, in seconds
+const MAX_MESSAGING_CHECK_CACHE_SIZE = 1000;
 
 // Validate token format
 export function isValidTokenFormat(token: string): boolean {
@@ -12,101 +14,148 @@ export function isValidTokenFormat(token: string): boolean {
 }
 
 // Check if token is blacklisted
-export async function isTokenBlacklisted(token: string): Promise<boolean> {
+export async function isTokenBlacklisted(token: string, repository: TokenRepository = getTokenRepository()): Promise<boolean> {
     try {
-        if (!firebaseAdmin) return false;
-
-        const blacklistRef = firebaseAdmin.firestore().collection(TOKEN_BLACKLIST_COLLECTION);
-        const blacklistDoc = await blacklistRef.doc(token).get();
-
-        return blacklistDoc.exists;
-    } catch (error: any) {
+        return await repository.isBlacklisted(token);
+    } catch (error) {
         console.error('Error checking token blacklist:', error);
         return false; // Be permissive on error
     }
 }
 
-// Check token in Firebase
-export async function isTokenInFirebase(token: string): Promise<boolean> {
+// Check token is registered
+export async function isTokenInFirebase(token: string, repository: TokenRepository = getTokenRepository()): Promise<boolean> {
     try {
-        if (!firebaseAdmin) return false;
-
-        const tokenRef = firebaseAdmin.firestore().collection('tokens').doc(token);
-        const tokenDoc = await tokenRef.get();
-
-        return tokenDoc.exists;
-    } catch (error: any) {
-        console.error('Error checking token in Firebase:', error);
+        return (await repository.get(token)) !== null;
+    } catch (error) {
+        console.error('Error checking token registration:', error);
         return false; // Be permissive on error
     }
 }
 
 // Check token invalidation status
-export async function isTokenInvalidated(token: string): Promise<boolean> {
+export async function isTokenInvalidated(token: string, repository: TokenRepository = getTokenRepository()): Promise<boolean> {
     try {
-        if (!firebaseAdmin) return false;
-
-        const tokenRef = firebaseAdmin.firestore().collection('tokens').doc(token);
-        const tokenDoc = await tokenRef.get();
-
-        if (!tokenDoc.exists) return false;
-
-        const tokenData = tokenDoc.data();
-        return tokenData?.invalidated === true;
-    } catch (error: any) {
+        return (await repository.get(token))?.invalidated === true;
+    } catch (error) {
         console.error('Error checking token invalidation:', error);
         return false; // Be permissive on error
     }
 }
 
-// Check token expiration
-export async function isTokenExpired(token: string): Promise<boolean> {
+// Check token expiration against the lifetime and idle timeout in lib/tokenPolicy
+export async function isTokenExpired(
+    token: string,
+    repository: TokenRepository = getTokenRepository(),
+    policy: TokenPolicy = getTokenPolicy()
+): Promise<boolean> {
     try {
-        if (!firebaseAdmin) return true; // Assume expired if can't check
+        const record = await repository.get(token);
+        if (!record) return true;
 
-        const tokenRef = firebaseAdmin.firestore().collection('tokens').doc(token);
-        const tokenDoc = await tokenRef.get();
+        return isTokenExpiredAt(policy, record);
+    } catch (error) {
+        console.error('Error checking token expiration:', error);
+        return true; // Be conservative on error
+    }
+}
 
-        if (!tokenDoc.exists) return true;
+export interface MessagingCheck {
+    valid: boolean;
+    reason?: string;
+    errorCode?: string;
+}
 
-        const tokenData = tokenDoc.data();
-        const createdAt = tokenData?.createdAt?.toDate();
+interface MessagingCheckerOptions {
+    // Dry-run send to the token; throws the FCM error if the token is rejected
+    dryRun: (token: string) => Promise<void>;
+    ttlMs: number;
+    onRejected?: (token: string, errorCode: string) => Promise<void>;
+    now?: () => number;
+}
 
-        if (!createdAt) return true;
+// Checks tokens against FCM with dry-run sends, caching each token's answer for ttlMs.
+// Only a rejection is definitive: other failures (FCM unreachable, quota) pass the token without caching.
+export function createMessagingTokenChecker({ dryRun, ttlMs, onRejected, now = Date.now }: MessagingCheckerOptions) {
+    const cache = new Map<string, { result: MessagingCheck; checkedAt: number }>();
+
+    const remember = (token: string, result: MessagingCheck) => {
+        if (cache.size >= MAX_MESSAGING_CHECK_CACHE_SIZE) {
+            for (const [key, entry] of cache) {
+                if (now() - entry.checkedAt >= ttlMs) cache.delete(key);
+            }
+            // Still full of live entries: drop the oldest (Maps iterate in insertion order)
+            if (cache.size >= MAX_MESSAGING_CHECK_CACHE_SIZE) cache.delete(cache.keys().next().value!);
+        }
+        cache.set(token, { result, checkedAt: now() });
+        return result;
+    };
+
+    return async function checkTokenInMessaging(token: string): Promise<MessagingCheck> {
+        const cached = cache.get(token);
+        if (cached && now() - cached.checkedAt < ttlMs) {
+            return cached.result;
+        }
+
+        try {
+            await dryRun(token);
+            return remember(token, { valid: true });
+        } catch (error) {
+            // The dry run sends only `{ token }`, so invalid-argument can only be about the token
+            if (!isTokenRejectedError(error, { tokenOnly: true })) {
+                console.error('Error checking token in Firebase Messaging:', error);
+                return { valid: true }; // Be permissive on error
+            }
+
+            const errorCode = getFcmErrorCode(error)!;
+            const reason = errorCode === 'messaging/registration-token-not-registered'
+                ? 'Token is no longer registered with Firebase Messaging'
+                : `Token rejected by Firebase Messaging (${errorCode})`;
+            await onRejected?.(token, errorCode);
+            return remember(token, { valid: false, reason, errorCode });
+        }
+    };
+}
 
-        const tokenAge = Date.now() - createdAt.getTime();
-        return tokenAge > TOKEN_EXPIRATION_TIME;
-    } catch (error: any) {
-        console.error('Error checking token expiration:', error);
-        return true; // Be conservative on error
+// Mark a token FCM rejected as invalidated, recording FCM's reason
+export async function invalidateRejectedToken(token: string, errorCode: string, repository: TokenRepository = getTokenRepository()): Promise<void> {
+    try {
+        if (await repository.invalidate(token, errorCode)) {
+            console.log(`Token invalidated after FCM rejected it (${errorCode}): ${token.substring(0, 10)}...`);
+        }
+    } catch (error) {
+        console.error('Error invalidating rejected token:', error);
     }
 }
 
+export const checkTokenInMessaging = createMessagingTokenChecker({
+    dryRun: async (token) => {
+        // Without Firebase Messaging (e.g. offline development) there is nothing to check against
+        const messaging = getMessaging();
+        if (!messaging) return;
+        await messaging.send({ token }, true);
+    },
+    ttlMs: (Number(process.env.FCM_TOKEN_CHECK_TTL) || DEFAULT_MESSAGING_CHECK_TTL) * 1000,
+    onRejected: (token, errorCode) => invalidateRejectedToken(token, errorCode),
+});
+
 // Check token in Firebase Messaging
 export async function isTokenValidInMessaging(token: string): Promise<boolean> {
-    try {
-        // This would require Firebase Admin SDK's messaging API
-        // For now, we'll return true as a placeholder
-        // In a real implementation, you would use firebaseAdmin.messaging().send() with dryRun: true
-        return true;
-    } catch (error: any) {
-        console.error('Error checking token in Firebase Messaging:', error);
-        return false;
-    }
+    return (await checkTokenInMessaging(token)).valid;
 }
 
 // Main token validation function
-export async function validateToken(token: string): Promise<boolean> {
+export async function validateToken(token: string, repository: TokenRepository = getTokenRepository()): Promise<boolean> {
     if (!isValidTokenFormat(token)) {
         return false;
     }
 
     try {
         const [isBlacklisted, isInFirebase, isInvalidated, isExpired, isValidInMessaging] = await Promise.all([
-            isTokenBlacklisted(token),
-            isTokenInFirebase(token),
-            isTokenInvalidated(token),
-            isTokenExpired(token),
+            isTokenBlacklisted(token, repository),
+            isTokenInFirebase(token, repository),
+            isTokenInvalidated(token, repository),
+            isTokenExpired(token, repository),
             isTokenValidInMessaging(token)
         ]);
 
@@ -125,7 +174,7 @@ export async function validateToken(token: string): Promise<boolean> {
 }
 
 // Validate token with detailed info
-export async function validateTokenWithInfo(token: string): Promise<{
+export async function validateTokenWithInfo(token: string, repository: TokenRepository = getTokenRepository()): Promise<{
     valid: boolean;
     reasons: string[];
     details?: any;
@@ -139,12 +188,12 @@ export async function validateTokenWithInfo(token: string): Promise<{
     }
 
     try {
-        const [isBlacklisted, isInFirebase, isInvalidated, isExpired, isValidInMessaging] = await Promise.all([
-            isTokenBlacklisted(token),
-            isTokenInFirebase(token),
-            isTokenInvalidated(token),
-            isTokenExpired(token),
-            isTokenValidInMessaging(token)
+        const [isBlacklisted, isInFirebase, isInvalidated, isExpired, messagingCheck] = await Promise.all([
+            isTokenBlacklisted(token, repository),
+            isTokenInFirebase(token, repository),
+            isTokenInvalidated(token, repository),
+            isTokenExpired(token, repository),
+            checkTokenInMessaging(token)
         ]);
 
         details = {
@@ -152,14 +201,15 @@ export async function validateTokenWithInfo(token: string): Promise<{
             isInFirebase,
             isInvalidated,
             isExpired,
-            isValidInMessaging
+            isValidInMessaging: messagingCheck.valid,
+            messagingError: messagingCheck.errorCode
         };
 
         if (isBlacklisted) reasons.push('Token is blacklisted');
         if (!isInFirebase) reasons.push('Token not found in Firebase');
         if (isInvalidated) reasons.push('Token has been invalidated');
         if (isExpired) reasons.push('Token has expired');
-        if (!isValidInMessaging) reasons.push('Token invalid in Firebase Messaging');
+        if (!messagingCheck.valid) reasons.push(messagingCheck.reason || 'Token invalid in Firebase Messaging');
 
         const isValid = reasons.length === 0;
         return { valid: isValid, reasons, details };
@@ -172,37 +222,27 @@ export async function validateTokenWithInfo(token: string): Promise<{
 }
 
 // Add token to blacklist
-export async function blacklistToken(token: string): Promise<boolean> {
+export async function blacklistToken(token: string, repository: TokenRepository = getTokenRepository()): Promise<boolean> {
     try {
-        if (!firebaseAdmin) return false;
-
-        const blacklistRef = firebaseAdmin.firestore().collection(TOKEN_BLACKLIST_COLLECTION);
-        await blacklistRef.doc(token).set({
-            token,
-            blacklistedAt: admin.firestore.FieldValue.serverTimestamp(),
-            reason: 'Security concern'
-        });
+        await repository.blacklist(token, 'Security concern');
 
         console.log(`Token blacklisted: ${token}`);
         return true;
-    } catch (error: any) {
+    } catch (error) {
         console.error('Error blacklisting token:', error);
         return false;
     }
 }
 
 // Remove token from blacklist
-export async function removeTokenFromBlacklist(token: string): Promise<boolean> {
+export async function removeTokenFromBlacklist(token: string, repository: TokenRepository = getTokenRepository()): Promise<boolean> {
     try {
-        if (!firebaseAdmin) return false;
-
-        const blacklistRef = firebaseAdmin.firestore().collection(TOKEN_BLACKLIST_COLLECTION);
-        await blacklistRef.doc(token).delete();
+        await repository.removeFromBlacklist(token);
 
         console.log(`Token removed from blacklist: ${token}`);
         return true;
-    } catch (error: any) {
+    } catch (error) {
         console.error('Error removing token from blacklist:', error);
         return false;
     }
-}
\ No newline at end of file
+}
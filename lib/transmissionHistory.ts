@@ -0,0 +1,72 @@
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+// Local history of received transmissions, stored in IndexedDB
+const DB_NAME = 'walkie-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'transmissions';
+export const MAX_HISTORY_ENTRIES = 50;
+
+export interface TransmissionRecord {
+    id: string;
+    sender: string;
+    channel: string;
+    timestamp: number; // When the transmission started (ms since epoch)
+    duration: number; // Length in ms
+    mimeType: string;
+    audio: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('timestamp', 'timestamp');
+            }
+        }).catch(error => {
+            dbPromise = null;
+            throw error;
+        });
+    }
+    return dbPromise;
+};
+
+// Newest first
+export async function listTransmissions(): Promise<TransmissionRecord[]> {
+    const db = await getDb();
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const records = await requestToPromise<TransmissionRecord[]>(tx.objectStore(STORE_NAME).index('timestamp').getAll());
+    return records.reverse();
+}
+
+// Save a transmission, dropping the oldest entries beyond MAX_HISTORY_ENTRIES
+export async function saveTransmission(record: TransmissionRecord): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    store.put(record);
+
+    const keys = await requestToPromise(store.index('timestamp').getAllKeys());
+    const excess = keys.length - MAX_HISTORY_ENTRIES;
+    for (let i = 0; i < excess; i++) {
+        store.delete(keys[i]);
+    }
+
+    await transactionDone(tx);
+}
+
+export async function deleteTransmission(id: string): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).delete(id);
+    await transactionDone(tx);
+}
+
+export async function clearTransmissions(): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).clear();
+    await transactionDone(tx);
+}
@@ -0,0 +1,47 @@
+import { createHmac } from 'crypto';
+import { DEFAULT_ICE_SERVERS, IceServersResponse } from './iceServers';
+
+// Short-lived TURN credentials using the TURN REST API scheme
+// (draft-uberti-behave-turn-rest, as implemented by coturn's `use-auth-secret`):
+// username = "<expiry unix seconds>:<user id>", credential = base64(HMAC-SHA1(shared secret, username))
+
+export const DEFAULT_TURN_CREDENTIAL_TTL = 60 * 60; // 1 hour, in seconds
+
+export interface TurnCredentials {
+    username: string;
+    credential: string;
+    expiresAt: number; // ms since epoch
+}
+
+export function createTurnCredentials(
+    secret: string,
+    userId: string,
+    ttlSeconds: number = DEFAULT_TURN_CREDENTIAL_TTL,
+    now: number = Date.now()
+): TurnCredentials {
+    const expiry = Math.floor(now / 1000) + ttlSeconds;
+    const username = `${expiry}:${userId}`;
+    const credential = createHmac('sha1', secret).update(username).digest('base64');
+    return { username, credential, expiresAt: expiry * 1000 };
+}
+
+const parseUrls = (value: string | undefined) =>
+    (value || '').split(',').map(url => url.trim()).filter(Boolean);
+
+// ICE servers from STUN_URLS / TURN_URLS / TURN_SECRET / TURN_CREDENTIAL_TTL
+export function getIceServersConfig(userId: string, now: number = Date.now()): IceServersResponse {
+    const stunUrls = parseUrls(process.env.STUN_URLS);
+    const iceServers: RTCIceServer[] = stunUrls.length > 0 ? [{ urls: stunUrls }] : [...DEFAULT_ICE_SERVERS];
+
+    const turnUrls = parseUrls(process.env.TURN_URLS);
+    const secret = process.env.TURN_SECRET;
+    if (turnUrls.length === 0 || !secret) {
+        return { iceServers, expiresAt: null };
+    }
+
+    const ttl = Number(process.env.TURN_CREDENTIAL_TTL) || DEFAULT_TURN_CREDENTIAL_TTL;
+    const { username, credential, expiresAt } = createTurnCredentials(secret, userId, ttl, now);
+    iceServers.push({ urls: turnUrls, username, credential });
+
+    return { iceServers, expiresAt };
+}
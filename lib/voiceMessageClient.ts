@@ -0,0 +1,64 @@
+import type { StreamRecording } from './streamRecorder';
+import { withDeviceCredential } from './deviceCredentialClient';
+
+// Client for the store-and-forward voice message API
+
+export interface PendingVoiceMessage {
+    id: string;
+    from: string;
+    channel: string | null;
+    contentType: string;
+    size: number;
+    duration: number;
+    createdAt: string | null;
+}
+
+async function ensureOk(response: Response, action: string) {
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(`${action} failed: ${body.error || response.status}`);
+    }
+}
+
+export async function uploadVoiceMessage(options: {
+    recording: StreamRecording;
+    targetToken: string;
+    from: string;
+    channel: string;
+}): Promise<string> {
+    const form = new FormData();
+    form.append('audio', options.recording.blob, 'message');
+    form.append('targetToken', options.targetToken);
+    form.append('from', options.from);
+    form.append('channel', options.channel);
+    form.append('duration', String(options.recording.duration));
+
+    const response = await fetch('/api/messages', { method: 'POST', headers: withDeviceCredential(), body: form });
+    await ensureOk(response, 'Voice message upload');
+    const { messageId } = await response.json();
+    return messageId;
+}
+
+export async function listPendingVoiceMessages(token: string): Promise<PendingVoiceMessage[]> {
+    const response = await fetch(`/api/messages?token=${encodeURIComponent(token)}`, { headers: withDeviceCredential() });
+    await ensureOk(response, 'Voice message listing');
+    const { messages } = await response.json();
+    return messages;
+}
+
+export async function downloadVoiceMessage(id: string, token: string): Promise<Blob> {
+    const response = await fetch(`/api/messages/${encodeURIComponent(id)}?token=${encodeURIComponent(token)}`, {
+        headers: withDeviceCredential(),
+    });
+    await ensureOk(response, 'Voice message download');
+    return response.blob();
+}
+
+export async function acknowledgeVoiceMessage(id: string, token: string): Promise<void> {
+    const response = await fetch(`/api/messages/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: withDeviceCredential({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ token }),
+    });
+    await ensureOk(response, 'Voice message acknowledgement');
+}
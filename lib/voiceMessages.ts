@@ -0,0 +1,96 @@
+import admin from 'firebase-admin';
+import { randomUUID } from 'crypto';
+import { getFirestore } from './firebaseInit';
+import { getBlobStore } from './blobStore';
+
+// Store-and-forward voice message configuration
+const VOICE_MESSAGES_COLLECTION = 'voiceMessages';
+export const MAX_VOICE_MESSAGE_BYTES = 2 * 1024 * 1024; // ~2 minutes of Opus
+export const VOICE_MESSAGE_TTL = 7 * 24 * 60 * 60 * 1000; // Undelivered clips are dropped after 7 days
+
+export interface VoiceMessage {
+    id: string;
+    from: string;
+    channel: string | null;
+    targetToken: string;
+    contentType: string;
+    size: number;
+    duration: number;
+    createdAt: string | null;
+}
+
+function messagesCollection() {
+    const firestore = getFirestore();
+    if (!firestore) {
+        throw new Error('Firestore not available');
+    }
+    return firestore.collection(VOICE_MESSAGES_COLLECTION);
+}
+
+function toVoiceMessage(id: string, data: FirebaseFirestore.DocumentData): VoiceMessage {
+    return {
+        id,
+        from: data.from,
+        channel: data.channel ?? null,
+        targetToken: data.targetToken,
+        contentType: data.contentType,
+        size: data.size,
+        duration: data.duration,
+        createdAt: data.createdAt?.toDate().toISOString() ?? null,
+    };
+}
+
+// Store the clip and its metadata, returning the new message ID
+export async function createVoiceMessage(input: {
+    from: string;
+    channel: string | null;
+    targetToken: string;
+    contentType: string;
+    duration: number;
+    audio: Buffer;
+}): Promise<string> {
+    const id = randomUUID();
+    await getBlobStore().put(id, input.audio, input.contentType);
+
+    try {
+        await messagesCollection().doc(id).set({
+            from: input.from,
+            channel: input.channel,
+            targetToken: input.targetToken,
+            contentType: input.contentType,
+            size: input.audio.length,
+            duration: input.duration,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    } catch (error) {
+        await getBlobStore().delete(id);
+        throw error;
+    }
+
+    return id;
+}
+
+export async function getVoiceMessage(id: string): Promise<VoiceMessage | null> {
+    const doc = await messagesCollection().doc(id).get();
+    if (!doc.exists) return null;
+    return toVoiceMessage(doc.id, doc.data()!);
+}
+
+// Undelivered, unexpired messages addressed to `targetToken`, oldest first
+export async function listPendingVoiceMessages(targetToken: string): Promise<VoiceMessage[]> {
+    const snapshot = await messagesCollection().where('targetToken', '==', targetToken).get();
+    const cutoff = Date.now() - VOICE_MESSAGE_TTL;
+
+    return snapshot.docs
+        .map(doc => toVoiceMessage(doc.id, doc.data()))
+        .filter(message => !message.createdAt || new Date(message.createdAt).getTime() > cutoff)
+        .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+}
+
+// Remove a delivered message and its clip
+export async function deleteVoiceMessage(id: string): Promise<void> {
+    await Promise.all([
+        messagesCollection().doc(id).delete(),
+        getBlobStore().delete(id),
+    ]);
+}
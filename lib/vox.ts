@@ -0,0 +1,49 @@
+// Voice-operated transmit (VOX): level metering and the open/close gate
+
+export interface VoxSettings {
+    enabled: boolean;
+    threshold: number; // RMS level (0-1) that opens a transmission
+    hangover: number; // ms of silence before the transmission closes
+}
+
+export const DEFAULT_VOX_SETTINGS: VoxSettings = {
+    enabled: false,
+    threshold: 0.05,
+    hangover: 800,
+};
+
+export const VOX_SAMPLE_INTERVAL = 50; // ms between level readings
+
+// RMS of time-domain samples centred on 0 (AnalyserNode.getFloatTimeDomainData)
+export function computeRmsLevel(samples: Float32Array): number {
+    if (samples.length === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+    }
+    return Math.min(1, Math.sqrt(sum / samples.length));
+}
+
+export interface VoxGateState {
+    open: boolean;
+    lastVoiceAt: number;
+}
+
+export const initialVoxGateState: VoxGateState = { open: false, lastVoiceAt: 0 };
+
+// Advance the gate by one level reading.
+// Opens as soon as the level crosses the threshold; closes once it has stayed below for the hangover.
+export function updateVoxGate(
+    state: VoxGateState,
+    level: number,
+    now: number,
+    settings: Pick<VoxSettings, 'threshold' | 'hangover'>
+): VoxGateState {
+    if (level >= settings.threshold) {
+        return { open: true, lastVoiceAt: now };
+    }
+    if (state.open && now - state.lastVoiceAt >= settings.hangover) {
+        return { ...state, open: false };
+    }
+    return state;
+}
@@ -1,5 +1,11 @@
+import packageJson from "./package.json";
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // Reported with each device registration
+  env: {
+    NEXT_PUBLIC_APP_VERSION: packageJson.version,
+  },
   async headers() {
     return [
       {
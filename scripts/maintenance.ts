@@ -0,0 +1,22 @@
+// Run the maintenance job from the command line, with the same Firebase Admin and MAINTENANCE_* settings as the server:
+//
+//   pnpm maintenance             # delete (or archive, with MAINTENANCE_ARCHIVE=true) what is past retention
+//   pnpm maintenance --dry-run   # only report what would be removed
+
+import { isFirebaseReady } from '../lib/firebaseInit';
+import { runMaintenance } from '../lib/maintenance';
+
+async function main() {
+    if (!isFirebaseReady()) {
+        throw new Error('Firebase Admin not initialized; check FIREBASE_* environment variables');
+    }
+
+    const dryRun = process.argv.includes('--dry-run');
+    const report = await runMaintenance({ dryRun });
+    console.log(JSON.stringify(report, null, 2));
+}
+
+main().catch((error) => {
+    console.error('Maintenance failed:', error);
+    process.exit(1);
+});
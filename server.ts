@@ -0,0 +1,58 @@
+// Custom server entry: serves the Next.js app and a bundled PeerJS signaling server,
+// so the app works without the public PeerJS cloud broker (e.g. on restricted networks).
+//
+//   pnpm dev:server     # development
+//   pnpm start:server   # production, after `pnpm build`
+//
+// The signaling server listens on its own port because it owns WebSocket upgrades on its server.
+// Clients find it through NEXT_PUBLIC_PEER_HOST / _PORT / _PATH / _KEY / _SECURE.
+
+import { createServer } from 'http';
+import next from 'next';
+import { PeerServer } from 'peer';
+
+const dev = process.env.NODE_ENV !== 'production';
+const hostname = process.env.HOSTNAME || '0.0.0.0';
+const port = Number(process.env.PORT) || 3000;
+
+const peerServerPort = Number(process.env.PEER_SERVER_PORT) || 9000;
+const peerServerPath = process.env.PEER_SERVER_PATH || '/peerjs';
+const peerServerKey = process.env.PEER_SERVER_KEY || 'peerjs';
+
+async function main() {
+    const peerServer = PeerServer({
+        host: hostname,
+        port: peerServerPort,
+        path: peerServerPath,
+        key: peerServerKey,
+        // Trust X-Forwarded-* when deployed behind a TLS-terminating proxy
+        proxied: process.env.PEER_SERVER_PROXIED === 'true',
+    }, () => {
+        console.log(`PeerJS signaling server listening on ${hostname}:${peerServerPort}${peerServerPath}`);
+    });
+
+    peerServer.on('connection', (client) => {
+        if (dev) console.log('Peer connected:', client.getId());
+    });
+    peerServer.on('disconnect', (client) => {
+        if (dev) console.log('Peer disconnected:', client.getId());
+    });
+    peerServer.on('error', (error) => {
+        console.error('PeerJS signaling server error:', error);
+    });
+
+    const app = next({ dev, hostname, port });
+    const handle = app.getRequestHandler();
+    await app.prepare();
+
+    createServer((req, res) => {
+        handle(req, res);
+    }).listen(port, hostname, () => {
+        console.log(`Next.js ready on http://${hostname}:${port}`);
+    });
+}
+
+main().catch((error) => {
+    console.error('Failed to start server:', error);
+    process.exit(1);
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { BlobStore, createLocalFileBlobStore, isValidBlobKey } from '../lib/blobStore';
+
+describe('Local File Blob Store', () => {
+    let rootDir: string;
+    let store: BlobStore;
+
+    beforeEach(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'blob-store-'));
+        store = createLocalFileBlobStore(path.join(rootDir, 'nested'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    it('should round-trip data and content type', async () => {
+        await store.put('clip-1', Buffer.from('opus-bytes'), 'audio/webm;codecs=opus');
+
+        const blob = await store.get('clip-1');
+        expect(blob?.data.toString()).toBe('opus-bytes');
+        expect(blob?.contentType).toBe('audio/webm;codecs=opus');
+    });
+
+    it('should return null for missing keys', async () => {
+        expect(await store.get('missing')).toBeNull();
+    });
+
+    it('should delete blobs, tolerating missing keys', async () => {
+        await store.put('clip-2', Buffer.from('x'), 'audio/mp4');
+        await store.delete('clip-2');
+        await store.delete('clip-2');
+
+        expect(await store.get('clip-2')).toBeNull();
+    });
+
+    it('should reject keys that could escape the storage directory', async () => {
+        expect(isValidBlobKey('../etc/passwd')).toBe(false);
+        expect(isValidBlobKey('a/b')).toBe(false);
+        expect(isValidBlobKey('')).toBe(false);
+        expect(isValidBlobKey('3f2b8c1e-9d4a-4c55-8e1b-0a7d6f5e4c3b')).toBe(true);
+
+        await expect(store.put('../escape', Buffer.from('x'), 'audio/webm')).rejects.toThrow('Invalid blob key');
+    });
+});
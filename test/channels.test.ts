@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+    CHANNEL_MEMBER_TTL,
+    ChannelStore,
+    createMemoryChannelStore,
+    isValidChannelId,
+    isValidPeerId,
+    setChannelStore,
+} from '../lib/channels';
+import { createDeviceCredential } from '../lib/deviceCredentials';
+import { DELETE as leaveRoute, GET as listRoute, POST as joinRoute } from '../app/api/channels/route';
+
+describe('Channels', () => {
+    let time: number;
+    let store: ChannelStore;
+
+    beforeEach(() => {
+        time = 1_700_000_000_000;
+        store = createMemoryChannelStore(() => time);
+    });
+
+    it('should accept PeerJS-style channel and peer IDs only', () => {
+        expect(isValidChannelId('ops-1')).toBe(true);
+        expect(isValidPeerId('alpha_2')).toBe(true);
+        expect(isValidChannelId('-ops')).toBe(false);
+        expect(isValidPeerId('alpha 2')).toBe(false);
+        expect(isValidPeerId(42)).toBe(false);
+    });
+
+    it('should list members until they stop heartbeating', async () => {
+        await store.join('ops', 'alpha', 'user-alpha-01');
+        time += CHANNEL_MEMBER_TTL / 2;
+        await store.join('ops', 'bravo', 'user-bravo-01');
+
+        expect((await store.listMembers('ops')).map(member => member.peerId)).toEqual(['alpha', 'bravo']);
+
+        time += CHANNEL_MEMBER_TTL / 2 + 1;
+        expect((await store.listMembers('ops')).map(member => member.peerId)).toEqual(['bravo']);
+
+        await store.join('ops', 'alpha', 'user-alpha-01');
+        expect(await store.listMembers('ops')).toContainEqual({
+            peerId: 'alpha',
+            joinedAt: new Date(1_700_000_000_000).toISOString(),
+            lastSeen: new Date(time).toISOString(),
+        });
+    });
+
+    it('should keep a live peerId with the user who joined with it', async () => {
+        await store.join('ops', 'alpha', 'user-alpha-01');
+
+        expect(await store.join('ops', 'alpha', 'user-mallory-01')).toBe(false);
+        expect(await store.leave('ops', 'alpha', 'user-mallory-01')).toBe(false);
+        expect(await store.listMembers('ops')).toHaveLength(1);
+
+        expect(await store.leave('ops', 'alpha', 'user-alpha-01')).toBe(true);
+        expect(await store.listMembers('ops')).toEqual([]);
+    });
+
+    it('should let another user take over a peerId once it has gone stale', async () => {
+        await store.join('ops', 'alpha', 'user-alpha-01');
+        time += CHANNEL_MEMBER_TTL + 1;
+
+        expect(await store.join('ops', 'alpha', 'user-bravo-01')).toBe(true);
+        expect(await store.join('ops', 'alpha', 'user-alpha-01')).toBe(false);
+    });
+});
+
+describe('Channel Routes', () => {
+    const originalEnv = { ...process.env };
+    const credentialFor = (userId: string) =>
+        createDeviceCredential('route-test-secret', `fcm-token-${userId}-`.padEnd(80, 'x'), userId).credential;
+
+    beforeEach(() => {
+        process.env.DEVICE_CREDENTIAL_SECRET = 'route-test-secret';
+        setChannelStore(createMemoryChannelStore());
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    afterAll(() => {
+        setChannelStore(null);
+    });
+
+    const request = (method: string, body: unknown, credential?: string) =>
+        new Request('http://localhost/api/channels', {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(credential ? { Authorization: `Bearer ${credential}` } : {}),
+            },
+            body: JSON.stringify(body),
+        });
+
+    it('should require a device credential to join, leave or list', async () => {
+        expect((await joinRoute(request('POST', { channel: 'ops', peerId: 'alpha' }))).status).toBe(401);
+        expect((await leaveRoute(request('DELETE', { channel: 'ops', peerId: 'alpha' }))).status).toBe(401);
+        expect((await listRoute(new Request('http://localhost/api/channels?channel=ops'))).status).toBe(401);
+    });
+
+    it('should stop other devices from taking or removing a member', async () => {
+        const alpha = credentialFor('user-alpha-01');
+        const mallory = credentialFor('user-mallory-01');
+
+        const joined = await joinRoute(request('POST', { channel: 'ops', peerId: 'alpha' }, alpha));
+        expect(joined.status).toBe(200);
+        expect((await joined.json()).members.map((member: { peerId: string }) => member.peerId)).toEqual(['alpha']);
+
+        expect((await joinRoute(request('POST', { channel: 'ops', peerId: 'alpha' }, mallory))).status).toBe(403);
+        expect((await leaveRoute(request('DELETE', { channel: 'ops', peerId: 'alpha' }, mallory))).status).toBe(403);
+
+        const listed = await listRoute(new Request('http://localhost/api/channels?channel=ops', {
+            headers: { Authorization: `Bearer ${mallory}` },
+        }));
+        expect((await listed.json()).members).toHaveLength(1);
+
+        expect((await leaveRoute(request('DELETE', { channel: 'ops', peerId: 'alpha' }, alpha))).status).toBe(200);
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { computeQualityScore, deriveConnectionMetrics } from '../lib/connectionMetrics';
+
+// RTCStatsReport is a read-only Map keyed by stats ID
+const makeReport = (entries: Record<string, unknown>[]) =>
+    new Map(entries.map((entry, i) => [`stat-${i}`, entry])) as unknown as RTCStatsReport;
+
+describe('Connection Metrics', () => {
+    const firstReport = makeReport([
+        { type: 'candidate-pair', state: 'succeeded', nominated: true, currentRoundTripTime: 0.042 },
+        { type: 'candidate-pair', state: 'failed', nominated: false, currentRoundTripTime: 0.5 },
+        { type: 'inbound-rtp', kind: 'audio', jitter: 0.0123, packetsLost: 2, packetsReceived: 98, bytesReceived: 10000 },
+        { type: 'outbound-rtp', kind: 'audio', bytesSent: 5000 },
+    ]);
+
+    it('should derive RTT and jitter in milliseconds from the active candidate pair', () => {
+        const { metrics } = deriveConnectionMetrics(firstReport, null, 1000);
+        expect(metrics.rtt).toBe(42);
+        expect(metrics.jitter).toBe(12.3);
+    });
+
+    it('should report cumulative loss and no bitrate on the first sample', () => {
+        const { metrics, sample } = deriveConnectionMetrics(firstReport, null, 1000);
+        expect(metrics.packetLoss).toBe(2);
+        expect(metrics.bitrate).toBeNull();
+        expect(sample).toEqual({ timestamp: 1000, bytes: 15000, packetsLost: 2, packetsReceived: 98 });
+    });
+
+    it('should compute loss and bitrate over the interval between samples', () => {
+        const { sample } = deriveConnectionMetrics(firstReport, null, 1000);
+        const secondReport = makeReport([
+            { type: 'inbound-rtp', kind: 'audio', jitter: 0.01, packetsLost: 7, packetsReceived: 193, bytesReceived: 20000 },
+            { type: 'outbound-rtp', kind: 'audio', bytesSent: 10000 },
+        ]);
+
+        const { metrics } = deriveConnectionMetrics(secondReport, sample, 3000);
+        // 5 lost of 100 packets in the interval
+        expect(metrics.packetLoss).toBe(5);
+        // 15000 bytes over 2 seconds
+        expect(metrics.bitrate).toBe(60);
+    });
+
+    it('should fall back to RTCP round-trip time without a nominated pair', () => {
+        const report = makeReport([{ type: 'remote-inbound-rtp', kind: 'audio', roundTripTime: 0.08 }]);
+        expect(deriveConnectionMetrics(report, null, 1000).metrics.rtt).toBe(80);
+    });
+
+    it('should score quality from latency, jitter and loss', () => {
+        expect(computeQualityScore(null, null, null)).toBeNull();
+        expect(computeQualityScore(20, 2, 0)).toBeGreaterThan(90);
+        expect(computeQualityScore(400, 40, 10)).toBeLessThan(computeQualityScore(100, 10, 1)!);
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { Contact, findPairedContact, mergeContacts, sanitizeContacts, sortContacts, toSyncedContact } from '../lib/contacts';
+
+const token = (n: number) => `token-${n}-`.padEnd(60, 'x');
+
+const contact = (overrides: Partial<Contact>): Contact => ({
+    id: 'c1',
+    nickname: 'ALPHA',
+    peerId: 'alpha',
+    fcmToken: token(1),
+    lastSeen: null,
+    pairedAt: 1000,
+    updatedAt: 1000,
+    ...overrides,
+});
+
+describe('Contacts', () => {
+    it('should keep the most recently updated copy when merging', () => {
+        const local = [contact({ nickname: 'LOCAL', updatedAt: 2000 }), contact({ id: 'c2', updatedAt: 1000 })];
+        const remote = [contact({ nickname: 'REMOTE', updatedAt: 1500 }), contact({ id: 'c2', nickname: 'NEWER', updatedAt: 3000 }), contact({ id: 'c3' })];
+
+        const merged = mergeContacts(local, remote);
+        expect(merged).toHaveLength(3);
+        expect(merged.find(c => c.id === 'c1')?.nickname).toBe('LOCAL');
+        expect(merged.find(c => c.id === 'c2')?.nickname).toBe('NEWER');
+    });
+
+    it('should propagate removals through tombstones', () => {
+        const merged = mergeContacts([contact({ deleted: true, updatedAt: 2000 })], [contact({})]);
+        expect(merged[0].deleted).toBe(true);
+        expect(sortContacts(merged)).toEqual([]);
+    });
+
+    it('should match a new pairing by token or peer ID, ignoring removed contacts', () => {
+        const contacts = [contact({}), contact({ id: 'c2', peerId: 'bravo', fcmToken: token(2), deleted: true })];
+        expect(findPairedContact(contacts, null, token(1))?.id).toBe('c1');
+        expect(findPairedContact(contacts, 'alpha', token(9))?.id).toBe('c1');
+        expect(findPairedContact(contacts, 'bravo', token(2))).toBeUndefined();
+    });
+
+    it('should sort by last seen, falling back to pairing time', () => {
+        const sorted = sortContacts([
+            contact({ id: 'old', pairedAt: 1000 }),
+            contact({ id: 'seen', pairedAt: 500, lastSeen: 5000 }),
+            contact({ id: 'new', pairedAt: 3000 }),
+        ]);
+        expect(sorted.map(c => c.id)).toEqual(['seen', 'new', 'old']);
+    });
+
+    it('should reject malformed contact lists and strips unknown fields', () => {
+        expect(sanitizeContacts('nope')).toBeNull();
+        expect(sanitizeContacts([{ id: 'c1' }])).toBeNull();
+        expect(sanitizeContacts([{ ...contact({}), extra: 'field' }])).toEqual([contact({})]);
+    });
+
+    it('should keep the device-local E2EE secret out of sync and through merges', () => {
+        const local = contact({ e2eeSecret: 'secret', updatedAt: 1000 });
+        expect(toSyncedContact(local)).not.toHaveProperty('e2eeSecret');
+
+        const merged = mergeContacts([local], [contact({ nickname: 'RENAMED', updatedAt: 2000 })]);
+        expect(merged[0]).toMatchObject({ nickname: 'RENAMED', e2eeSecret: 'secret' });
+    });
+});
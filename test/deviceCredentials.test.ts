@@ -0,0 +1,84 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    authenticateDevice,
+    createDeviceCredential,
+    credentialMatchesToken,
+    hashToken,
+    verifyDeviceCredential,
+} from '../lib/deviceCredentials';
+import { pairingId } from '../lib/pairings';
+
+describe('Device Credentials', () => {
+    const now = 1_700_000_000_000;
+    const token = 'fcm-token-'.padEnd(80, 'x');
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    const requestWith = (authorization?: string) =>
+        new Request('http://localhost/api/notify', {
+            method: 'POST',
+            headers: authorization ? { Authorization: authorization } : {},
+        });
+
+    it('should round-trip claims bound to the token hash and user', () => {
+        const { credential, expiresAt } = createDeviceCredential('north-pole', token, 'user-alpha-01', 3600, now);
+
+        expect(expiresAt).toBe(now + 3600 * 1000);
+        expect(credential).not.toContain(token);
+
+        const claims = verifyDeviceCredential('north-pole', credential, now + 1000);
+        expect(claims).toEqual({ tokenHash: hashToken(token), userId: 'user-alpha-01', issuedAt: now, expiresAt });
+        expect(credentialMatchesToken(claims!, token)).toBe(true);
+        expect(credentialMatchesToken(claims!, `${token}y`)).toBe(false);
+    });
+
+    it('should reject expired credentials', () => {
+        const { credential } = createDeviceCredential('north-pole', token, 'user-alpha-01', 60, now);
+
+        expect(verifyDeviceCredential('north-pole', credential, now + 60 * 1000)).toBeNull();
+    });
+
+    it('should reject credentials signed with another secret or with altered claims', () => {
+        const { credential } = createDeviceCredential('north-pole', token, 'user-alpha-01', 3600, now);
+        const [version, , signature] = credential.split('.');
+        const forgedClaims = Buffer.from(JSON.stringify({
+            th: hashToken(token), uid: 'user-mallory', iat: now / 1000, exp: now / 1000 + 3600,
+        })).toString('base64url');
+
+        expect(verifyDeviceCredential('south-pole', credential, now)).toBeNull();
+        expect(verifyDeviceCredential('north-pole', `${version}.${forgedClaims}.${signature}`, now)).toBeNull();
+        expect(verifyDeviceCredential('north-pole', 'not-a-credential', now)).toBeNull();
+    });
+
+    it('should authenticate requests carrying a bearer credential', () => {
+        process.env.DEVICE_CREDENTIAL_SECRET = 'north-pole';
+        const { credential } = createDeviceCredential('north-pole', token, 'user-alpha-01', 3600, now);
+
+        const result = authenticateDevice(requestWith(`Bearer ${credential}`), now);
+        expect('claims' in result && result.claims.userId).toBe('user-alpha-01');
+    });
+
+    it('should answer 401 without a valid credential', () => {
+        process.env.DEVICE_CREDENTIAL_SECRET = 'north-pole';
+
+        const missing = authenticateDevice(requestWith(), now);
+        const invalid = authenticateDevice(requestWith('Bearer v1.e30.bogus'), now);
+        expect('response' in missing && missing.response.status).toBe(401);
+        expect('response' in invalid && invalid.response.status).toBe(401);
+    });
+
+    it('should refuse every request when no secret is configured', () => {
+        delete process.env.DEVICE_CREDENTIAL_SECRET;
+        const { credential } = createDeviceCredential('north-pole', token, 'user-alpha-01', 3600, now);
+
+        const result = authenticateDevice(requestWith(`Bearer ${credential}`), now);
+        expect('response' in result && result.response.status).toBe(500);
+    });
+
+    it('should key pairings the same way from either side', () => {
+        expect(pairingId('user-bravo-02', 'user-alpha-01')).toBe(pairingId('user-alpha-01', 'user-bravo-02'));
+    });
+});
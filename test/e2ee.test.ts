@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { deriveE2eeKey, generateE2eeSecret, isValidE2eeSecret, selectOutgoingKey } from '../lib/e2ee';
+import { decryptFrame, encryptFrame } from '../lib/e2eeFrames';
+import { extractE2eeSecret } from '../lib/qrScan';
+
+const frame = () => new Uint8Array([0xfc, 0xff, 0xfe, 1, 2, 3, 4, 5]).buffer;
+
+describe('E2EE', () => {
+    it('should derive the same key ID from the same secret on both devices', async () => {
+        const secret = generateE2eeSecret();
+        expect(isValidE2eeSecret(secret)).toBe(true);
+
+        const [a, b] = await Promise.all([deriveE2eeKey(secret), deriveE2eeKey(secret)]);
+        const other = await deriveE2eeKey(generateE2eeSecret());
+        expect(a.keyId).toMatch(/^[0-9a-f]{16}$/);
+        expect(a.keyId).toBe(b.keyId);
+        expect(other.keyId).not.toBe(a.keyId);
+    });
+
+    it('should round-trip a frame with a random IV per frame', async () => {
+        const secret = generateE2eeSecret();
+        const sender = await deriveE2eeKey(secret);
+        const receiver = await deriveE2eeKey(secret);
+
+        const first = await encryptFrame(sender.key, frame());
+        const second = await encryptFrame(sender.key, frame());
+        expect(new Uint8Array(first)).not.toEqual(new Uint8Array(second));
+        expect(first.byteLength).toBe(frame().byteLength + 12 + 16);
+
+        expect(new Uint8Array(await decryptFrame(receiver.key, first))).toEqual(new Uint8Array(frame()));
+    });
+
+    it('should fail to decrypt with the wrong key or a plaintext frame', async () => {
+        const right = await deriveE2eeKey(generateE2eeSecret());
+        const wrong = await deriveE2eeKey(generateE2eeSecret());
+        const encrypted = await encryptFrame(right.key, frame());
+
+        await expect(decryptFrame(wrong.key, encrypted)).rejects.toThrow();
+        await expect(decryptFrame(right.key, frame())).rejects.toThrow();
+    });
+
+    it('should read the secret from a pairing URL fragment', () => {
+        const secret = generateE2eeSecret();
+        expect(extractE2eeSecret(`https://walkie-lazy.vercel.app/?pair=7K3-Q9M#k=${secret}`)).toBe(secret);
+        expect(extractE2eeSecret('https://walkie-lazy.vercel.app/?pair=7K3-Q9M')).toBeNull();
+        expect(extractE2eeSecret('7K3-Q9M')).toBeNull();
+    });
+
+    it('should only encrypt for peers known to hold a key we share', async () => {
+        const own = await deriveE2eeKey(generateE2eeSecret());
+        const scanned = await deriveE2eeKey(generateE2eeSecret());
+
+        expect(selectOutgoingKey(scanned, own, false)).toBe(scanned);
+        expect(selectOutgoingKey(null, own, true)).toBe(own);
+        // Paired by typed code: they never saw our secret, so encrypting would only make noise
+        expect(selectOutgoingKey(null, own, false)).toBeNull();
+    });
+});
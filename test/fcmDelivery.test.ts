@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { fcmFailureResponse, isValidNotificationMessage, MAX_NOTIFICATION_MESSAGE_LENGTH, sendWithRetry } from '../lib/fcmDelivery';
+import { classifyFcmError } from '../lib/fcmErrors';
+
+const fcmError = (code: string) => Object.assign(new Error(code), { errorInfo: { code, message: code } });
+
+// send() that fails with each error in turn, then succeeds
+function failingWith(...errors: Error[]) {
+    let calls = 0;
+    const send = async () => {
+        const error = errors[calls++];
+        if (error) throw error;
+        return 'projects/demo/messages/1';
+    };
+    return { send, calls: () => calls };
+}
+
+describe('FCM Delivery', () => {
+    const delays: number[] = [];
+    const sleep = async (ms: number) => { delays.push(ms); };
+
+    it('should classify FCM errors by what to do about them', () => {
+        expect(classifyFcmError(fcmError('messaging/registration-token-not-registered'))).toBe('token-rejected');
+        expect(classifyFcmError(fcmError('messaging/server-unavailable'))).toBe('transient');
+        expect(classifyFcmError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toBe('transient');
+        expect(classifyFcmError(fcmError('messaging/mismatched-credential'))).toBe('fatal');
+        // A real send's invalid-argument may be the payload's fault, so it must not cost the target its token
+        expect(classifyFcmError(fcmError('messaging/invalid-argument'))).toBe('fatal');
+    });
+
+    it('should retry transient failures with growing backoff', async () => {
+        delays.length = 0;
+        const { send, calls } = failingWith(fcmError('messaging/internal-error'), fcmError('messaging/server-unavailable'));
+
+        expect(await sendWithRetry(send, { attempts: 3, baseDelayMs: 100, sleep })).toEqual({
+            status: 'sent',
+            messageId: 'projects/demo/messages/1',
+        });
+        expect(calls()).toBe(3);
+        expect(delays[0]).toBeGreaterThanOrEqual(50);
+        expect(delays[0]).toBeLessThanOrEqual(100);
+        expect(delays[1]).toBeGreaterThanOrEqual(100);
+        expect(delays[1]).toBeLessThanOrEqual(200);
+    });
+
+    it('should give up as unavailable once attempts run out', async () => {
+        const { send, calls } = failingWith(...Array(3).fill(fcmError('messaging/server-unavailable')));
+
+        expect(await sendWithRetry(send, { attempts: 3, sleep })).toEqual({
+            status: 'unavailable',
+            errorCode: 'messaging/server-unavailable',
+        });
+        expect(calls()).toBe(3);
+    });
+
+    it('should not retry a rejected token', async () => {
+        const { send, calls } = failingWith(fcmError('messaging/registration-token-not-registered'));
+
+        expect(await sendWithRetry(send, { sleep })).toEqual({
+            status: 'token-rejected',
+            errorCode: 'messaging/registration-token-not-registered',
+        });
+        expect(calls()).toBe(1);
+    });
+
+    it('should rethrow fatal errors', async () => {
+        const { send } = failingWith(fcmError('messaging/mismatched-credential'));
+
+        await expect(sendWithRetry(send, { sleep })).rejects.toThrow('messaging/mismatched-credential');
+    });
+
+    it('should answer 410 for gone tokens and 503 with Retry-After when FCM is down', async () => {
+        const gone = fcmFailureResponse({ status: 'token-rejected', errorCode: 'messaging/registration-token-not-registered' });
+        const down = fcmFailureResponse({ status: 'unavailable', errorCode: null });
+
+        expect(gone.status).toBe(410);
+        expect((await gone.json()).code).toBe('token_gone');
+        expect(down.status).toBe(503);
+        expect(down.headers.get('Retry-After')).toBe('30');
+        expect((await down.json()).code).toBe('fcm_unavailable');
+    });
+
+    it('should only accept notification text that fits in a payload', () => {
+        expect(isValidNotificationMessage(undefined)).toBe(true);
+        expect(isValidNotificationMessage('x'.repeat(MAX_NOTIFICATION_MESSAGE_LENGTH))).toBe(true);
+        expect(isValidNotificationMessage('x'.repeat(MAX_NOTIFICATION_MESSAGE_LENGTH + 1))).toBe(false);
+        expect(isValidNotificationMessage({ text: 'hi' })).toBe(false);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+    FLOOR_HOLD_TIMEOUT,
+    applyFloorMessage,
+    evaluateFloorRequest,
+    getActiveHolder,
+    hasPriority,
+    initialFloorState,
+    isFloorMessage,
+} from '../lib/floorControl';
+
+describe('Floor Control', () => {
+    const now = 1_000_000;
+
+    it('should give priority to the earliest request, then the lowest peer ID', () => {
+        expect(hasPriority({ peerId: 'bravo', requestedAt: 1 }, { peerId: 'alpha', requestedAt: 2 })).toBe(true);
+        expect(hasPriority({ peerId: 'bravo', requestedAt: 2 }, { peerId: 'alpha', requestedAt: 1 })).toBe(false);
+        expect(hasPriority({ peerId: 'alpha', requestedAt: 1 }, { peerId: 'bravo', requestedAt: 1 })).toBe(true);
+    });
+
+    it('should let a request through when the channel is idle', () => {
+        const denial = evaluateFloorRequest(initialFloorState, 'alpha', { peerId: 'bravo', requestedAt: now }, now);
+        expect(denial).toBeNull();
+    });
+
+    it('should deny a request while another station holds the floor', () => {
+        const state = { ...initialFloorState, holder: 'charlie', holderSince: now };
+        const denial = evaluateFloorRequest(state, 'alpha', { peerId: 'bravo', requestedAt: now }, now);
+        expect(denial).toBe('charlie');
+    });
+
+    it('should resolve simultaneous requests in favour of the earlier claim', () => {
+        const state = { ...initialFloorState, pending: { peerId: 'alpha', requestedAt: now } };
+
+        expect(evaluateFloorRequest(state, 'alpha', { peerId: 'bravo', requestedAt: now + 5 }, now)).toBe('alpha');
+        expect(evaluateFloorRequest(state, 'alpha', { peerId: 'bravo', requestedAt: now - 5 }, now)).toBeNull();
+    });
+
+    it('should forget a holder that never released the floor', () => {
+        const state = { ...initialFloorState, holder: 'charlie', holderSince: now };
+        expect(getActiveHolder(state, now + FLOOR_HOLD_TIMEOUT - 1)).toBe('charlie');
+        expect(getActiveHolder(state, now + FLOOR_HOLD_TIMEOUT + 1)).toBeNull();
+    });
+
+    it('should track taken and released messages', () => {
+        const taken = applyFloorMessage(initialFloorState, { type: 'floor_taken', channel: 'ops', peerId: 'bravo' }, now);
+        expect(taken.holder).toBe('bravo');
+
+        const otherRelease = applyFloorMessage(taken, { type: 'floor_release', channel: 'ops', peerId: 'charlie' }, now);
+        expect(otherRelease.holder).toBe('bravo');
+
+        const released = applyFloorMessage(taken, { type: 'floor_release', channel: 'ops', peerId: 'bravo' }, now);
+        expect(released.holder).toBeNull();
+    });
+
+    it('should recognise floor messages', () => {
+        expect(isFloorMessage({ type: 'floor_taken', channel: 'ops', peerId: 'bravo' })).toBe(true);
+        expect(isFloorMessage({ type: 'chat', channel: 'ops', peerId: 'bravo' })).toBe(false);
+        expect(isFloorMessage('floor_taken')).toBe(false);
+        expect(isFloorMessage(null)).toBe(false);
+    });
+});
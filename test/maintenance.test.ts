@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { getMaintenanceTasks, getRetentionConfig } from '../lib/maintenance';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Maintenance', () => {
+    const now = 1_700_000_000_000;
+
+    it('should default retention when nothing is configured', () => {
+        expect(getRetentionConfig({})).toEqual({
+            expiredTokenGraceMs: 7 * DAY,
+            invalidatedTokenMs: 7 * DAY,
+            blacklistMs: 90 * DAY,
+            exchangeLogMs: 30 * DAY,
+            archive: false,
+        });
+    });
+
+    it('should read retention in days and ignore unusable values', () => {
+        const config = getRetentionConfig({
+            MAINTENANCE_EXPIRED_TOKEN_GRACE_DAYS: '0',
+            MAINTENANCE_INVALIDATED_TOKEN_DAYS: '1.5',
+            MAINTENANCE_BLACKLIST_DAYS: '-3',
+            MAINTENANCE_EXCHANGE_LOG_DAYS: 'soon',
+            MAINTENANCE_ARCHIVE: 'true',
+        });
+
+        expect(config.expiredTokenGraceMs).toBe(0);
+        expect(config.invalidatedTokenMs).toBe(1.5 * DAY);
+        expect(config.blacklistMs).toBe(90 * DAY);
+        expect(config.exchangeLogMs).toBe(30 * DAY);
+        expect(config.archive).toBe(true);
+    });
+
+    it('should cut each collection off at its retention', () => {
+        const tasks = getMaintenanceTasks(getRetentionConfig({}), now);
+
+        expect(tasks.map(({ name, collection, field, cutoff }) => [name, collection, field, now - cutoff])).toEqual([
+            ['expired-tokens', 'tokens', 'createdAt', DAY + 7 * DAY],
+            ['invalidated-tokens', 'tokens', 'invalidatedAt', 7 * DAY],
+            ['blacklist', 'blacklistedTokens', 'blacklistedAt', 90 * DAY],
+            ['exchange-logs', 'tokenExchanges', 'timestamp', 30 * DAY],
+            ['voice-messages', 'voiceMessages', 'createdAt', 7 * DAY],
+        ]);
+    });
+
+    it('should prune idle tokens when the token policy has an idle timeout', () => {
+        const policy = { lifetimeMs: 30 * DAY, idleTimeoutMs: 2 * DAY, slidingRenewal: true, renewBeforeMs: 0 };
+        const tasks = getMaintenanceTasks(getRetentionConfig({}), now, policy);
+
+        expect(tasks.map(({ name, field, cutoff }) => [name, field, now - cutoff]).slice(0, 2)).toEqual([
+            ['expired-tokens', 'createdAt', 30 * DAY + 7 * DAY],
+            ['idle-tokens', 'lastActiveAt', 2 * DAY + 7 * DAY],
+        ]);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, afterAll, vi } from 'vitest';
+import {
+    PAIRING_CODE_TTL,
+    createMemoryPairingCodeStore,
+    createPairingCode,
+    generatePairingCode,
+    normalizePairingCode,
+    redeemPairingCode,
+    setPairingCodeStore,
+} from '../lib/pairingCodes';
+import { getTokenRepository } from '../lib/tokenRepository';
+
+describe('Pairing Codes', () => {
+    it('should generate codes in the XXX-XXX form without ambiguous characters', () => {
+        for (let i = 0; i < 200; i++) {
+            const code = generatePairingCode();
+            expect(code).toMatch(/^[A-Z2-9]{3}-[A-Z2-9]{3}$/);
+            expect(code).not.toMatch(/[01IO]/);
+            expect(normalizePairingCode(code)).toBe(code);
+        }
+    });
+
+    it('should normalize case, spacing and a missing dash', () => {
+        expect(normalizePairingCode('7k3-q9m')).toBe('7K3-Q9M');
+        expect(normalizePairingCode(' 7K3 Q9M ')).toBe('7K3-Q9M');
+        expect(normalizePairingCode('7K3Q9M')).toBe('7K3-Q9M');
+    });
+
+    it('should reject input that cannot be a code', () => {
+        expect(normalizePairingCode('7K3-Q9')).toBeNull();
+        expect(normalizePairingCode('7K3-Q9MM')).toBeNull();
+        expect(normalizePairingCode('0O1-IAB')).toBeNull();
+        expect(normalizePairingCode(42)).toBeNull();
+        expect(normalizePairingCode(undefined)).toBeNull();
+    });
+});
+
+describe('Pairing Code Redemption', () => {
+    const token = 'fcm-token-pairing-'.padEnd(80, 'x');
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(1_700_000_000_000);
+        setPairingCodeStore(createMemoryPairingCodeStore());
+        await getTokenRepository().save(token, 'user-pairing-01', {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    afterAll(() => {
+        setPairingCodeStore(null);
+    });
+
+    it('should resolve a code to its token and peer ID exactly once', async () => {
+        const pairing = await createPairingCode(token, 'alpha');
+        expect(pairing).not.toBeNull();
+
+        expect(await redeemPairingCode(pairing!.code)).toEqual({ token, peerId: 'alpha' });
+        expect(await redeemPairingCode(pairing!.code)).toEqual({ error: 'used' });
+    });
+
+    it('should refuse a code once it has expired', async () => {
+        const pairing = await createPairingCode(token);
+        expect(pairing!.expiresAt).toBe(new Date(1_700_000_000_000 + PAIRING_CODE_TTL).toISOString());
+
+        vi.setSystemTime(1_700_000_000_000 + PAIRING_CODE_TTL);
+        expect(await redeemPairingCode(pairing!.code)).toEqual({ error: 'expired' });
+    });
+
+    it('should report an unknown code as not found', async () => {
+        expect(await redeemPairingCode('7K3-Q9M')).toEqual({ error: 'not_found' });
+    });
+
+    it('should not issue codes for unregistered or revoked tokens', async () => {
+        expect(await createPairingCode('fcm-token-unknown-'.padEnd(80, 'x'))).toBeNull();
+
+        // Revocation is permanent, so use a token of its own rather than the shared one
+        const revoked = 'fcm-token-revoked-'.padEnd(80, 'x');
+        await getTokenRepository().save(revoked, 'user-pairing-02', {});
+        await getTokenRepository().invalidate(revoked, 'test');
+        expect(await createPairingCode(revoked)).toBeNull();
+    });
+});
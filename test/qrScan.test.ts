@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { extractPairingCode } from '../lib/qrScan';
+
+describe('extractPairingCode', () => {
+    it('should read the code from a pairing URL', () => {
+        expect(extractPairingCode('https://walkie-lazy.vercel.app/?pair=7K3-Q9M')).toBe('7K3-Q9M');
+        expect(extractPairingCode('http://localhost:3000/?pair=7k3q9m')).toBe('7K3Q9M');
+    });
+
+    it('should accept a bare code', () => {
+        expect(extractPairingCode(' 7k3-q9m ')).toBe('7K3-Q9M');
+    });
+
+    it('should ignore unrelated QR payloads', () => {
+        expect(extractPairingCode('https://example.com/?token=abc')).toBeNull();
+        expect(extractPairingCode('https://example.com/?pair=not-a-code')).toBeNull();
+        expect(extractPairingCode('hello world')).toBeNull();
+    });
+});
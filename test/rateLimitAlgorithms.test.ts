@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { consumeRateLimit, inspectRateLimit, RateLimitAlgorithm, RateLimitRule } from '../lib/rateLimitAlgorithms';
+
+const WINDOW = 60_000;
+const start = 1_700_000_040_000; // 40s into an aligned window
+
+// Send `count` requests at `at`, returning how many were allowed and the final state
+function burst(rule: RateLimitRule, state: unknown, at: number, count: number) {
+    let allowed = 0;
+    let last = null;
+    for (let i = 0; i < count; i++) {
+        const result = consumeRateLimit(state, rule, at);
+        state = result.state;
+        last = result.decision;
+        if (result.decision.allowed) allowed++;
+    }
+    return { allowed, state, last: last! };
+}
+
+const rule = (algorithm: RateLimitAlgorithm): RateLimitRule => ({ windowMs: WINDOW, max: 10, algorithm });
+
+describe('Rate Limit Algorithms', () => {
+    it('should let a fixed window pass twice the limit across a window boundary', () => {
+        const first = burst(rule('fixed-window'), null, start, 10);
+        const second = burst(rule('fixed-window'), first.state, start + WINDOW, 10);
+
+        expect(first.allowed + second.allowed).toBe(20);
+    });
+
+    it('should hold a sliding log to the limit across any window', () => {
+        const first = burst(rule('sliding-log'), null, start, 10);
+        const second = burst(rule('sliding-log'), first.state, start + WINDOW - 1, 10);
+
+        expect(first.allowed).toBe(10);
+        expect(second.allowed).toBe(0);
+        expect(second.last.retryAfterMs).toBe(1);
+        expect(burst(rule('sliding-log'), second.state, start + WINDOW, 10).allowed).toBe(10);
+    });
+
+    it('should weight the previous window by its overlap in the sliding window counter', () => {
+        const first = burst(rule('sliding-window-counter'), null, start, 10);
+        // 30s into the next window, half of the previous window's 10 requests still count
+        const next = Math.floor(start / WINDOW) * WINDOW + WINDOW + WINDOW / 2;
+        const second = burst(rule('sliding-window-counter'), first.state, next, 10);
+
+        expect(first.allowed).toBe(10);
+        expect(second.allowed).toBe(5);
+        expect(second.last.allowed).toBe(false);
+        expect(second.last.retryAfterMs).toBe(WINDOW / 10);
+    });
+
+    it('should refill a token bucket evenly over the window', () => {
+        const drained = burst(rule('token-bucket'), null, start, 11);
+
+        expect(drained.allowed).toBe(10);
+        expect(drained.last.retryAfterMs).toBe(WINDOW / 10);
+        expect(burst(rule('token-bucket'), drained.state, start + WINDOW / 10, 2).allowed).toBe(1);
+        expect(inspectRateLimit(drained.state, rule('token-bucket'), start + WINDOW).remaining).toBe(10);
+    });
+
+    it('should report remaining requests without counting one', () => {
+        for (const algorithm of ['fixed-window', 'sliding-log', 'sliding-window-counter', 'token-bucket'] as const) {
+            const { state } = burst(rule(algorithm), null, start, 3);
+
+            expect(inspectRateLimit(null, rule(algorithm), start)).toEqual({ remaining: 10, reset: 0 });
+            expect(inspectRateLimit(state, rule(algorithm), start).remaining).toBe(7);
+            expect(inspectRateLimit(state, rule(algorithm), start).remaining).toBe(7);
+        }
+    });
+});
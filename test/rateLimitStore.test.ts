@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import net from 'net';
+import { createMemoryRateLimitStore, createRedisRateLimitStore } from '../lib/rateLimitStore';
+import { connectRedis, encodeCommand, parseReply, RedisReplyError } from '../lib/redisClient';
+
+const increment = (current: number | null) => (current ?? 0) + 1;
+
+describe('Rate Limit Stores', () => {
+    it('should apply updates to the current state in memory', async () => {
+        const store = createMemoryRateLimitStore();
+
+        await store.update('notify:alpha', 60_000, increment);
+        expect(await store.update('notify:alpha', 60_000, increment)).toBe(2);
+        expect(await store.get('notify:alpha')).toBe(2);
+        expect(await store.get('notify:bravo')).toBeNull();
+    });
+
+    it('should forget in-memory state once it expires', async () => {
+        let now = 1_700_000_000_000;
+        const store = createMemoryRateLimitStore(() => now);
+
+        await store.update('notify:alpha', 1000, increment);
+        now += 1000;
+
+        expect(await store.get('notify:alpha')).toBeNull();
+        expect(await store.update('notify:alpha', 1000, increment)).toBe(1);
+    });
+});
+
+describe('Redis Protocol', () => {
+    it('should encode commands as arrays of bulk strings', () => {
+        expect(encodeCommand(['SET', 'ratelimit:ü', 5])).toBe('*3\r\n$3\r\nSET\r\n$12\r\nratelimit:ü\r\n$1\r\n5\r\n');
+    });
+
+    it('should parse each reply type', () => {
+        const reply = (text: string) => parseReply(Buffer.from(text))?.value;
+
+        expect(reply('+OK\r\n')).toBe('OK');
+        expect(reply(':42\r\n')).toBe(42);
+        expect(reply('$5\r\nhello\r\n')).toBe('hello');
+        expect(reply('$-1\r\n')).toBeNull();
+        expect(reply('*-1\r\n')).toBeNull();
+        expect(reply('*2\r\n+OK\r\n$2\r\n{}\r\n')).toEqual(['OK', '{}']);
+        expect(reply('-ERR wrong type\r\n')).toBeInstanceOf(RedisReplyError);
+    });
+
+    it('should wait for complete replies', () => {
+        expect(parseReply(Buffer.from('$5\r\nhel'))).toBeNull();
+        expect(parseReply(Buffer.from('*2\r\n+OK\r\n'))).toBeNull();
+        expect(parseReply(Buffer.from('+OK\r\n:1\r\n'))).toEqual({ value: 'OK', offset: 5 });
+    });
+});
+
+describe('Redis Client Failures', () => {
+    let server: net.Server | null = null;
+
+    afterEach(async () => {
+        await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+        server = null;
+    });
+
+    // A local TCP server that answers every command with `reply`, or never when it is null
+    const listen = async (reply: string | null) => {
+        server = net.createServer(socket => {
+            socket.on('data', () => {
+                if (reply !== null) socket.write(reply);
+            });
+        });
+        await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+        return `redis://127.0.0.1:${(server!.address() as net.AddressInfo).port}`;
+    };
+
+    it('should time out commands on a connection that never answers', async () => {
+        const redis = await connectRedis(await listen(null), { commandTimeoutMs: 50 });
+
+        await expect(redis.command('GET', 'ratelimit:alpha')).rejects.toThrow('Redis command timed out: GET');
+        await expect(redis.command('GET', 'ratelimit:alpha')).rejects.toThrow('Redis connection closed');
+    });
+
+    it('should reject a malformed reply instead of throwing from the socket handler', async () => {
+        const redis = await connectRedis(await listen('?bogus\r\n'));
+
+        await expect(redis.command('GET', 'ratelimit:alpha')).rejects.toThrow('Unexpected Redis reply type: ?');
+    });
+
+    it('should fail rate limit updates on a stuck server so callers can fall back', async () => {
+        const store = createRedisRateLimitStore(await listen(null), { commandTimeoutMs: 50 });
+
+        await expect(Promise.all([
+            store.update('notify:alpha', 60_000, increment),
+            store.update('notify:bravo', 60_000, increment),
+        ])).rejects.toThrow('Redis command timed out');
+    });
+});
+
+// Runs against a real server, e.g. `redis-server --port 6379` and REDIS_URL=redis://localhost:6379/15
+describe.skipIf(!process.env.REDIS_URL)('Redis Rate Limit Store', () => {
+    it('should not lose updates from concurrent instances', async () => {
+        const key = `test:${Date.now()}`;
+        const first = createRedisRateLimitStore(process.env.REDIS_URL!);
+        const second = createRedisRateLimitStore(process.env.REDIS_URL!);
+
+        await Promise.all(Array.from({ length: 20 }, (_, i) => (i % 2 ? first : second).update(key, 10_000, increment)));
+
+        expect(await first.get(key)).toBe(20);
+    });
+
+    it('should expire state after its TTL', async () => {
+        const key = `test:${Date.now()}:ttl`;
+        const store = createRedisRateLimitStore(process.env.REDIS_URL!);
+
+        await store.update(key, 50, increment);
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(await store.get(key)).toBeNull();
+    });
+});
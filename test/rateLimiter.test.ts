@@ -1,4 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { NextRequest } from 'next/server';
+import { rateLimit, rateLimitExceededResponse } from '../lib/rateLimiter';
 
 describe('Rate Limiter', () => {
     let testIp = '.test-ip';
@@ -82,7 +84,7 @@ describe('Rate Limiter', () => {
         expect(result.allowed).toBe(true);
     });
 
-    it('should provide rate limit info for debugging', () => {
+    it('should provide rate limit info for debugging', async () => {
         const limiter = require('../lib/rateLimiter');
 
         // Make some requests to create state
@@ -91,9 +93,40 @@ describe('Rate Limiter', () => {
             'token_revocation'
         );
 
-        const info = limiter.getRateLimitInfo(testIp, 'token_revocation');
+        const info = await limiter.getRateLimitInfo(testIp, 'token_revocation');
         expect(info.limit).toBe(5);
         expect(info.remaining).toBeGreaterThanOrEqual(0);
         expect(info.reset).toBeGreaterThanOrEqual(0);
     });
 });
+
+describe('Rate Limiter identifiers', () => {
+    const request = { ip: '.notify-ip' } as unknown as NextRequest;
+
+    it('should count identifiers separately from the caller IP', async () => {
+        for (let i = 0; i < 10; i++) {
+            expect((await rateLimit(request, 'notify_target', 'target-token-a')).allowed).toBe(true);
+        }
+
+        expect((await rateLimit(request, 'notify_target', 'target-token-a')).allowed).toBe(false);
+        expect((await rateLimit(request, 'notify_target', 'target-token-b')).allowed).toBe(true);
+        expect((await rateLimit(request, 'notify_target')).allowed).toBe(true);
+    });
+
+    it('should build the same 429 response as the middleware', async () => {
+        for (let i = 0; i < 20; i++) {
+            await rateLimit(request, 'notify_sender', 'user-flooder-01');
+        }
+        const result = await rateLimit(request, 'notify_sender', 'user-flooder-01');
+        const response = rateLimitExceededResponse('notify_sender', result);
+
+        expect(response.status).toBe(429);
+        expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+        expect(await response.json()).toMatchObject({
+            error: 'Too many notifications sent from this device',
+            retryAfter: result.retryAfter,
+            limit: 20,
+            remaining: 0,
+        });
+    });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+    MAX_MISSED_HEARTBEATS,
+    getReachabilityReply,
+    isHeartbeatOverdue,
+    isReachabilityMessage,
+    withHandshakeComplete,
+    withSignalingOpen,
+} from '../lib/reachability';
+import type { ConnectionStatus } from '../types/connection';
+
+describe('Reachability', () => {
+    it('should recognise well-formed handshake and heartbeat messages', () => {
+        expect(isReachabilityMessage({ type: 'hello', peerId: 'alpha' })).toBe(true);
+        expect(isReachabilityMessage({ type: 'ping', seq: 1, sentAt: 1000 })).toBe(true);
+        expect(isReachabilityMessage({ type: 'ping', seq: '1', sentAt: 1000 })).toBe(false);
+        expect(isReachabilityMessage({ type: 'floor_request', peerId: 'alpha' })).toBe(false);
+        expect(isReachabilityMessage(null)).toBe(false);
+    });
+
+    it('should acknowledge hellos and answer pings with matching pongs', () => {
+        expect(getReachabilityReply({ type: 'hello', peerId: 'alpha' }, 'bravo')).toEqual({ type: 'hello_ack', peerId: 'bravo' });
+        expect(getReachabilityReply({ type: 'ping', seq: 7, sentAt: 1000 }, 'bravo')).toEqual({ type: 'pong', seq: 7, sentAt: 1000 });
+        expect(getReachabilityReply({ type: 'pong', seq: 7, sentAt: 1000 }, 'bravo')).toBeNull();
+    });
+
+    it('should only declare the remote unreachable after the allowed missed heartbeats', () => {
+        const interval = 30000;
+        expect(isHeartbeatOverdue(0, interval * MAX_MISSED_HEARTBEATS, interval)).toBe(false);
+        expect(isHeartbeatOverdue(0, interval * MAX_MISSED_HEARTBEATS + 1, interval)).toBe(true);
+    });
+
+    it('should stay connecting when the signaling server opens and connect only on hello_ack', () => {
+        const connecting: ConnectionStatus = { state: 'connecting', retryCount: 3, isOnline: true, error: 'network_error' };
+
+        const opened = withSignalingOpen(connecting, 'alpha');
+        expect(opened).toEqual({ ...connecting, peerId: 'alpha' });
+
+        expect(withHandshakeComplete(opened, 'bravo')).toEqual({
+            state: 'connected',
+            peerId: 'alpha',
+            remotePeerId: 'bravo',
+            error: undefined,
+            retryCount: 0,
+            isOnline: true,
+        });
+    });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SECURITY_CONFIG, getSecurityConfig } from '../lib/securityConfig';
+
+describe('Security Config', () => {
+    it('should encrypt stored tokens unless explicitly turned off', () => {
+        expect(getSecurityConfig({})).toEqual(DEFAULT_SECURITY_CONFIG);
+        expect(getSecurityConfig({ NEXT_PUBLIC_TOKEN_ENCRYPTION: 'yes' }).tokenEncryptionEnabled).toBe(true);
+        expect(getSecurityConfig({ NEXT_PUBLIC_TOKEN_ENCRYPTION: 'false' }).tokenEncryptionEnabled).toBe(false);
+    });
+
+    it('should read the validation endpoint and timeout, ignoring unusable values', () => {
+        expect(getSecurityConfig({
+            NEXT_PUBLIC_TOKEN_VALIDATION_ENDPOINT: '/custom/verify',
+            NEXT_PUBLIC_TOKEN_VALIDATION_TIMEOUT: '2500',
+        })).toEqual({ ...DEFAULT_SECURITY_CONFIG, tokenValidationEndpoint: '/custom/verify', tokenValidationTimeout: 2500 });
+
+        expect(getSecurityConfig({ NEXT_PUBLIC_TOKEN_VALIDATION_TIMEOUT: '0' }).tokenValidationTimeout)
+            .toBe(DEFAULT_SECURITY_CONFIG.tokenValidationTimeout);
+    });
+});
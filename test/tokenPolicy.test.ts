@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_TOKEN_POLICY,
+    getRenewalDelay,
+    getTokenExpiry,
+    getTokenPolicy,
+    isTokenExpiredAt,
+    shouldRecordActivity,
+    TokenPolicy,
+} from '../lib/tokenPolicy';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Token policy', () => {
+    const createdAt = new Date(1_700_000_000_000);
+    const policy: TokenPolicy = { lifetimeMs: 24 * HOUR, idleTimeoutMs: 2 * HOUR, slidingRenewal: true, renewBeforeMs: 5 * 60 * 1000 };
+
+    it('should default to a 24 hour absolute lifetime', () => {
+        expect(getTokenPolicy({})).toEqual(DEFAULT_TOKEN_POLICY);
+        expect(DEFAULT_TOKEN_POLICY.lifetimeMs).toBe(24 * HOUR);
+        expect(DEFAULT_TOKEN_POLICY.idleTimeoutMs).toBe(0);
+    });
+
+    it('should read durations in seconds and ignore unusable values', () => {
+        expect(getTokenPolicy({
+            NEXT_PUBLIC_TOKEN_LIFETIME: '3600',
+            NEXT_PUBLIC_TOKEN_IDLE_TIMEOUT: '-1',
+            NEXT_PUBLIC_TOKEN_SLIDING_RENEWAL: 'true',
+            NEXT_PUBLIC_TOKEN_RENEW_BEFORE: 'soon',
+        })).toEqual({ ...DEFAULT_TOKEN_POLICY, lifetimeMs: HOUR, slidingRenewal: true });
+    });
+
+    it('should expire at the absolute lifetime without an idle timeout', () => {
+        const times = { createdAt, lastActiveAt: null };
+        const expiresAt = createdAt.getTime() + 24 * HOUR;
+
+        expect(getTokenExpiry(DEFAULT_TOKEN_POLICY, times)).toBe(expiresAt);
+        expect(isTokenExpiredAt(DEFAULT_TOKEN_POLICY, times, expiresAt - 1)).toBe(false);
+        expect(isTokenExpiredAt(DEFAULT_TOKEN_POLICY, times, expiresAt)).toBe(true);
+    });
+
+    it('should expire idle tokens but never past the absolute lifetime', () => {
+        expect(getTokenExpiry(policy, { createdAt, lastActiveAt: null })).toBe(createdAt.getTime() + 2 * HOUR);
+        expect(getTokenExpiry(policy, { createdAt, lastActiveAt: new Date(createdAt.getTime() + 10 * HOUR) }))
+            .toBe(createdAt.getTime() + 12 * HOUR);
+        expect(getTokenExpiry(policy, { createdAt, lastActiveAt: new Date(createdAt.getTime() + 23 * HOUR) }))
+            .toBe(createdAt.getTime() + 24 * HOUR);
+    });
+
+    it('should treat a token without a registration time as expired', () => {
+        expect(isTokenExpiredAt(policy, { createdAt: null, lastActiveAt: null })).toBe(true);
+    });
+
+    it('should record activity only with sliding renewal and after half the idle timeout', () => {
+        const lastActiveAt = createdAt;
+        const now = createdAt.getTime();
+
+        expect(shouldRecordActivity(policy, lastActiveAt, now + HOUR - 1)).toBe(false);
+        expect(shouldRecordActivity(policy, lastActiveAt, now + HOUR)).toBe(true);
+        expect(shouldRecordActivity(policy, null, now)).toBe(true);
+        expect(shouldRecordActivity({ ...policy, slidingRenewal: false }, lastActiveAt, now + HOUR)).toBe(false);
+        expect(shouldRecordActivity({ ...policy, idleTimeoutMs: 0 }, lastActiveAt, now + HOUR)).toBe(false);
+    });
+
+    it('should schedule renewal ahead of expiry within timer limits', () => {
+        const now = createdAt.getTime();
+
+        expect(getRenewalDelay(policy, now + HOUR, now)).toBe(HOUR - 5 * 60 * 1000);
+        expect(getRenewalDelay(policy, now + 60 * 1000, now)).toBe(0);
+        expect(getRenewalDelay(policy, now + 60 * 24 * HOUR, now)).toBe(2 ** 31 - 1);
+    });
+});
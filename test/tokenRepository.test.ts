@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMemoryTokenRepository, TokenRepository } from '../lib/tokenRepository';
+import { validateTokenWithInfo } from '../lib/tokenValidator';
+import { getTokenPolicy } from '../lib/tokenPolicy';
+
+const token = 'a'.repeat(152);
+
+describe('Memory token repository', () => {
+    let time: number;
+    let repository: TokenRepository;
+
+    beforeEach(() => {
+        time = 1_700_000_000_000;
+        repository = createMemoryTokenRepository(() => time);
+    });
+
+    it('should create a token and merge metadata on re-registration', async () => {
+        await repository.save(token, 'user-1', { platform: 'web' });
+        time += 1000;
+        await repository.save(token, 'user-2', { version: '1.2.0' });
+
+        const record = await repository.get(token);
+        expect(record).toMatchObject({
+            token,
+            userId: 'user-2',
+            metadata: { platform: 'web', version: '1.2.0' },
+            createdAt: new Date(1_700_000_001_000),
+            updatedAt: new Date(1_700_000_001_000),
+            invalidated: false,
+        });
+        expect(await repository.hasTokenForUser('user-1')).toBe(false);
+        expect(await repository.hasTokenForUser('user-2')).toBe(true);
+    });
+
+    it('should invalidate only registered tokens', async () => {
+        expect(await repository.invalidate(token, 'not-registered')).toBe(false);
+
+        await repository.save(token, 'user-1', {});
+        expect(await repository.invalidate(token, 'not-registered')).toBe(true);
+        expect(await repository.get(token)).toMatchObject({
+            invalidated: true,
+            invalidatedAt: new Date(time),
+            invalidationReason: 'not-registered',
+        });
+    });
+
+    it('should start a new lifetime but keep invalidation on re-registration', async () => {
+        await repository.save(token, 'user-1', {});
+        await repository.invalidate(token, 'revoked');
+        const invalidatedAt = new Date(time);
+        time += 2 * getTokenPolicy().lifetimeMs;
+        await repository.save(token, 'user-1', {});
+
+        expect(await repository.get(token)).toMatchObject({
+            createdAt: new Date(time),
+            invalidated: true,
+            invalidatedAt,
+            invalidationReason: 'revoked',
+        });
+    });
+
+    it('should add and remove blacklist entries', async () => {
+        await repository.blacklist(token, 'Security concern');
+        expect(await repository.isBlacklisted(token)).toBe(true);
+
+        await repository.removeFromBlacklist(token);
+        expect(await repository.isBlacklisted(token)).toBe(false);
+    });
+
+    it('should not let callers mutate stored records', async () => {
+        await repository.save(token, 'user-1', { platform: 'web' });
+        const record = await repository.get(token);
+        record!.metadata.platform = 'ios';
+
+        expect((await repository.get(token))!.metadata.platform).toBe('web');
+    });
+});
+
+describe('Token validation against an injected repository', () => {
+    it('should validate a freshly registered token', async () => {
+        const repository = createMemoryTokenRepository();
+        await repository.save(token, 'user-1', {});
+
+        const result = await validateTokenWithInfo(token, repository);
+        expect(result.reasons).toEqual([]);
+        expect(result.valid).toBe(true);
+    });
+
+    it('should accept a token again once it is re-registered after expiring', async () => {
+        let time = Date.now() - getTokenPolicy().lifetimeMs - 1000;
+        const repository = createMemoryTokenRepository(() => time);
+        await repository.save(token, 'user-1', {});
+        time = Date.now();
+
+        expect((await validateTokenWithInfo(token, repository)).reasons).toEqual(['Token has expired']);
+
+        await repository.save(token, 'user-1', {});
+        expect((await validateTokenWithInfo(token, repository)).valid).toBe(true);
+    });
+
+    it('should report unknown, blacklisted and expired tokens', async () => {
+        let time = Date.now() - getTokenPolicy().lifetimeMs - 1000;
+        const repository = createMemoryTokenRepository(() => time);
+
+        expect((await validateTokenWithInfo(token, repository)).reasons).toContain('Token not found in Firebase');
+
+        await repository.save(token, 'user-1', {});
+        await repository.blacklist(token, 'Security concern');
+        time = Date.now();
+
+        const { valid, reasons } = await validateTokenWithInfo(token, repository);
+        expect(valid).toBe(false);
+        expect(reasons).toEqual(expect.arrayContaining(['Token is blacklisted', 'Token has expired']));
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import { DELETE as revokeToken, POST as registerToken } from '../app/api/tokens/route';
+import { POST as verifyToken } from '../app/api/tokens/verify/route';
+
+describe('Token Routes', () => {
+    const token = 'fcm-token-'.padEnd(80, 'x');
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+        process.env.DEVICE_CREDENTIAL_SECRET = 'route-test-secret';
+    });
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    const jsonRequest = (url: string, method: string, body: unknown, credential?: string) =>
+        new Request(url, {
+            method,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(credential ? { Authorization: `Bearer ${credential}` } : {}),
+            },
+            body: JSON.stringify(body),
+        });
+
+    it('should register and verify a token without Firebase', async () => {
+        const registration = await registerToken(jsonRequest('http://localhost/api/tokens', 'POST', {
+            token,
+            userId: 'user-alpha-01',
+            metadata: { platform: 'web' },
+        }));
+        expect(registration.status).toBe(200);
+        const { credential } = await registration.json();
+
+        const verification = await verifyToken(jsonRequest('http://localhost/api/tokens/verify', 'POST', { token }, credential));
+        expect(verification.status).toBe(200);
+        expect(await verification.json()).toMatchObject({ valid: true, userId: 'user-alpha-01' });
+    });
+
+    it('should keep a revoked token revoked when its credential re-registers it', async () => {
+        const revokedToken = 'fcm-token-revoked-'.padEnd(80, 'x');
+        const registration = await registerToken(jsonRequest('http://localhost/api/tokens', 'POST', {
+            token: revokedToken,
+            userId: 'user-bravo-01',
+        }));
+        const { credential } = await registration.json();
+
+        const revocation = await revokeToken(jsonRequest('http://localhost/api/tokens', 'DELETE', { token: revokedToken }, credential));
+        expect(revocation.status).toBe(200);
+
+        const reRegistration = await registerToken(jsonRequest('http://localhost/api/tokens', 'POST', {
+            token: revokedToken,
+            userId: 'user-bravo-01',
+        }, credential));
+        expect(reRegistration.status).toBe(403);
+
+        const verification = await verifyToken(jsonRequest('http://localhost/api/tokens/verify', 'POST', { token: revokedToken }, credential));
+        expect(await verification.json()).toMatchObject({ valid: false });
+    });
+});
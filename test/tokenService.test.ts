@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createTokenService } from '../lib/tokenService';
+
+const token = 'a'.repeat(152);
+
+const respond = (status: number, body: unknown) =>
+    vi.fn().mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+describe('Token service', () => {
+    const now = () => 1_700_000_000_000;
+
+    it('should post the token to the configured endpoint and honor expiresIn', async () => {
+        const fetch = respond(200, { valid: true, expiresIn: 60_000, expiresAt: '2000-01-01T00:00:00.000Z' });
+        const service = createTokenService({ endpoint: '/custom/verify', fetch, now, isOnline: () => true });
+
+        const check = await service.check(token);
+
+        expect(check).toEqual({ status: 'valid', valid: true, expiresAt: now() + 60_000 });
+        expect(fetch).toHaveBeenCalledWith('/custom/verify', expect.objectContaining({
+            method: 'POST',
+            body: JSON.stringify({ token }),
+        }));
+    });
+
+    it('should report tokens the server rejects as invalid', async () => {
+        const service = createTokenService({ fetch: respond(200, { valid: false, message: 'Token has expired' }), now, isOnline: () => true });
+
+        expect(await service.check(token)).toEqual({ status: 'invalid', valid: false, expiresAt: null, message: 'Token has expired' });
+    });
+
+    it('should fall back to the last answer while offline, until it expires', async () => {
+        let time = now();
+        let online = true;
+        const fetch = respond(200, { valid: true, expiresIn: 60_000 });
+        const service = createTokenService({ fetch, now: () => time, isOnline: () => online });
+
+        await service.check(token);
+        online = false;
+        time += 30_000;
+        expect(await service.check(token)).toMatchObject({ status: 'offline', valid: true, expiresAt: now() + 60_000 });
+
+        time += 30_000;
+        expect(await service.check(token)).toMatchObject({ status: 'offline', valid: false });
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not vouch for a token it never checked while offline', async () => {
+        const service = createTokenService({ fetch: vi.fn(), now, isOnline: () => false });
+
+        expect(await service.check(token)).toMatchObject({ status: 'offline', valid: false, expiresAt: null });
+    });
+
+    it('should time out requests the server does not answer', async () => {
+        const fetch = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+            init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        }));
+        const service = createTokenService({ fetch: fetch as unknown as typeof globalThis.fetch, now, isOnline: () => true, timeoutMs: 10 });
+
+        expect(await service.check(token)).toMatchObject({ status: 'timeout', valid: false });
+    });
+
+    it('should treat unreachable servers as offline and server errors as errors', async () => {
+        const unreachable = createTokenService({ fetch: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')), now, isOnline: () => true });
+        expect(await unreachable.check(token)).toMatchObject({ status: 'offline', valid: false, message: 'Failed to fetch' });
+
+        const failing = createTokenService({ fetch: respond(429, { error: 'Rate limit exceeded' }), now, isOnline: () => true });
+        expect(await failing.check(token)).toMatchObject({ status: 'error', valid: false, message: 'Rate limit exceeded' });
+    });
+
+    it('should share one request between concurrent checks', async () => {
+        const fetch = respond(200, { valid: true, expiresIn: 60_000 });
+        const service = createTokenService({ fetch, now, isOnline: () => true });
+
+        const [first, second] = await Promise.all([service.check(token), service.check(token)]);
+
+        expect(first).toBe(second);
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should forget what it knows about a token', async () => {
+        let online = true;
+        const service = createTokenService({ fetch: respond(200, { valid: true, expiresIn: 60_000 }), now, isOnline: () => online });
+
+        await service.check(token);
+        service.forget(token);
+        online = false;
+
+        expect(await service.check(token)).toMatchObject({ valid: false, expiresAt: null });
+    });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { decodeLegacyToken, encodeEncryptedToken, parseStoredToken } from '../lib/tokenStorage';
+
+const LEGACY_KEY = 'walkie-lazy-token-key';
+const xorEncode = (token: string) => token.split('').map((char, index) =>
+    String.fromCharCode(char.charCodeAt(0) ^ LEGACY_KEY.charCodeAt(index % LEGACY_KEY.length))).join('');
+
+describe('Token Storage', () => {
+    const token = 'fGx1:APA91bHk_example-token';
+
+    it('should round-trip the AES-GCM envelope', () => {
+        const iv = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+        const data = new Uint8Array([200, 0, 17, 255]);
+        const parsed = parseStoredToken(encodeEncryptedToken(iv, data));
+        expect(parsed).toEqual({ format: 'aesgcm', iv, data });
+    });
+
+    it('should read plaintext entries written with encryption disabled', () => {
+        expect(parseStoredToken(`plain:${token}`)).toEqual({ format: 'plain', token });
+    });
+
+    it('should decode entries written by the old XOR scheme for migration', () => {
+        expect(decodeLegacyToken(xorEncode(token))).toBe(token);
+        expect(parseStoredToken(xorEncode(token))).toEqual({ format: 'legacy', token });
+    });
+
+    it('should reject a corrupted envelope', () => {
+        expect(parseStoredToken('aesgcm:!!!:???')).toBeNull();
+        expect(parseStoredToken('')).toBeNull();
+    });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { firebaseAdmin, getFirestore, initializeFirebase } from '../lib/firebaseInit';
+import { createMessagingTokenChecker } from '../lib/tokenValidator';
+import { isTokenRejectedError } from '../lib/fcmErrors';
 
 describe('Token Validator', () => {
     let testToken = 'test-token-123456789';
@@ -111,3 +113,64 @@ describe('Token Validator', () => {
         }
     });
 });
+
+describe('Messaging token check', () => {
+    const token = 'fcm-token-'.padEnd(80, 'x');
+    const fcmError = (code: string) => Object.assign(new Error(code), { errorInfo: { code, message: code } });
+
+    it('should cache dry-run results for the TTL', async () => {
+        let now = 1_700_000_000_000;
+        let dryRuns = 0;
+        const check = createMessagingTokenChecker({
+            dryRun: async () => { dryRuns++; },
+            ttlMs: 60_000,
+            now: () => now,
+        });
+
+        expect(await check(token)).toEqual({ valid: true });
+        now += 59_999;
+        await check(token);
+        expect(dryRuns).toBe(1);
+
+        now += 1;
+        await check(token);
+        expect(dryRuns).toBe(2);
+    });
+
+    it('should treat unregistered tokens as definitively invalid and report them', async () => {
+        const rejected: string[] = [];
+        const check = createMessagingTokenChecker({
+            dryRun: async () => { throw fcmError('messaging/registration-token-not-registered'); },
+            ttlMs: 60_000,
+            onRejected: async (_token, code) => { rejected.push(code); },
+        });
+
+        expect(await check(token)).toEqual({
+            valid: false,
+            reason: 'Token is no longer registered with Firebase Messaging',
+            errorCode: 'messaging/registration-token-not-registered',
+        });
+        await check(token);
+        expect(rejected).toEqual(['messaging/registration-token-not-registered']);
+    });
+
+    it('should pass tokens without caching when FCM fails for other reasons', async () => {
+        let dryRuns = 0;
+        const check = createMessagingTokenChecker({
+            dryRun: async () => { dryRuns++; throw fcmError('messaging/server-unavailable'); },
+            ttlMs: 60_000,
+        });
+
+        expect((await check(token)).valid).toBe(true);
+        await check(token);
+        expect(dryRuns).toBe(2);
+    });
+
+    it('should recognise token rejections by FCM error code', () => {
+        expect(isTokenRejectedError(fcmError('messaging/invalid-argument'), { tokenOnly: true })).toBe(true);
+        expect(isTokenRejectedError(fcmError('messaging/invalid-argument'))).toBe(false);
+        expect(isTokenRejectedError({ code: 'messaging/registration-token-not-registered' })).toBe(true);
+        expect(isTokenRejectedError(fcmError('messaging/internal-error'))).toBe(false);
+        expect(isTokenRejectedError(new Error('network down'))).toBe(false);
+    });
+});
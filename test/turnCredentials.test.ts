@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createTurnCredentials, getIceServersConfig } from '../lib/turnCredentials';
+import { DEFAULT_ICE_SERVERS, getIceRefreshDelay } from '../lib/iceServers';
+import { createDeviceCredential } from '../lib/deviceCredentials';
+import { GET as getIceServers } from '../app/api/turn/route';
+
+describe('TURN Credentials', () => {
+    const now = 1_700_000_000_000;
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+        process.env = { ...originalEnv };
+    });
+
+    it('should follow the TURN REST username and HMAC-SHA1 credential scheme', () => {
+        const credentials = createTurnCredentials('north-pole', 'alpha', 3600, now);
+
+        expect(credentials.username).toBe('1700003600:alpha');
+        expect(credentials.credential).toBe('VS6Lw73ePWsOsFsr02rQT+L16I4=');
+        expect(credentials.expiresAt).toBe(1_700_003_600_000);
+    });
+
+    it('should only issue STUN servers when TURN is not configured', () => {
+        delete process.env.TURN_URLS;
+        delete process.env.TURN_SECRET;
+        delete process.env.STUN_URLS;
+
+        expect(getIceServersConfig('alpha', now)).toEqual({ iceServers: DEFAULT_ICE_SERVERS, expiresAt: null });
+    });
+
+    it('should add a TURN server with credentials from the environment', () => {
+        process.env.STUN_URLS = 'stun:stun.example.com:3478';
+        process.env.TURN_URLS = 'turn:turn.example.com:3478?transport=udp, turns:turn.example.com:5349';
+        process.env.TURN_SECRET = 'north-pole';
+        process.env.TURN_CREDENTIAL_TTL = '3600';
+
+        const { iceServers, expiresAt } = getIceServersConfig('alpha', now);
+        expect(iceServers).toEqual([
+            { urls: ['stun:stun.example.com:3478'] },
+            {
+                urls: ['turn:turn.example.com:3478?transport=udp', 'turns:turn.example.com:5349'],
+                username: '1700003600:alpha',
+                credential: 'VS6Lw73ePWsOsFsr02rQT+L16I4=',
+            },
+        ]);
+        expect(expiresAt).toBe(1_700_003_600_000);
+    });
+
+    it('should refresh credentials well before they expire', () => {
+        expect(getIceRefreshDelay(null, now)).toBeNull();
+        expect(getIceRefreshDelay(now + 3600 * 1000, now)).toBe(2700 * 1000);
+        expect(getIceRefreshDelay(now + 1000, now)).toBe(30 * 1000);
+    });
+
+    it('should only issue TURN credentials to registered devices, named after their user', async () => {
+        process.env.DEVICE_CREDENTIAL_SECRET = 'route-test-secret';
+        process.env.TURN_URLS = 'turn:turn.example.com:3478';
+        process.env.TURN_SECRET = 'north-pole';
+
+        const anonymous = await getIceServers(new Request('http://localhost/api/turn?peerId=alpha'));
+        expect(anonymous.status).toBe(401);
+
+        const { credential } = createDeviceCredential('route-test-secret', 'fcm-token-'.padEnd(80, 'x'), 'user-alpha-01');
+        const response = await getIceServers(new Request('http://localhost/api/turn', {
+            headers: { Authorization: `Bearer ${credential}` },
+        }));
+        expect(response.status).toBe(200);
+        const { iceServers } = await response.json();
+        expect(iceServers.at(-1).username).toMatch(/^\d+:user-alpha-01$/);
+    });
+});
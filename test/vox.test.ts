@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { computeRmsLevel, initialVoxGateState, updateVoxGate } from '../lib/vox';
+
+describe('VOX', () => {
+    const settings = { threshold: 0.1, hangover: 500 };
+
+    it('should compute the RMS level of a buffer', () => {
+        expect(computeRmsLevel(new Float32Array(0))).toBe(0);
+        expect(computeRmsLevel(new Float32Array([0, 0, 0, 0]))).toBe(0);
+        expect(computeRmsLevel(new Float32Array([0.5, -0.5, 0.5, -0.5]))).toBeCloseTo(0.5);
+    });
+
+    it('should stay closed below the threshold', () => {
+        const state = updateVoxGate(initialVoxGateState, 0.05, 1000, settings);
+        expect(state.open).toBe(false);
+    });
+
+    it('should open when the level crosses the threshold', () => {
+        const state = updateVoxGate(initialVoxGateState, 0.2, 1000, settings);
+        expect(state).toEqual({ open: true, lastVoiceAt: 1000 });
+    });
+
+    it('should hold open through the hangover and close after it', () => {
+        let state = updateVoxGate(initialVoxGateState, 0.2, 1000, settings);
+        state = updateVoxGate(state, 0.01, 1400, settings);
+        expect(state.open).toBe(true);
+
+        // Speech inside the hangover extends it
+        state = updateVoxGate(state, 0.3, 1450, settings);
+        state = updateVoxGate(state, 0.01, 1900, settings);
+        expect(state.open).toBe(true);
+
+        state = updateVoxGate(state, 0.01, 1950, settings);
+        expect(state.open).toBe(false);
+    });
+});
@@ -30,6 +30,15 @@ export interface PeerConnection {
   stream: MediaStream | null;
 }
 
+export interface ConnectionMetrics {
+  rtt: number | null; // Round-trip time in ms
+  jitter: number | null; // Inbound jitter in ms
+  packetLoss: number | null; // Percentage of packets lost since the previous sample
+  bitrate: number | null; // Combined send + receive bitrate in kbps
+  quality: number | null; // 0-100 score derived from the above
+  timestamp: number;
+}
+
 export interface TokenManager {
   token: string | null;
   isTokenValid: boolean;
@@ -50,6 +59,7 @@ export interface ConnectionManager {
   isConnecting: boolean;
   isDisconnected: boolean;
   hasError: boolean;
+  metrics: ConnectionMetrics | null;
 
   initializeToken: () => Promise<void>;
   refreshConnectionToken: () => Promise<void>;
@@ -84,14 +94,26 @@ export interface TimeoutConfig {
   connectionTimeout: number;
   tokenValidationTimeout: number;
   keepAliveInterval: number;
+  metricsInterval: number;
 }
 
+// Defaults come from the environment (lib/securityConfig); token storage and the shared token service
+// only ever use those, so setting these in a hook's config doesn't change them
 export interface SecurityConfig {
   tokenEncryptionEnabled: boolean;
   tokenValidationEndpoint: string;
   tokenRefreshThreshold: number;
 }
 
+// PeerJS signaling server; unset fields fall back to the public PeerJS cloud broker
+export interface SignalingConfig {
+  host?: string;
+  port?: number;
+  path?: string;
+  key?: string;
+  secure?: boolean;
+}
+
 export interface DebugConfig {
   enableLogging: boolean;
   logLevel: 'error' | 'warn' | 'info' | 'debug';
@@ -102,6 +124,7 @@ export interface ConnectionManagerConfig {
   retry: RetryConfig;
   timeout: TimeoutConfig;
   security: SecurityConfig;
+  signaling: SignalingConfig;
   debug: DebugConfig;
   autoReconnect: boolean;
 }
\ No newline at end of file
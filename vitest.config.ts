@@ -0,0 +1,13 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Resolves the app's `@/` imports so route handlers can be tested directly.
+// setupFiles keeps token storage in memory, so the suite runs without Firebase credentials.
+export default defineConfig({
+    resolve: {
+        alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+    },
+    test: {
+        setupFiles: ['./test/setupFiles.ts'],
+    },
+});